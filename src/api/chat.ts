@@ -0,0 +1,107 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import {
+    ApiError,
+    type ChatCompletion,
+    type ChatStreamEvent,
+    type Conversation,
+    type ConversationResponse,
+    type JsonValue
+} from "@api/types";
+
+type JsonObject = { [k: string]: JsonValue; };
+
+const asObject = (v: JsonValue | undefined): JsonObject | null =>
+    typeof v === "object" && v !== null && !Array.isArray(v) ? v as JsonObject : null;
+
+/**
+ * Map one raw chat stream frame to typed events. New-conversation frames nest the reply under `result.response`.
+ */
+function* toChatEvents(frame: JsonValue, url: string): Generator<ChatStreamEvent> {
+    const root = asObject(frame);
+    const error = asObject(root?.error);
+    if (error) {
+        const message = typeof error.message === "string" ? error.message : "Chat stream failed";
+        throw new ApiError<JsonValue>({ status: 200, method: "POST", url, message, body: frame, headers: {} });
+    }
+    const result = asObject(root?.result);
+    if (!result) {
+        return;
+    }
+    const conversation = asObject(result.conversation);
+    if (conversation) {
+        yield { type: "conversation", conversation: conversation as Conversation };
+    }
+    const title = asObject(result.title);
+    if (typeof title?.newTitle === "string") {
+        yield { type: "title", title: title.newTitle };
+    }
+    const body = asObject(result.response) ?? result;
+    if (typeof body.token === "string" && body.token) {
+        const responseId = typeof body.responseId === "string" ? body.responseId : "";
+        yield { type: body.isThinking ? "reasoning" : "token", token: body.token, responseId };
+    }
+    const modelResponse = asObject(body.modelResponse);
+    if (modelResponse) {
+        yield { type: "response", response: modelResponse as ConversationResponse };
+    }
+    const metadata = asObject(body.finalMetadata);
+    if (metadata) {
+        yield { type: "metadata", metadata };
+    }
+}
+
+/**
+ * Turn raw chat stream frames into typed events.
+ * @param frames - Parsed NDJSON/SSE frames
+ * @param url - Request URL, reported on error frames
+ */
+export async function* chatEvents(frames: AsyncIterable<JsonValue>, url: string): AsyncGenerator<ChatStreamEvent> {
+    for await (const frame of frames) {
+        yield* toChatEvents(frame, url);
+    }
+}
+
+/**
+ * Drain a chat event stream into the final reply.
+ * @param events - Events from `chat.createConversation`/`chat.sendMessage` or `chatEvents`
+ * @param conversationId - Known conversation, if replying to one
+ * @param onEvent - Sees every event as it arrives
+ */
+export async function collectChatCompletion(
+    events: AsyncIterable<ChatStreamEvent>,
+    conversationId: string | null = null,
+    onEvent?: (event: ChatStreamEvent) => void
+): Promise<ChatCompletion> {
+    const completion: ChatCompletion = { conversationId, responseId: null, message: "", reasoning: "", title: null, metadata: null };
+    for await (const event of events) {
+        onEvent?.(event);
+        switch (event.type) {
+            case "conversation":
+                completion.conversationId = event.conversation.conversationId;
+                break;
+            case "token":
+                completion.message += event.token;
+                completion.responseId = event.responseId || completion.responseId;
+                break;
+            case "reasoning":
+                completion.reasoning += event.token;
+                break;
+            case "response":
+                completion.responseId = event.response.responseId;
+                completion.message = event.response.message || completion.message;
+                break;
+            case "title":
+                completion.title = event.title;
+                break;
+            case "metadata":
+                completion.metadata = event.metadata;
+                break;
+        }
+    }
+    return completion;
+}
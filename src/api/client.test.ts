@@ -0,0 +1,159 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ApiClient } from "@api/client";
+import type { ApiConfig } from "@api/types";
+import { session } from "@utils/storage";
+import { createFakeFetch, type FakeFetch } from "@utils/testing/fakeFetch";
+import { describe, expect, test } from "bun:test";
+
+type Versioned = { path: string; version: number; };
+
+const waitFor = async (check: () => boolean, timeoutMs = 1000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!check()) {
+        if (Date.now() > deadline) {
+            throw new Error("Timed out waiting for condition");
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function createClient(api: FakeFetch, cache: ApiConfig["cache"], extra: Partial<ApiConfig> = {}): ApiClient {
+    return new ApiClient({
+        baseUrl: "https://grok.com",
+        fetchImpl: api.fetch,
+        retry: { retries: 0 },
+        csrf: { enabled: false },
+        cache,
+        ...extra,
+    });
+}
+
+/**
+ * Routes that answer with an incrementing version, so refetches are observable.
+ */
+function versionedRoutes(...paths: string[]) {
+    const versions = new Map<string, number>();
+    return Object.fromEntries(paths.map(path => [`GET ${path}`, () => {
+        const version = (versions.get(path) ?? 0) + 1;
+        versions.set(path, version);
+        return { path, version };
+    }]));
+}
+
+describe("ApiClient TTL cache", () => {
+    test("serves fresh hits without fetching or asking for the auth token", async () => {
+        const api = createFakeFetch(versionedRoutes("/rest/a"));
+        let tokenReads = 0;
+        const client = createClient(api, { ttlMs: 1000 }, {
+            auth: {
+                getToken: () => {
+                    tokenReads++;
+                    return "token";
+                },
+            },
+        });
+
+        expect(await client.request<Versioned>("GET", "/rest/a")).toEqual({ path: "/rest/a", version: 1 });
+        expect(await client.request<Versioned>("GET", "/rest/a")).toEqual({ path: "/rest/a", version: 1 });
+
+        expect(api.callsTo("/rest/a")).toHaveLength(1);
+        expect(tokenReads).toBe(1);
+    });
+
+    test("refetches once an entry expires", async () => {
+        const api = createFakeFetch(versionedRoutes("/rest/a"));
+        const client = createClient(api, { ttlMs: 20 });
+
+        await client.request<Versioned>("GET", "/rest/a");
+        await sleep(40);
+
+        expect(await client.request<Versioned>("GET", "/rest/a")).toEqual({ path: "/rest/a", version: 2 });
+        expect(api.callsTo("/rest/a")).toHaveLength(2);
+    });
+
+    test("evicts the least recently used entry when full", async () => {
+        const api = createFakeFetch(versionedRoutes("/rest/a", "/rest/b", "/rest/c"));
+        const client = createClient(api, { ttlMs: 60_000, maxEntries: 2 });
+
+        await client.request<Versioned>("GET", "/rest/a");
+        await client.request<Versioned>("GET", "/rest/b");
+        await client.request<Versioned>("GET", "/rest/a");
+        await client.request<Versioned>("GET", "/rest/c");
+
+        expect(await client.request<Versioned>("GET", "/rest/a")).toEqual({ path: "/rest/a", version: 1 });
+        expect(await client.request<Versioned>("GET", "/rest/b")).toEqual({ path: "/rest/b", version: 2 });
+        expect(api.callsTo("/rest/a")).toHaveLength(1);
+        expect(api.callsTo("/rest/b")).toHaveLength(2);
+    });
+
+    test("answers stale entries immediately and refreshes them in the background", async () => {
+        const api = createFakeFetch(versionedRoutes("/rest/a"));
+        const client = createClient(api, { staleWhileRevalidate: true });
+
+        await client.request<Versioned>("GET", "/rest/a", undefined, { ttlMs: 20 });
+        await sleep(40);
+
+        expect(await client.request<Versioned>("GET", "/rest/a", undefined, { ttlMs: 60_000 })).toEqual({ path: "/rest/a", version: 1 });
+        await waitFor(() => api.callsTo("/rest/a").length === 2);
+        await sleep(0);
+
+        expect(await client.request<Versioned>("GET", "/rest/a", undefined, { ttlMs: 60_000 })).toEqual({ path: "/rest/a", version: 2 });
+        expect(api.callsTo("/rest/a")).toHaveLength(2);
+    });
+
+    test("invalidates by tag and by path prefix", async () => {
+        const api = createFakeFetch(versionedRoutes("/rest/app-chat/conversations", "/rest/assets", "/rest/user"));
+        const client = createClient(api, { ttlMs: 60_000 });
+
+        await client.request<Versioned>("GET", "/rest/app-chat/conversations", undefined, { tags: ["conversations"] });
+        await client.request<Versioned>("GET", "/rest/assets", undefined, { query: { pageSize: 10 } });
+        await client.request<Versioned>("GET", "/rest/user");
+
+        expect(client.invalidate({ tags: ["conversations"] })).toBe(1);
+        expect(client.invalidate({ prefixes: ["/rest/assets"] })).toBe(1);
+        expect(client.invalidate({ tags: ["missing"], prefixes: ["/rest/none"] })).toBe(0);
+
+        await client.request<Versioned>("GET", "/rest/app-chat/conversations", undefined, { tags: ["conversations"] });
+        await client.request<Versioned>("GET", "/rest/assets", undefined, { query: { pageSize: 10 } });
+        await client.request<Versioned>("GET", "/rest/user");
+        expect(api.callsTo("/rest/app-chat/conversations")).toHaveLength(2);
+        expect(api.callsTo("/rest/assets")).toHaveLength(2);
+        expect(api.callsTo("/rest/user")).toHaveLength(1);
+    });
+
+    test("mutations invalidate the entries they name once they succeed", async () => {
+        const api = createFakeFetch({ ...versionedRoutes("/rest/app-chat/conversations"), "POST /rest/app-chat/share": {} });
+        const client = createClient(api, { ttlMs: 60_000 });
+
+        await client.request<Versioned>("GET", "/rest/app-chat/conversations", undefined, { tags: ["conversations"] });
+        await client.request("POST", "/rest/app-chat/share", { body: "{}" }, { invalidate: { tags: ["conversations"] } });
+
+        expect(await client.request<Versioned>("GET", "/rest/app-chat/conversations", undefined, { tags: ["conversations"] }))
+            .toEqual({ path: "/rest/app-chat/conversations", version: 2 });
+    });
+
+    test("persists entries to session storage for the next client", async () => {
+        const persistKey = "api-cache-test";
+        const api = createFakeFetch(versionedRoutes("/rest/a"));
+
+        try {
+            await createClient(api, { ttlMs: 60_000, persist: true, persistKey }).request("GET", "/rest/a");
+            const next = createClient(api, { ttlMs: 60_000, persist: true, persistKey });
+
+            expect(await next.request<Versioned>("GET", "/rest/a")).toEqual({ path: "/rest/a", version: 1 });
+            expect(api.callsTo("/rest/a")).toHaveLength(1);
+
+            next.clearCache();
+            expect(session.get<unknown[]>(persistKey)).toEqual([]);
+        } finally {
+            session.remove(persistKey);
+        }
+    });
+});
@@ -4,17 +4,21 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
+import { detectStreamFormat, parseStream } from "@api/stream";
 import {
     type ApiConfig,
     ApiError,
+    type CacheInvalidation,
     type HeadersInitLike,
     type HttpMethod,
     type JsonValue,
     type QueryParams,
     type RequestInitExt,
     type RequestOptions,
-    type RetryPolicy
+    type RetryPolicy,
+    type StreamOptions
 } from "@api/types";
+import { session } from "@utils/storage";
 
 const dfltRetry: RetryPolicy = { retries: 3, baseDelayMs: 200, maxDelayMs: 5000, retryOn: [408, 425, 429, 500, 502, 503, 504] };
 
@@ -79,10 +83,11 @@ const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
 const jitter = (n: number) => Math.floor(n * (0.5 + Math.random() * 0.5));
 
 type ETagEntry = { etag: string; body: unknown; };
+type TtlEntry = { body: unknown; expiresAt: number; path: string; tags: ReadonlyArray<string>; };
 type InflightEntry<T> = Promise<T>;
 
 /**
- * Strongly-typed HTTP client with retries, optional ETag cache, timeouts and CSRF support.
+ * Strongly-typed HTTP client with retries, optional ETag and TTL caches, timeouts, CSRF and bearer auth support.
  */
 export class ApiClient {
     readonly baseUrl: string;
@@ -94,12 +99,16 @@ export class ApiClient {
     readonly fetchImpl: typeof fetch;
     readonly retry: RetryPolicy;
     readonly defaultTimeoutMs: number;
+    readonly auth: { headerName: string; scheme: string; getToken: () => Promise<string | null>; } | null;
 
     private readonly etagCache: Map<string, ETagEntry>;
-    private readonly ttlCache: Map<string, { body: unknown; expiresAt: number; }>;
+    private readonly ttlCache: Map<string, TtlEntry>;
     private readonly inflight: Map<string, InflightEntry<unknown>>;
     private readonly cacheEtag: boolean;
     private readonly cacheMax: number;
+    private readonly cacheTtlMs: number;
+    private readonly cacheSwr: boolean;
+    private readonly persistKey: string | null;
 
     constructor(cfg: ApiConfig) {
         this.baseUrl = cfg.baseUrl.replace(/\/$/, "");
@@ -109,14 +118,21 @@ export class ApiClient {
         this.csrfHeaderName = cfg.csrf?.headerName ?? "X-CSRF-Token";
         const csrfProv = cfg.csrf?.getToken ?? defaultDomCsrfProvider;
         this.csrfProvider = async () => Promise.resolve(csrfProv());
-        const baseFetch = cfg.fetchImpl ?? globalThis.fetch;
-        this.fetchImpl = ((input: RequestInfo | URL, init?: RequestInit) => baseFetch(input, init)) as typeof fetch;
+        const baseFetch = cfg.fetchImpl;
+        this.fetchImpl = ((input: RequestInfo | URL, init?: RequestInit) => (baseFetch ?? globalThis.fetch)(input, init)) as typeof fetch;
         this.retry = { ...dfltRetry, ...(cfg.retry ?? {}) };
         this.defaultTimeoutMs = Math.max(0, cfg.timeoutMs ?? 0);
         this.cacheEtag = !!cfg.cache?.etag;
         this.cacheMax = Math.max(0, cfg.cache?.maxEntries ?? 200);
+        this.cacheTtlMs = Math.max(0, cfg.cache?.ttlMs ?? 0);
+        this.cacheSwr = !!cfg.cache?.staleWhileRevalidate;
+        this.persistKey = cfg.cache?.persist ? cfg.cache.persistKey ?? "api-cache" : null;
+        const tokenProv = cfg.auth?.getToken;
+        this.auth = tokenProv && (cfg.auth?.enabled ?? true)
+            ? { headerName: cfg.auth?.headerName ?? "Authorization", scheme: cfg.auth?.scheme ?? "Bearer", getToken: async () => Promise.resolve(tokenProv()) }
+            : null;
         this.etagCache = new Map();
-        this.ttlCache = new Map();
+        this.ttlCache = new Map(this.persistKey ? session.get<Array<[string, TtlEntry]>>(this.persistKey) ?? [] : []);
         this.inflight = new Map();
     }
 
@@ -165,6 +181,92 @@ export class ApiClient {
         this.etagCache.set(key, { etag, body });
     }
 
+    private readTtl(key: string): TtlEntry | undefined {
+        const entry = this.ttlCache.get(key);
+        if (entry) {
+            // Re-insert so eviction drops the least recently used entry
+            this.ttlCache.delete(key);
+            this.ttlCache.set(key, entry);
+        }
+        return entry;
+    }
+
+    private writeTtl(key: string, entry: TtlEntry): void {
+        this.ttlCache.delete(key);
+        while (this.ttlCache.size >= this.cacheMax) {
+            const first = this.ttlCache.keys().next().value as string | undefined;
+            if (first === undefined) {
+                break;
+            }
+            this.ttlCache.delete(first);
+        }
+        this.ttlCache.set(key, entry);
+        this.persistTtl();
+    }
+
+    private persistTtl(): void {
+        if (this.persistKey) {
+            session.set(this.persistKey, [...this.ttlCache]);
+        }
+    }
+
+    /**
+     * Drop cached GET responses by path prefix or tag.
+     * @returns Number of entries removed
+     */
+    invalidate(target: CacheInvalidation): number {
+        const prefixes = target.prefixes ?? [];
+        const tags = new Set(target.tags ?? []);
+        let removed = 0;
+        for (const [key, entry] of this.ttlCache) {
+            if (prefixes.some(prefix => entry.path.startsWith(prefix)) || entry.tags.some(tag => tags.has(tag))) {
+                this.ttlCache.delete(key);
+                removed++;
+            }
+        }
+        if (removed > 0) {
+            this.persistTtl();
+        }
+        return removed;
+    }
+
+    /**
+     * Drop every cached response.
+     */
+    clearCache(): void {
+        this.ttlCache.clear();
+        this.etagCache.clear();
+        this.persistTtl();
+    }
+
+    private async buildHeaders(method: HttpMethod, init?: RequestInitExt, opts?: RequestOptions): Promise<HeadersInitLike> {
+        const headers: HeadersInitLike = { ...this.defaultHeaders, ...(init?.headers ?? {}), ...(opts?.headers ?? {}) };
+        if (this.csrfEnabled && method !== "GET" && method !== "HEAD") {
+            const token = await this.csrfProvider();
+            if (token) {
+                headers[this.csrfHeaderName] = token;
+            }
+        }
+        if (this.auth) {
+            const token = await this.auth.getToken();
+            if (token) {
+                headers[this.auth.headerName] = this.auth.scheme ? `${this.auth.scheme} ${token}` : token;
+            }
+        }
+        return headers;
+    }
+
+    private async toApiError(res: Response, method: HttpMethod, url: string): Promise<ApiError<JsonValue>> {
+        let body: JsonValue | null = null;
+        try {
+            body = isJsonContent(res.headers) ? ((await res.json()) as JsonValue) : ((await res.text()) as JsonValue);
+        } catch {
+            body = null;
+        }
+        const msg = hasMessage(body) ? body.message : res.statusText || "Request failed";
+        return new ApiError<JsonValue>({ status: res.status, method, url, message: msg, body, headers: toRecord(res.headers) });
+    }
+
     /**
      * Execute an HTTP request and parse the response as JSON/text accordingly.
      * @param method - HTTP method
@@ -177,35 +279,24 @@ export class ApiClient {
         const signal = opts?.signal ?? init?.signal;
         const url = this.url(path, opts?.query);
         const cacheKey = opts?.cacheKey ?? this.cacheKey(method, url, init?.body);
-        const headers: HeadersInitLike = { ...this.defaultHeaders, ...(init?.headers ?? {}), ...(opts?.headers ?? {}) };
-        if (this.csrfEnabled && method !== "GET" && method !== "HEAD") {
-            const token = await this.csrfProvider();
-            if (token) {
-                headers[this.csrfHeaderName] = token;
-            }
-        }
         const useEtag = this.cacheEtag && method === "GET";
-        const useTtl = method === "GET" && this.cacheMax > 0 && typeof globalThis !== "undefined";
+        const ttlMs = Math.max(0, opts?.ttlMs ?? this.cacheTtlMs);
+        const useTtl = method === "GET" && ttlMs > 0 && this.cacheMax > 0;
         const cached = useEtag ? this.etagCache.get(cacheKey) : undefined;
 
         if (useTtl && !opts?.bypassTtl) {
-            const ttlMs = (this as unknown as { cache?: { ttlMs?: number; staleWhileRevalidate?: boolean; }; }).cache?.ttlMs ?? 0;
-            const swr = (this as unknown as { cache?: { ttlMs?: number; staleWhileRevalidate?: boolean; }; }).cache?.staleWhileRevalidate ?? false;
-            const entry = this.ttlCache.get(cacheKey);
-            const now = Date.now();
-            if (ttlMs > 0 && entry) {
-                if (entry.expiresAt > now) {
-                    return entry.body as T;
-                }
-                if (swr) {
-                    this.executeWithRetry(() => attemptRequest().then(res => {
-                        this.ttlCache.set(cacheKey, { body: res, expiresAt: now + ttlMs });
-                        return res;
-                    })).catch(() => void 0);
-                    return entry.body as T;
-                }
+            const entry = this.readTtl(cacheKey);
+            if (entry && entry.expiresAt > Date.now()) {
+                return entry.body as T;
+            }
+            if (entry && (opts?.staleWhileRevalidate ?? this.cacheSwr)) {
+                // The refresh outlives the caller, so it must not share their abort signal
+                this.request<T>(method, path, init, { ...opts, signal: undefined, bypassTtl: true }).catch(() => void 0);
+                return entry.body as T;
             }
         }
+        // Only after a cache miss, so fresh hits never wait on the auth token
+        const headers = await this.buildHeaders(method, init, opts);
         if (useEtag && cached?.etag) {
             headers["If-None-Match"] = cached.etag;
         }
@@ -223,14 +314,7 @@ export class ApiClient {
                 if (this.retry.retryOn.includes(res.status)) {
                     throw res;
                 }
-                let body: JsonValue | null = null;
-                try {
-                    body = isJsonContent(res.headers) ? ((await res.json()) as JsonValue) : ((await res.text()) as JsonValue);
-                } catch {
-                    body = null;
-                }
-                const msg = hasMessage(body) ? body.message : res.statusText || "Request failed";
-                throw new ApiError<JsonValue>({ status: res.status, method, url, message: msg, body, headers: toRecord(res.headers) });
+                throw await this.toApiError(res, method, url);
             }
 
             if (res.status === 304 && cached) {
@@ -254,10 +338,8 @@ export class ApiClient {
             if (useEtag && et) {
                 this.touchCache(cacheKey, et, data);
             }
-
-            const ttlMs = (this as unknown as { cache?: { ttlMs?: number; staleWhileRevalidate?: boolean; }; }).cache?.ttlMs ?? 0;
-            if (method === "GET" && ttlMs > 0) {
-                this.ttlCache.set(cacheKey, { body: data, expiresAt: Date.now() + ttlMs });
+            if (useTtl) {
+                this.writeTtl(cacheKey, { body: data, expiresAt: Date.now() + ttlMs, path: path.split("?")[0] ?? path, tags: opts?.tags ?? [] });
             }
             return data;
         };
@@ -293,6 +375,9 @@ export class ApiClient {
 
         try {
             const out = await exec;
+            if (method !== "GET" && opts?.invalidate) {
+                this.invalidate(opts.invalidate);
+            }
             return out;
         } finally {
             if (inflightKey) {
@@ -301,6 +386,45 @@ export class ApiClient {
         }
     }
 
+    /**
+     * Execute an HTTP request and iterate its body as parsed NDJSON/SSE frames.
+     * Only opening the stream is retried. Frames are read as they are consumed, and leaving the loop early cancels the body.
+     * @param method - HTTP method
+     * @param path - Path relative to baseUrl (or absolute)
+     * @param init - Additional RequestInit
+     * @param opts - Per-request options
+     * @returns Async iterator over parsed frames
+     */
+    async *stream<T = JsonValue>(method: HttpMethod, path: string, init?: RequestInitExt, opts?: StreamOptions): AsyncGenerator<T> {
+        const signal = opts?.signal ?? init?.signal ?? undefined;
+        const url = this.url(path, opts?.query);
+        const headers = await this.buildHeaders(method, init, opts);
+
+        let res: Response;
+        try {
+            res = await this.executeWithRetry(async () => {
+                const r = await this.fetchImpl(url, {
+                    method,
+                    signal,
+                    credentials: this.includeCredentials ? "include" : "same-origin",
+                    headers,
+                    body: init?.body
+                });
+                if (!r.ok) {
+                    throw this.retry.retryOn.includes(r.status) ? r : await this.toApiError(r, method, url);
+                }
+                return r;
+            });
+        } catch (err) {
+            throw err instanceof Response ? await this.toApiError(err, method, url) : err;
+        }
+
+        if (!res.body) {
+            return;
+        }
+        yield* parseStream<T>(res.body, opts?.format ?? detectStreamFormat(res.headers.get("content-type")), signal);
+    }
+
     private async executeWithRetry<T>(fn: () => Promise<T>): Promise<T> {
         let attempt = 0;
         let delay = this.retry.baseDelayMs;
@@ -341,6 +465,11 @@ export class ApiClient {
         return this.request<T>("DELETE", path, undefined, opts);
     }
 
+    postStream<T = JsonValue>(path: string, body?: unknown, opts?: StreamOptions): AsyncGenerator<T> {
+        const init: RequestInitExt = { headers: { "content-type": "application/json" }, body: body === undefined ? undefined : JSON.stringify(body) };
+        return this.stream<T>("POST", path, init, opts);
+    }
+
     static fromWindow(cfg?: Partial<Omit<ApiConfig, "baseUrl">> & { basePath?: string; }): ApiClient {
         const origin = typeof window !== "undefined" && window.location ? window.location.origin : "";
         const basePath = cfg?.basePath ?? "";
@@ -350,9 +479,11 @@ export class ApiClient {
             defaultHeaders: cfg?.defaultHeaders,
             includeCredentials: cfg?.includeCredentials ?? true,
             csrf: cfg?.csrf ?? { enabled: true, getToken: defaultDomCsrfProvider },
+            auth: cfg?.auth,
             cache: cfg?.cache,
             retry: cfg?.retry,
-            fetchImpl: cfg?.fetchImpl
+            fetchImpl: cfg?.fetchImpl,
+            timeoutMs: cfg?.timeoutMs
         });
     }
 }
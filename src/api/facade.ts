@@ -4,10 +4,11 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
+import { collectChatCompletion } from "@api/chat";
 import { ApiClient } from "@api/client";
 import { isActiveSubscription, normalizeTier, Tier } from "@api/enums";
 import { type ApiServices, createApiServices } from "@api/services";
-import type { ListAssetsRequest, ListAssetsResponse, RateLimitData, RateLimitRequest, SubscriptionsResponse, UserPlanSummary, UserProfile } from "@api/types";
+import type { AssetMetadata, ChatCompletion, ChatStreamEvent, Conversation, ConversationResponse, ListAssetsRequest, ListConversationsRequest, ListWorkspacesRequest, RateLimitData, RateLimitRequest, SubscriptionsResponse, UserPlanSummary, UserProfile, Workspace } from "@api/types";
 
 /**
  * High-level API facade for plugins.
@@ -68,15 +69,74 @@ export class GrokApi {
         }
     }
 
-    async listAllAssets(query: ListAssetsRequest = {}, signal?: AbortSignal): Promise<ReadonlyArray<ListAssetsResponse["assets"][number]>> {
-        const collected: Array<ListAssetsResponse["assets"][number]> = [];
-        let pageToken: string | undefined = undefined;
-        do {
-            const res: ListAssetsResponse = await this.services.assets.list({ ...query, pageToken }, signal);
-            collected.push(...res.assets);
-            pageToken = res.nextPageToken ?? undefined;
-        } while (pageToken && !(signal?.aborted ?? false));
-        return collected;
+    async listAllAssets(query: ListAssetsRequest = {}, signal?: AbortSignal): Promise<ReadonlyArray<AssetMetadata>> {
+        return collectPages(pageToken => this.services.assets.list({ ...query, pageToken }, signal), res => res.assets, signal);
+    }
+
+    async listAllConversations(query: ListConversationsRequest = {}, signal?: AbortSignal): Promise<ReadonlyArray<Conversation>> {
+        return collectPages(pageToken => this.services.conversations.list({ ...query, pageToken }, signal), res => res.conversations, signal);
+    }
+
+    async getConversationWithResponses(conversationId: string, signal?: AbortSignal): Promise<{ conversation: Conversation; responses: ReadonlyArray<ConversationResponse>; }> {
+        const [conversation, { responses }] = await Promise.all([
+            this.services.conversations.get({ conversationId }, signal),
+            this.services.conversations.getResponses({ conversationId }, { includeThreads: true }, signal),
+        ]);
+        return { conversation, responses };
+    }
+
+    /**
+     * Send a prompt and wait for the full reply, starting a new conversation unless `conversationId` is given.
+     * `onEvent` sees every streamed event as it arrives.
+     */
+    async ask(
+        message: string,
+        options: { conversationId?: string; modelName?: string; temporary?: boolean; onEvent?: (event: ChatStreamEvent) => void; } = {},
+        signal?: AbortSignal
+    ): Promise<ChatCompletion> {
+        const { conversationId, modelName, temporary, onEvent } = options;
+        const events = conversationId
+            ? this.services.chat.sendMessage({ conversationId }, { message, modelName }, signal)
+            : this.services.chat.createConversation({ message, modelName, temporary }, signal);
+        return collectChatCompletion(events, conversationId ?? null, onEvent);
+    }
+
+    async listAllWorkspaces(query: ListWorkspacesRequest = {}, signal?: AbortSignal): Promise<ReadonlyArray<Workspace>> {
+        return collectPages(pageToken => this.services.workspaces.list({ ...query, pageToken }, signal), res => res.workspaces, signal);
+    }
+
+    async listAllWorkspaceConversations(workspaceId: string, signal?: AbortSignal): Promise<ReadonlyArray<Conversation>> {
+        return collectPages(pageToken => this.services.workspaces.listConversations({ workspaceId }, { pageToken }, signal), res => res.conversations, signal);
+    }
+
+    async listAllWorkspaceFiles(workspaceId: string, signal?: AbortSignal): Promise<ReadonlyArray<AssetMetadata>> {
+        return collectPages(pageToken => this.services.workspaces.listFiles({ workspaceId }, { pageToken }, signal), res => res.assets, signal);
+    }
+
+    async getWorkspaceInstructions(workspaceId: string, signal?: AbortSignal): Promise<string> {
+        const workspace = await this.services.workspaces.get({ workspaceId }, signal);
+        return workspace.customPersonality ?? "";
+    }
+
+    /**
+     * Move a conversation into a project, removing it from `fromWorkspaceId` when given.
+     * If the removal fails the conversation is taken back out of the target so it never ends up in both.
+     */
+    async moveConversationToWorkspace(conversationId: string, toWorkspaceId: string, fromWorkspaceId: string | null = null, signal?: AbortSignal): Promise<void> {
+        if (fromWorkspaceId === toWorkspaceId) {
+            return;
+        }
+        const { workspaces } = this.services;
+        await workspaces.addConversation({ workspaceId: toWorkspaceId }, { conversationId }, signal);
+        if (!fromWorkspaceId) {
+            return;
+        }
+        try {
+            await workspaces.removeConversation({ workspaceId: fromWorkspaceId, conversationId }, signal);
+        } catch (err) {
+            await workspaces.removeConversation({ workspaceId: toWorkspaceId, conversationId }).catch(() => undefined);
+            throw err;
+        }
     }
 
     /**
@@ -107,6 +167,24 @@ export class GrokApi {
  */
 export const grokApi = GrokApi.shared;
 
+/**
+ * Follow `nextPageToken` until the listing is exhausted or the signal aborts.
+ */
+async function collectPages<R extends { nextPageToken?: string | null; }, T>(
+    fetchPage: (pageToken: string | undefined) => Promise<R>,
+    items: (res: R) => ReadonlyArray<T>,
+    signal?: AbortSignal
+): Promise<ReadonlyArray<T>> {
+    const collected: T[] = [];
+    let pageToken: string | undefined = undefined;
+    do {
+        const res: R = await fetchPage(pageToken);
+        collected.push(...items(res));
+        pageToken = res.nextPageToken ?? undefined;
+    } while (pageToken && !(signal?.aborted ?? false));
+    return collected;
+}
+
 type SubscriptionLike = { tier?: unknown; status?: unknown; enterprise?: boolean | null; };
 
 function normalizeSubsForPlan(raw: unknown): ReadonlyArray<SubscriptionLike> {
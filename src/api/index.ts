@@ -5,4 +5,5 @@
  */
 
 export { grokApi } from "./facade";
-export type { RateLimitData } from "./types";
+export { CacheTags } from "./services";
+export type { AssetMetadata, ChatCompletion, ChatStreamEvent, Conversation, ConversationResponse, RateLimitData, Workspace } from "./types";
@@ -4,22 +4,63 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
+import { chatEvents } from "@api/chat";
 import type { ApiClient } from "@api/client";
 import {
+    type ChatStreamEvent,
+    type Conversation,
+    type ConversationIdParam,
+    type CreateShareLinkRequest,
+    type CreateWorkspaceRequest,
+    type JsonValue,
     type ListAssetsRequest,
     type ListAssetsResponse,
+    type ListConversationResponsesRequest,
+    type ListConversationResponsesResponse,
+    type ListConversationsRequest,
+    type ListConversationsResponse,
+    type ListWorkspaceItemsRequest,
+    type ListWorkspacesRequest,
+    type ListWorkspacesResponse,
+    type NewConversationRequest,
     type RateLimitData,
     type RateLimitRequest,
     type RateLimitsPostRequest,
+    type RequestOptions,
+    type SendMessageRequest,
+    type ShareLink,
+    type ShareLinkIdParam,
     type SubscriptionsQuery,
     type SubscriptionsResponse,
+    type UpdateConversationRequest,
+    type UpdateWorkspaceRequest,
     type UserProfile,
+    type Workspace,
+    type WorkspaceAssetParam,
+    type WorkspaceAssetsAttachRequest,
     type WorkspaceConversationAddRequest,
+    type WorkspaceConversationParam,
     type WorkspaceIdParam
 } from "@api/types";
 
+export { chatEvents, collectChatCompletion } from "@api/chat";
+
 export type ApiServices = ReturnType<typeof createApiServices>;
 
+/**
+ * Tags the services put on cached listings; mutations invalidate the matching tag.
+ */
+export const CacheTags = {
+    Assets: "assets",
+    Conversations: "conversations",
+    Workspaces: "workspaces"
+} as const;
+
+type CacheHints = Pick<RequestOptions, "tags" | "invalidate">;
+
+const tagged = (...tags: string[]): CacheHints => ({ tags });
+const invalidates = (...tags: string[]): CacheHints => ({ invalidate: { tags } });
+
 /**
  * Bundle of typed endpoint groups built on top of ApiClient.
  * @param client - ApiClient instance
@@ -44,16 +85,16 @@ export const createApiServices = (client: ApiClient) => {
         return out;
     };
     const req = {
-        get: <R>(path: string, signal?: AbortSignal, query?: ReturnType<typeof qp>) =>
-            client.get<R>(path, { signal, query }),
-        post: <R, B>(path: string, body: B, signal?: AbortSignal, query?: ReturnType<typeof qp>) =>
-            client.post<R>(path, body, { signal, query }),
-        put: <R, B>(path: string, body: B, signal?: AbortSignal, query?: ReturnType<typeof qp>) =>
-            client.put<R>(path, body, { signal, query }),
-        patch: <R, B>(path: string, body: B, signal?: AbortSignal, query?: ReturnType<typeof qp>) =>
-            client.patch<R>(path, body, { signal, query }),
-        del: <R>(path: string, signal?: AbortSignal, query?: ReturnType<typeof qp>) =>
-            client.delete<R>(path, { signal, query }),
+        get: <R>(path: string, signal?: AbortSignal, query?: ReturnType<typeof qp>, cache?: CacheHints) =>
+            client.get<R>(path, { signal, query, ...cache }),
+        post: <R, B>(path: string, body: B, signal?: AbortSignal, query?: ReturnType<typeof qp>, cache?: CacheHints) =>
+            client.post<R>(path, body, { signal, query, ...cache }),
+        put: <R, B>(path: string, body: B, signal?: AbortSignal, query?: ReturnType<typeof qp>, cache?: CacheHints) =>
+            client.put<R>(path, body, { signal, query, ...cache }),
+        patch: <R, B>(path: string, body: B, signal?: AbortSignal, query?: ReturnType<typeof qp>, cache?: CacheHints) =>
+            client.patch<R>(path, body, { signal, query, ...cache }),
+        del: <R>(path: string, signal?: AbortSignal, query?: ReturnType<typeof qp>, cache?: CacheHints) =>
+            client.delete<R>(path, { signal, query, ...cache }),
     } as const;
 
     const auth = {
@@ -82,13 +123,91 @@ export const createApiServices = (client: ApiClient) => {
                 workspaceId: q.workspaceId,
                 source: q.source,
                 isLatest: q.isLatest
-            })),
-        delete: (p: { assetId: string; }, signal?: AbortSignal) => client.delete<unknown>(`/rest/assets/${encodeURIComponent(p.assetId)}`, { signal })
+            }), tagged(CacheTags.Assets)),
+        delete: (p: { assetId: string; }, signal?: AbortSignal) =>
+            client.delete<unknown>(`/rest/assets/${encodeURIComponent(p.assetId)}`, { signal, ...invalidates(CacheTags.Assets) })
+    } as const;
+
+    const conversationPath = (p: ConversationIdParam) => `/rest/app-chat/conversations/${enc(p.conversationId)}`;
+    const updateConversation = (p: ConversationIdParam, body: UpdateConversationRequest, signal?: AbortSignal) =>
+        req.put<Conversation, UpdateConversationRequest>(conversationPath(p), body, signal, undefined, invalidates(CacheTags.Conversations));
+
+    const conversations = {
+        list: (q: ListConversationsRequest = {}, signal?: AbortSignal) =>
+            req.get<ListConversationsResponse>(q.query ? "/rest/app-chat/conversations/search" : "/rest/app-chat/conversations", signal, qp({
+                query: q.query,
+                pageSize: q.pageSize,
+                pageToken: q.pageToken,
+                workspaceId: q.workspaceId,
+                filterIsStarred: q.filterIsStarred
+            }), tagged(CacheTags.Conversations)),
+        get: (p: ConversationIdParam, signal?: AbortSignal) =>
+            req.get<Conversation>(conversationPath(p), signal, undefined, tagged(CacheTags.Conversations)),
+        getResponses: (p: ConversationIdParam, q: ListConversationResponsesRequest = {}, signal?: AbortSignal) =>
+            req.get<ListConversationResponsesResponse>(`${conversationPath(p)}/responses`, signal, qp({ includeThreads: q.includeThreads }), tagged(CacheTags.Conversations)),
+        update: updateConversation,
+        rename: (p: ConversationIdParam, title: string, signal?: AbortSignal) => updateConversation(p, { title }, signal),
+        pin: (p: ConversationIdParam, signal?: AbortSignal) => updateConversation(p, { pinned: true }, signal),
+        unpin: (p: ConversationIdParam, signal?: AbortSignal) => updateConversation(p, { pinned: false }, signal),
+        star: (p: ConversationIdParam, starred = true, signal?: AbortSignal) => updateConversation(p, { starred }, signal),
+        delete: (p: ConversationIdParam, signal?: AbortSignal) =>
+            req.del<unknown>(conversationPath(p), signal, undefined, invalidates(CacheTags.Conversations)),
+        createShareLink: (p: ConversationIdParam, body: CreateShareLinkRequest = {}, signal?: AbortSignal) =>
+            req.post<ShareLink, CreateShareLinkRequest>(`${conversationPath(p)}/share`, body, signal, undefined, invalidates(CacheTags.Conversations)),
+        revokeShareLink: (p: ShareLinkIdParam, signal?: AbortSignal) =>
+            req.del<unknown>(`/rest/app-chat/share_links/${enc(p.shareLinkId)}`, signal, undefined, invalidates(CacheTags.Conversations))
+    } as const;
+
+    async function* streamChat(path: string, body: NewConversationRequest | SendMessageRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+        try {
+            yield* chatEvents(client.postStream<JsonValue>(path, body, { signal }), path);
+        } finally {
+            // A sent message changes conversation listings even if the reply is cut short
+            client.invalidate({ tags: [CacheTags.Conversations] });
+        }
+    }
+
+    const chat = {
+        /** Start a conversation and stream the first reply */
+        createConversation: (body: NewConversationRequest, signal?: AbortSignal) =>
+            streamChat("/rest/app-chat/conversations/new", body, signal),
+        /** Send a message to an existing conversation and stream the reply */
+        sendMessage: (p: ConversationIdParam, body: SendMessageRequest, signal?: AbortSignal) =>
+            streamChat(`${conversationPath(p)}/responses`, body, signal)
     } as const;
 
+    const workspacePath = (p: WorkspaceIdParam) => `/rest/workspaces/${enc(p.workspaceId)}`;
+    const updateWorkspace = (p: WorkspaceIdParam, body: UpdateWorkspaceRequest, signal?: AbortSignal) =>
+        req.patch<Workspace, UpdateWorkspaceRequest>(workspacePath(p), body, signal, undefined, invalidates(CacheTags.Workspaces));
+
     const workspaces = {
+        list: (q: ListWorkspacesRequest = {}, signal?: AbortSignal) =>
+            req.get<ListWorkspacesResponse>("/rest/workspaces", signal, qp({
+                pageSize: q.pageSize,
+                pageToken: q.pageToken,
+                orderBy: q.orderBy
+            }), tagged(CacheTags.Workspaces)),
+        get: (p: WorkspaceIdParam, signal?: AbortSignal) => req.get<Workspace>(workspacePath(p), signal, undefined, tagged(CacheTags.Workspaces)),
+        create: (body: CreateWorkspaceRequest, signal?: AbortSignal) =>
+            req.post<Workspace, CreateWorkspaceRequest>("/rest/workspaces", body, signal, undefined, invalidates(CacheTags.Workspaces)),
+        update: updateWorkspace,
+        rename: (p: WorkspaceIdParam, name: string, signal?: AbortSignal) => updateWorkspace(p, { name }, signal),
+        setCustomInstructions: (p: WorkspaceIdParam, instructions: string, signal?: AbortSignal) =>
+            updateWorkspace(p, { customPersonality: instructions }, signal),
+        delete: (p: WorkspaceIdParam, signal?: AbortSignal) =>
+            req.del<unknown>(workspacePath(p), signal, undefined, invalidates(CacheTags.Workspaces, CacheTags.Conversations)),
+        listConversations: (p: WorkspaceIdParam, q: ListWorkspaceItemsRequest = {}, signal?: AbortSignal) =>
+            req.get<ListConversationsResponse>(`${workspacePath(p)}/conversations`, signal, qp({ pageSize: q.pageSize, pageToken: q.pageToken }), tagged(CacheTags.Conversations)),
         addConversation: (p: WorkspaceIdParam, body: WorkspaceConversationAddRequest, signal?: AbortSignal) =>
-            client.post<unknown>(`/rest/workspaces/${enc(p.workspaceId)}/conversations`, body, { signal })
+            client.post<unknown>(`${workspacePath(p)}/conversations`, body, { signal, ...invalidates(CacheTags.Conversations) }),
+        removeConversation: (p: WorkspaceConversationParam, signal?: AbortSignal) =>
+            req.del<unknown>(`${workspacePath(p)}/conversations/${enc(p.conversationId)}`, signal, undefined, invalidates(CacheTags.Conversations)),
+        listFiles: (p: WorkspaceIdParam, q: ListWorkspaceItemsRequest = {}, signal?: AbortSignal) =>
+            req.get<ListAssetsResponse>(`${workspacePath(p)}/assets`, signal, qp({ pageSize: q.pageSize, pageToken: q.pageToken }), tagged(CacheTags.Assets)),
+        attachFiles: (p: WorkspaceIdParam, body: WorkspaceAssetsAttachRequest, signal?: AbortSignal) =>
+            req.post<unknown, WorkspaceAssetsAttachRequest>(`${workspacePath(p)}/assets`, body, signal, undefined, invalidates(CacheTags.Assets)),
+        detachFile: (p: WorkspaceAssetParam, signal?: AbortSignal) =>
+            req.del<unknown>(`${workspacePath(p)}/assets/${enc(p.assetId)}`, signal, undefined, invalidates(CacheTags.Assets))
     } as const;
 
     return {
@@ -96,6 +215,8 @@ export const createApiServices = (client: ApiClient) => {
         subscriptions,
         rateLimits,
         assets,
+        conversations,
+        chat,
         workspaces
     } as const;
 };
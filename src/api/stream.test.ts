@@ -0,0 +1,137 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { detectStreamFormat, parseNdjson, parseSse, parseStream } from "@api/stream";
+import { describe, expect, test } from "bun:test";
+
+/**
+ * A body that hands out one chunk per read and records whether the consumer cancelled it.
+ */
+function createBody(chunks: Array<string | Uint8Array>) {
+    const encoder = new TextEncoder();
+    const state = { reads: 0, cancelled: false };
+    const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+            const chunk = chunks[state.reads++];
+            if (chunk === undefined) {
+                controller.close();
+                return;
+            }
+            controller.enqueue(typeof chunk === "string" ? encoder.encode(chunk) : chunk);
+        },
+        cancel() {
+            state.cancelled = true;
+        },
+    }, { highWaterMark: 0 });
+    return { body, state };
+}
+
+async function collect<T>(frames: AsyncIterable<T>): Promise<T[]> {
+    const out: T[] = [];
+    for await (const frame of frames) {
+        out.push(frame);
+    }
+    return out;
+}
+
+describe("detectStreamFormat", () => {
+    test("treats event-stream responses as SSE and everything else as NDJSON", () => {
+        expect(detectStreamFormat("text/event-stream; charset=utf-8")).toBe("sse");
+        expect(detectStreamFormat("application/json")).toBe("ndjson");
+        expect(detectStreamFormat(null)).toBe("ndjson");
+    });
+});
+
+describe("parseNdjson", () => {
+    test("reassembles lines split across chunks and skips blank lines", async () => {
+        const { body } = createBody(["{\"a\":", "1}\n\n{\"b\"", ":2}\n"]);
+
+        expect(await collect(parseNdjson(body))).toEqual([{ a: 1 }, { b: 2 }]);
+    });
+
+    test("handles CRLF line endings and a trailing line without a newline", async () => {
+        const { body } = createBody(["{\"a\":1}\r\n{\"b\":2}\r", "\n{\"c\":3}"]);
+
+        expect(await collect(parseNdjson(body))).toEqual([{ a: 1 }, { b: 2 }, { c: 3 }]);
+    });
+
+    test("decodes multi-byte characters split between chunks", async () => {
+        const bytes = new TextEncoder().encode("{\"t\":\"é\"}\n");
+        const { body } = createBody([bytes.slice(0, 7), bytes.slice(7)]);
+
+        expect(await collect(parseNdjson(body))).toEqual([{ t: "é" }]);
+    });
+
+    test("cancels the reader when the consumer breaks early", async () => {
+        const { body, state } = createBody(["{\"n\":1}\n", "{\"n\":2}\n", "{\"n\":3}\n"]);
+
+        for await (const frame of parseNdjson<{ n: number; }>(body)) {
+            expect(frame).toEqual({ n: 1 });
+            break;
+        }
+
+        expect(state.cancelled).toBe(true);
+        expect(state.reads).toBe(1);
+    });
+
+    test("stops reading once the signal aborts", async () => {
+        const { body, state } = createBody(["{\"n\":1}\n", "{\"n\":2}\n"]);
+        const controller = new AbortController();
+        const frames: unknown[] = [];
+
+        const run = (async () => {
+            for await (const frame of parseNdjson(body, controller.signal)) {
+                frames.push(frame);
+                controller.abort();
+            }
+        })();
+
+        await expect(run).rejects.toThrow();
+        expect(frames).toEqual([{ n: 1 }]);
+        expect(state.cancelled).toBe(true);
+    });
+});
+
+describe("parseSse", () => {
+    test("joins multi-line data fields and ignores comments and other fields", async () => {
+        const { body } = createBody([
+            ": keep-alive\n",
+            "event: token\nid: 1\ndata: {\"a\":\n",
+            "data: 1}\n\n",
+        ]);
+
+        expect(await collect(parseSse(body))).toEqual([{ a: 1 }]);
+    });
+
+    test("reassembles events split across chunks with CRLF endings", async () => {
+        const { body } = createBody(["da", "ta: {\"a\":1}\r", "\n\r\ndata:{\"b\":2}\r\n\r\n"]);
+
+        expect(await collect(parseSse(body))).toEqual([{ a: 1 }, { b: 2 }]);
+    });
+
+    test("skips the [DONE] sentinel", async () => {
+        const { body } = createBody(["data: {\"a\":1}\n\n", "data: [DONE]\n\n"]);
+
+        expect(await collect(parseSse(body))).toEqual([{ a: 1 }]);
+    });
+
+    test("flushes a final event without a trailing newline", async () => {
+        const { body } = createBody(["data: {\"a\":1}\n\ndata: {\"b\":2}"]);
+
+        expect(await collect(parseSse(body))).toEqual([{ a: 1 }, { b: 2 }]);
+    });
+
+    test("cancels the reader when the consumer breaks early", async () => {
+        const { body, state } = createBody(["data: {\"n\":1}\n\n", "data: {\"n\":2}\n\n"]);
+
+        for await (const frame of parseStream<{ n: number; }>(body, "sse")) {
+            expect(frame).toEqual({ n: 1 });
+            break;
+        }
+
+        expect(state.cancelled).toBe(true);
+    });
+});
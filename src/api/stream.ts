@@ -0,0 +1,98 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { StreamFormat } from "@api/types";
+
+/**
+ * Pick the frame format from a response content-type; grok.com streams NDJSON unless it says otherwise.
+ */
+export const detectStreamFormat = (contentType: string | null): StreamFormat =>
+    contentType && /text\/event-stream/i.test(contentType) ? "sse" : "ndjson";
+
+/**
+ * Yield decoded text chunks one read at a time, so the producer only advances when the consumer pulls.
+ * The reader is cancelled when iteration stops early or throws.
+ */
+async function* readChunks(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    try {
+        for (; ;) {
+            signal?.throwIfAborted();
+            const { done, value } = await reader.read();
+            if (done) {
+                const rest = decoder.decode();
+                if (rest) {
+                    yield rest;
+                }
+                return;
+            }
+            yield decoder.decode(value, { stream: true });
+        }
+    } finally {
+        await reader.cancel().catch(() => void 0);
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Split a chunk stream on newlines, keeping a partial trailing line buffered until it completes.
+ */
+async function* readLines(chunks: AsyncIterable<string>): AsyncGenerator<string> {
+    let buffer = "";
+    for await (const chunk of chunks) {
+        buffer += chunk;
+        let nl = buffer.indexOf("\n");
+        while (nl !== -1) {
+            yield buffer.slice(0, nl).replace(/\r$/, "");
+            buffer = buffer.slice(nl + 1);
+            nl = buffer.indexOf("\n");
+        }
+    }
+    if (buffer) {
+        yield buffer.replace(/\r$/, "");
+    }
+}
+
+/**
+ * Parse newline-delimited JSON, one value per non-empty line.
+ */
+export async function* parseNdjson<T>(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<T> {
+    for await (const line of readLines(readChunks(body, signal))) {
+        if (line.trim()) {
+            yield JSON.parse(line) as T;
+        }
+    }
+}
+
+/**
+ * Parse server-sent events whose `data:` payloads are JSON. The `[DONE]` sentinel and comment lines are skipped.
+ */
+export async function* parseSse<T>(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<T> {
+    let data: string[] = [];
+    const flush = function* () {
+        const payload = data.join("\n");
+        data = [];
+        if (payload && payload !== "[DONE]") {
+            yield JSON.parse(payload) as T;
+        }
+    };
+    for await (const line of readLines(readChunks(body, signal))) {
+        if (!line) {
+            yield* flush();
+        } else if (line.startsWith("data:")) {
+            data.push(line.slice(5).replace(/^ /, ""));
+        }
+    }
+    yield* flush();
+}
+
+/**
+ * Parse a response body as a stream of JSON frames in the given format.
+ */
+export function parseStream<T>(body: ReadableStream<Uint8Array>, format: StreamFormat, signal?: AbortSignal): AsyncGenerator<T> {
+    return format === "sse" ? parseSse<T>(body, signal) : parseNdjson<T>(body, signal);
+}
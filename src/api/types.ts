@@ -28,8 +28,11 @@ export interface CsrfOptions {
 }
 
 export interface AuthOptions {
+    /** Defaults to on when `getToken` is given */
     enabled?: boolean;
+    /** Defaults to `Authorization` */
     headerName?: string;
+    /** Defaults to `Bearer`; an empty string sends the bare token */
     scheme?: string;
     getToken?: () => Promise<string | null> | string | null;
 }
@@ -37,8 +40,22 @@ export interface AuthOptions {
 export interface CacheOptions {
     etag?: boolean;
     maxEntries?: number;
+    /** Default lifetime of cached GET responses; 0 disables the TTL cache */
     ttlMs?: number;
+    /** Serve expired entries immediately and refresh them in the background */
     staleWhileRevalidate?: boolean;
+    /** Mirror the TTL cache to session storage so it survives reloads */
+    persist?: boolean;
+    /** Session storage key used when `persist` is on */
+    persistKey?: string;
+}
+
+/**
+ * Cached GET responses to drop. Prefixes match the request path without query, e.g. `/rest/assets`.
+ */
+export interface CacheInvalidation {
+    prefixes?: ReadonlyArray<string>;
+    tags?: ReadonlyArray<string>;
 }
 
 export interface ApiConfig {
@@ -151,6 +168,21 @@ export interface RequestOptions {
     cacheKey?: string;
     timeoutMs?: number;
     bypassTtl?: boolean;
+    /** Overrides the client's `cache.ttlMs` for this GET */
+    ttlMs?: number;
+    /** Overrides the client's `cache.staleWhileRevalidate` for this GET */
+    staleWhileRevalidate?: boolean;
+    /** Labels for the cached GET response, for invalidation by tag */
+    tags?: ReadonlyArray<string>;
+    /** Cache entries to drop once this request succeeds */
+    invalidate?: CacheInvalidation;
+}
+
+export type StreamFormat = "ndjson" | "sse";
+
+export interface StreamOptions extends RequestOptions {
+    /** Frame format; detected from the response content-type when omitted */
+    format?: StreamFormat;
 }
 
 export type RequestInitExt = Omit<RequestInit, "headers"> & { headers?: HeadersInitLike; };
@@ -161,3 +193,136 @@ export type RateLimitsPostRequest = { requestKind: string; modelName: string; };
 
 export type WorkspaceIdParam = { workspaceId: string; };
 export type WorkspaceConversationAddRequest = { conversationId: string; };
+
+export type ConversationIdParam = { conversationId: string; };
+export type ShareLinkIdParam = { shareLinkId: string; };
+
+export interface Conversation {
+    conversationId: string;
+    title: string;
+    starred?: boolean;
+    pinned?: boolean;
+    createTime: string;
+    modifyTime: string;
+    temporary?: boolean;
+    [k: string]: JsonValue;
+}
+
+export interface ListConversationsRequest {
+    /** Full-text search; switches to the search endpoint when set */
+    query?: string;
+    pageSize?: number;
+    pageToken?: string;
+    workspaceId?: string;
+    filterIsStarred?: boolean;
+}
+
+export interface ListConversationsResponse {
+    conversations: ReadonlyArray<Conversation>;
+    nextPageToken?: string | null;
+}
+
+export interface ConversationResponse {
+    responseId: string;
+    message: string;
+    sender: string;
+    createTime: string;
+    parentResponseId?: string | null;
+    model?: string | null;
+    [k: string]: JsonValue;
+}
+
+export interface ListConversationResponsesRequest {
+    includeThreads?: boolean;
+}
+
+export interface ListConversationResponsesResponse {
+    responses: ReadonlyArray<ConversationResponse>;
+}
+
+export type UpdateConversationRequest = { title?: string; starred?: boolean; pinned?: boolean; };
+
+export interface CreateShareLinkRequest {
+    /** Response the shared view ends at; defaults to the latest one */
+    responseId?: string;
+    allowIndexing?: boolean;
+}
+
+export interface ShareLink {
+    shareLinkId: string;
+    url?: string;
+    [k: string]: JsonValue;
+}
+
+export type WorkspaceConversationParam = WorkspaceIdParam & ConversationIdParam;
+export type WorkspaceAssetParam = WorkspaceIdParam & { assetId: string; };
+
+export interface Workspace {
+    workspaceId: string;
+    name: string;
+    icon?: string | null;
+    /** Custom instructions applied to every chat in the project */
+    customPersonality?: string | null;
+    createTime: string;
+    lastUseTime?: string | null;
+    [k: string]: JsonValue;
+}
+
+export interface ListWorkspacesRequest {
+    pageSize?: number;
+    pageToken?: string;
+    orderBy?: string;
+}
+
+export interface ListWorkspacesResponse {
+    workspaces: ReadonlyArray<Workspace>;
+    nextPageToken?: string | null;
+}
+
+export type CreateWorkspaceRequest = { name: string; icon?: string; customPersonality?: string; };
+export type UpdateWorkspaceRequest = { name?: string; icon?: string; customPersonality?: string; };
+
+export interface ListWorkspaceItemsRequest {
+    pageSize?: number;
+    pageToken?: string;
+}
+
+export type WorkspaceAssetsAttachRequest = { assetIds: ReadonlyArray<string>; };
+
+export interface NewConversationRequest {
+    message: string;
+    modelName?: string;
+    temporary?: boolean;
+    fileAttachments?: ReadonlyArray<string>;
+    imageAttachments?: ReadonlyArray<string>;
+    disableSearch?: boolean;
+    enableImageGeneration?: boolean;
+    isReasoning?: boolean;
+    sendFinalMetadata?: boolean;
+    workspaceIds?: ReadonlyArray<string>;
+}
+
+export type SendMessageRequest = Omit<NewConversationRequest, "temporary" | "workspaceIds"> & {
+    /** Response to reply to; the latest one when omitted */
+    parentResponseId?: string;
+};
+
+/**
+ * Normalized frame of a streamed chat reply.
+ */
+export type ChatStreamEvent =
+    | { type: "conversation"; conversation: Conversation; }
+    | { type: "token"; token: string; responseId: string; }
+    | { type: "reasoning"; token: string; responseId: string; }
+    | { type: "response"; response: ConversationResponse; }
+    | { type: "title"; title: string; }
+    | { type: "metadata"; metadata: { [k: string]: JsonValue; }; };
+
+export interface ChatCompletion {
+    conversationId: string | null;
+    responseId: string | null;
+    message: string;
+    reasoning: string;
+    title: string | null;
+    metadata: { [k: string]: JsonValue; } | null;
+}
@@ -6,6 +6,7 @@
 
 import { Lucide } from "@components/Lucide";
 import { Logger } from "@utils/logger";
+import { reportPluginError } from "@utils/pluginErrors";
 import React, { Component, type ErrorInfo, type ReactNode } from "react";
 
 /**
@@ -42,6 +43,9 @@ export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundarySt
     public componentDidCatch(error: Error, errorInfo: ErrorInfo) {
         const context = this.props.pluginId ? `in plugin "${this.props.pluginId}"` : "";
         errorBoundaryLogger.error(`Uncaught rendering error ${context}:`, error, errorInfo);
+        if (this.props.pluginId) {
+            reportPluginError(this.props.pluginId, error, "render");
+        }
     }
 
     public render() {
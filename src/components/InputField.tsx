@@ -29,6 +29,7 @@ export interface InputOption {
  * @property {string} [className] - Additional CSS classes.
  * @property {"default" | "search"} [variant] - Visual variant for text-like inputs.
  * @property {LucideIconName} [iconName] - Optional icon name for search variant (defaults to "Search").
+ * @property {React.Ref<HTMLInputElement>} [inputRef] - Ref to the underlying text input.
  */
 export interface InputFieldProps {
     /** Type of input field */
@@ -47,6 +48,8 @@ export interface InputFieldProps {
     variant?: "default" | "search";
     /** Optional icon name for search variant (defaults to "Search") */
     iconName?: LucideIconName;
+    /** Ref to the underlying text input */
+    inputRef?: React.Ref<HTMLInputElement>;
 }
 
 export const InputField: React.FC<InputFieldProps> = ({
@@ -58,6 +61,7 @@ export const InputField: React.FC<InputFieldProps> = ({
     className,
     variant,
     iconName,
+    inputRef,
 }) => {
     const commonClass = clsx(
         "h-10 px-3.5 flex items-center text-sm bg-surface-l1 dark:bg-surface-l1 focus:outline-none text-primary rounded-xl border border-border-l1",
@@ -102,6 +106,7 @@ export const InputField: React.FC<InputFieldProps> = ({
             >
                 <Lucide name={(iconName || "Search") as LucideIconName} size={16} strokeWidth={2} className="flex-shrink-0" />
                 <input
+                    ref={inputRef}
                     value={value.toString()}
                     onChange={e => onChange(e.target.value)}
                     type="text"
@@ -118,6 +123,7 @@ export const InputField: React.FC<InputFieldProps> = ({
 
     return (
         <input
+            ref={inputRef}
             type={type === "number" ? "text" : type}
             inputMode={type === "number" ? "numeric" : undefined}
             value={value.toString()}
@@ -40,7 +40,7 @@ import { createPortal } from "react-dom";
  * @property {boolean} [closeOnEsc=true] - Whether pressing Escape should close the modal.
  * @property {boolean} [trapFocus=true] - Trap focus within the modal while open.
  * @property {boolean} [autoFocus=true] - Auto focus the dialog or provided initial focus ref on open.
- * @property {React.RefObject<HTMLElement>} [initialFocusRef] - Optional element to receive initial focus when opening.
+ * @property {React.RefObject<HTMLElement | null>} [initialFocusRef] - Optional element to receive initial focus when opening.
  * @property {boolean} [preventScroll=true] - Prevent body scroll while the modal is open.
  * @property {boolean} [usePortal=false] - Renders the modal into a portal attached to the document body.
  * @property {Element | DocumentFragment | null} [portalContainer] - Portal container target when `usePortal` is true.
@@ -89,7 +89,7 @@ export interface ModalProps {
     /** Auto focus the dialog or provided initial focus ref on open. @default true */
     autoFocus?: boolean;
     /** Optional element to receive initial focus when opening. */
-    initialFocusRef?: React.RefObject<HTMLElement>;
+    initialFocusRef?: React.RefObject<HTMLElement | null>;
     /** Prevent body scroll while the modal is open. @default true */
     preventScroll?: boolean;
     /** Renders the modal into a portal attached to the document body. @default false */
@@ -101,7 +101,7 @@ export interface ModalProps {
     onOverlayClick?: (event: React.PointerEvent<HTMLDivElement>) => void;
 }
 
-function createFocusTrap(container: HTMLElement): () => void {
+function createFocusTrap(container: HTMLElement, initialFocus?: HTMLElement | null): () => void {
     const FOCUSABLE =
         'a[href], area[href], input:not([disabled]):not([type="hidden"]), select:not([disabled]), textarea:not([disabled]), button:not([disabled]), iframe, object, embed, [contenteditable], [tabindex]:not([tabindex="-1"])';
 
@@ -149,7 +149,7 @@ function createFocusTrap(container: HTMLElement): () => void {
     document.addEventListener("focusin", onFocusIn, true);
 
     const initialTargets = getFocusable();
-    (initialTargets[0] ?? container).focus();
+    (initialFocus ?? initialTargets[0] ?? container).focus();
 
     return () => {
         document.removeEventListener("keydown", onKeyDown, true);
@@ -267,12 +267,12 @@ export const Modal: ModalComponent = Object.assign(
         useEffect(() => {
             let cleanupFocusTrap: (() => void) | undefined;
             if (isOpen && trapFocus && contentRef.current) {
-                cleanupFocusTrap = createFocusTrap(contentRef.current);
+                cleanupFocusTrap = createFocusTrap(contentRef.current, autoFocus ? initialFocusRef?.current : null);
             }
             return () => {
                 cleanupFocusTrap?.();
             };
-        }, [isOpen, trapFocus]);
+        }, [isOpen, trapFocus, autoFocus, initialFocusRef]);
 
         const resolvedAriaLabelledBy = useMemo(() => {
             if (ariaLabelledBy) {
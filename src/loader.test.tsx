@@ -0,0 +1,35 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Devs } from "@utils/constants";
+import { bootPluginManager } from "@utils/testing/harness";
+import { definePlugin } from "@utils/types";
+import { describe, expect, test } from "bun:test";
+
+describe("PluginLoader", () => {
+    test("a failed start removes the styles and UI it applied before retrying and quarantining", async () => {
+        let attempts = 0;
+        const plugin = definePlugin({
+            name: "Flaky Start",
+            description: "Applies UI, then throws",
+            authors: [Devs.Prism],
+            styles: ".flaky { color: red; }",
+            ui: { target: "[data-sidebar=\"header\"]", component: () => <span data-testid="flaky">!</span> },
+            start() {
+                attempts++;
+                throw new Error("start failed");
+            },
+        });
+
+        const booted = await bootPluginManager({ plugins: [plugin], enable: [plugin.id], fixtures: ["sidebar"] });
+
+        expect(attempts).toBe(4);
+        expect(booted.manager.getPluginState(plugin.id)).toBe("quarantined");
+        expect(booted.stats(plugin.id)).toEqual({ uiPatches: 0, mounts: 0, stylesheet: null });
+        expect(document.querySelector("[data-grokness-ui=\"flaky-start\"]")).toBeNull();
+        await booted.dispose();
+    });
+});
@@ -4,8 +4,30 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
+import { collectDependencies, collectDependents } from "@utils/dependencies";
 import { Logger } from "@utils/logger";
-import { type IPlugin, type IPluginContext, type PluginOptions, plugins as staticPlugins } from "@utils/types";
+import { installNetworkTap } from "@utils/networkTap";
+import { createPluginContext } from "@utils/pluginContext";
+import { onPluginError } from "@utils/pluginErrors";
+import { initStorageBackend, persistentStorage } from "@utils/storage";
+import {
+    type CircuitBreakerStatus,
+    type IPlugin,
+    type IPluginContext,
+    type IPluginManager,
+    isCodePatch,
+    isPluginEnabled,
+    onAnyPluginSettingsUpdated,
+    type PluginDiagnostics,
+    type PluginLoadState,
+    type PluginManagerDiagnostics,
+    type PluginOptions,
+    plugins as staticPlugins,
+    type PluginStateChangedDetail,
+    reloadPluginSettings,
+    setPluginManager,
+} from "@utils/types";
+import { installWebpackHook, logCodePatchSummary, registerCodePatches } from "@webpack/patcher";
 
 const DEFAULT_CONFIG = {
     loadDelayMs: 100,
@@ -32,10 +54,16 @@ const _ERROR_CODES = {
     CIRCUIT_BREAKER_OPEN: "CIRCUIT_BREAKER_OPEN",
     TIMEOUT: "TIMEOUT",
     MEMORY_ERROR: "MEMORY_ERROR",
+    DEPENDENCY_MISSING: "DEPENDENCY_MISSING",
+    DEPENDENCY_CYCLE: "DEPENDENCY_CYCLE",
+    DEPENDENCY_FAILED: "DEPENDENCY_FAILED",
+    PLUGIN_NOT_FOUND: "PLUGIN_NOT_FOUND",
+    PLUGIN_IN_USE: "PLUGIN_IN_USE",
 } as const;
 
 declare const process: {
     readonly env: {
+        readonly NODE_ENV?: string;
         readonly PLUGIN_MANAGER_LOAD_DELAY_MS?: string;
         readonly PLUGIN_MANAGER_PARALLEL_LOADING?: string;
         readonly PLUGIN_MANAGER_MAX_CONCURRENT?: string;
@@ -50,8 +78,6 @@ type Result<T, E = Error> = { success: true; data: T; } | { success: false; erro
 
 type PluginModule = { default?: IPlugin; plugins?: IPlugin[]; };
 
-type PluginLoadState = "pending" | "loading" | "loaded" | "failed" | "disabled";
-
 type CircuitBreakerState = "closed" | "open" | "half-open";
 
 interface PluginManagerMetrics {
@@ -79,6 +105,18 @@ interface MutableCircuitBreaker extends Omit<_CircuitBreaker, "state" | "failure
     lastFailureTime: number;
 }
 
+interface DependencyResolution {
+    readonly layers: readonly IPlugin[][];
+    readonly errors: ReadonlyMap<string, PluginManagerError>;
+}
+
+interface PluginLoadRecord {
+    startedAt?: number;
+    loadDurationMs?: number;
+    retryCount: number;
+    lastError?: string;
+}
+
 interface PluginLoadContext extends IPluginContext<PluginOptions> {
     readonly loadStartTime: number;
     readonly retryCount: number;
@@ -95,6 +133,8 @@ interface PluginManagerConfig {
     readonly circuitBreakerTimeoutMs: number;
     readonly domReadyTimeoutMs: number;
     readonly pluginLoadTimeoutMs: number;
+    /** Explicit plugin list; when set, plugin modules are not discovered from the bundle */
+    readonly plugins?: readonly IPlugin[];
 }
 
 class PluginManagerError extends Error {
@@ -149,6 +189,19 @@ function isPluginModule(obj: unknown): obj is PluginModule {
     );
 }
 
+/**
+ * Enabled plugins plus everything they depend on, since a dependency cannot stay off while its dependent runs.
+ */
+function getEnabledWithDependencies(plugins: readonly IPlugin[]): IPlugin[] {
+    const enabled = new Map(plugins.filter(isPluginEnabled).map(p => [p.id, p]));
+    for (const plugin of [...enabled.values()]) {
+        for (const dependency of collectDependencies(plugin.id, plugins)) {
+            enabled.set(dependency.id, dependency);
+        }
+    }
+    return [...enabled.values()];
+}
+
 function parseEnvNumber(value: string | undefined, defaultValue: number): number {
     if (!value) {
         return defaultValue;
@@ -299,6 +352,12 @@ class CircuitBreakerImpl implements MutableCircuitBreaker {
         this.state = "closed";
     }
 
+    public reset(): void {
+        this.failureCount = 0;
+        this.lastFailureTime = 0;
+        this.state = "closed";
+    }
+
     public recordFailure(): void {
         this.failureCount++;
         this.lastFailureTime = Date.now();
@@ -346,42 +405,142 @@ class PluginRegistry {
     }
 }
 
+class DependencyGraph {
+    private readonly registry: PluginRegistry;
+
+    constructor(registry: PluginRegistry) {
+        this.registry = registry;
+    }
+
+    /**
+     * Group plugins into layers where every plugin only depends on plugins in earlier layers.
+     * Plugins with missing or cyclic dependencies, and everything depending on them, are reported as errors instead.
+     */
+    public resolve(plugins: readonly IPlugin[]): DependencyResolution {
+        const errors = new Map<string, PluginManagerError>();
+        const ids = new Set(plugins.map(p => p.id));
+
+        for (const plugin of plugins) {
+            const missing = plugin.dependencies.filter(id => !this.registry.has(id));
+            if (missing.length > 0) {
+                errors.set(plugin.id, new PluginManagerError(
+                    "DEPENDENCY_MISSING",
+                    `Plugin ${plugin.name} depends on unknown plugin(s): ${missing.join(", ")}`,
+                    { pluginId: plugin.id, missing }
+                ));
+            }
+        }
+
+        for (const cycle of this.findCycles(plugins)) {
+            const path = [...cycle, cycle[0]].join(" -> ");
+            for (const id of cycle) {
+                if (!errors.has(id)) {
+                    errors.set(id, new PluginManagerError("DEPENDENCY_CYCLE", `Dependency cycle detected: ${path}`, { pluginId: id, cycle }));
+                }
+            }
+        }
+
+        let changed = true;
+        while (changed) {
+            changed = false;
+            for (const plugin of plugins) {
+                if (errors.has(plugin.id)) {
+                    continue;
+                }
+                const blocker = plugin.dependencies.find(id => errors.has(id) || !ids.has(id));
+                if (blocker) {
+                    errors.set(plugin.id, new PluginManagerError(
+                        "DEPENDENCY_FAILED",
+                        `Plugin ${plugin.name} cannot start because its dependency ${blocker} is unavailable`,
+                        { pluginId: plugin.id, dependencyId: blocker }
+                    ));
+                    changed = true;
+                }
+            }
+        }
+
+        const layers: IPlugin[][] = [];
+        const placed = new Set<string>();
+        let remaining = plugins.filter(p => !errors.has(p.id));
+        while (remaining.length > 0) {
+            const layer = remaining.filter(p => p.dependencies.every(id => placed.has(id)));
+            if (layer.length === 0) {
+                break;
+            }
+            layer.forEach(p => placed.add(p.id));
+            layers.push(layer);
+            remaining = remaining.filter(p => !placed.has(p.id));
+        }
+
+        return { layers, errors };
+    }
+
+    private findCycles(plugins: readonly IPlugin[]): string[][] {
+        const byId = new Map(plugins.map(p => [p.id, p]));
+        const visitState = new Map<string, "visiting" | "done">();
+        const stack: string[] = [];
+        const cycles: string[][] = [];
+
+        const visit = (id: string): void => {
+            visitState.set(id, "visiting");
+            stack.push(id);
+            for (const depId of byId.get(id)?.dependencies ?? []) {
+                const depState = visitState.get(depId);
+                if (depState === "visiting") {
+                    cycles.push(stack.slice(stack.indexOf(depId)));
+                } else if (!depState && byId.has(depId)) {
+                    visit(depId);
+                }
+            }
+            stack.pop();
+            visitState.set(id, "done");
+        };
+
+        for (const id of byId.keys()) {
+            if (!visitState.has(id)) {
+                visit(id);
+            }
+        }
+        return cycles;
+    }
+}
+
 class PluginLoader {
     private readonly logger: Logger;
     private readonly config: PluginManagerConfig;
-    private readonly circuitBreaker: CircuitBreakerImpl;
+    private readonly circuitBreakers = new Map<string, CircuitBreakerImpl>();
     private readonly registry: PluginRegistry;
     private readonly activePlugins = new Map<string, IPlugin>();
     private readonly pluginStates = new Map<string, PluginLoadState>();
+    private readonly contexts = new Map<string, IPluginContext>();
+    private readonly records = new Map<string, PluginLoadRecord>();
 
     constructor(logger: Logger, config: PluginManagerConfig, registry: PluginRegistry) {
         this.logger = logger;
         this.config = config;
-        this.circuitBreaker = new CircuitBreakerImpl(
-            config.circuitBreakerThreshold,
-            config.circuitBreakerTimeoutMs
-        );
         this.registry = registry;
     }
 
     public async loadPlugin(plugin: IPlugin, retryCount = 0): Promise<Result<void>> {
-        const key = STORAGE_KEYS.PLUGIN_ENABLED(plugin.id);
         const ctx: PluginLoadContext = {
-            storageKey: key,
-            pluginId: plugin.id,
-            pluginName: plugin.name,
-            startTime: Date.now(),
-            settings: plugin.options,
+            ...createPluginContext(plugin, STORAGE_KEYS.PLUGIN_ENABLED(plugin.id)),
             loadStartTime: Date.now(),
             retryCount,
             maxRetries: this.config.maxRetries,
         };
 
-        if (!this.circuitBreaker.canExecute()) {
-            return createError(new CircuitBreakerError({ pluginId: plugin.id }));
+        const record = this.getRecord(plugin.id);
+        record.retryCount = retryCount;
+
+        const breaker = this.getBreaker(plugin.id);
+        if (!breaker.canExecute()) {
+            const error = new CircuitBreakerError({ pluginId: plugin.id });
+            record.lastError ??= error.message;
+            this.quarantine(plugin);
+            return createError(error);
         }
 
-        this.pluginStates.set(plugin.id, "loading");
+        this.setState(plugin.id, "loading");
 
         try {
             this.logger.info(`Starting plugin: ${plugin.name} (attempt ${retryCount + 1}/${this.config.maxRetries + 1})`);
@@ -390,8 +549,12 @@ class PluginLoader {
             await withTimeout(loadPromise, this.config.pluginLoadTimeoutMs, `Plugin ${plugin.name} load`);
 
             this.activePlugins.set(plugin.id, plugin);
-            this.pluginStates.set(plugin.id, "loaded");
-            this.circuitBreaker.recordSuccess();
+            this.contexts.set(plugin.id, ctx);
+            record.startedAt = Date.now();
+            record.loadDurationMs = record.startedAt - ctx.loadStartTime;
+            record.lastError = undefined;
+            this.setState(plugin.id, "loaded");
+            breaker.recordSuccess();
 
             this.logger.info(`Successfully loaded plugin: ${plugin.name} (${Date.now() - ctx.loadStartTime}ms)`);
 
@@ -402,69 +565,181 @@ class PluginLoader {
             return createResult(undefined);
         } catch (error) {
             this.logger.error(`Failed to load plugin ${plugin.name}:`, error);
-            this.pluginStates.set(plugin.id, "failed");
-            this.circuitBreaker.recordFailure();
+            await this.cleanupFailedStart(plugin, ctx);
+            record.lastError = error instanceof Error ? error.message : String(error);
+            this.setState(plugin.id, "failed");
+            this.notifyError(plugin, error as Error);
+            breaker.recordFailure();
 
-            if (!plugin.required && retryCount < this.config.maxRetries) {
+            if (!plugin.required && retryCount < this.config.maxRetries && breaker.state !== "open") {
                 this.logger.info(`Retrying plugin ${plugin.name} in ${this.config.retryDelayMs}ms...`);
                 await new Promise(resolve => setTimeout(resolve, this.config.retryDelayMs * Math.pow(2, retryCount)));
                 return this.loadPlugin(plugin, retryCount + 1);
             }
 
+            // Keep the user's choice; a quarantined plugin stays enabled but is not started until retried
             if (!plugin.required) {
-                localStorage.removeItem(key);
-                this.logger.info(`Disabled plugin ${plugin.name} due to repeated failures`);
+                this.quarantine(plugin);
             }
 
             return createError(error as Error);
         }
     }
 
+    /**
+     * Undo whatever a failed start already applied, so retries and quarantine do not leave its styles and UI behind.
+     */
+    private async cleanupFailedStart(plugin: IPlugin, ctx: PluginLoadContext): Promise<void> {
+        try {
+            await withTimeout(Promise.resolve(plugin.stop?.(ctx)), this.config.pluginLoadTimeoutMs, `Plugin ${plugin.name} cleanup`);
+        } catch (error) {
+            this.logger.warn(`Cleanup after the failed start of ${plugin.name} threw:`, error);
+        } finally {
+            ctx.disposables.dispose();
+        }
+    }
+
+    private setState(id: string, state: PluginLoadState): void {
+        this.pluginStates.set(id, state);
+        const detail: PluginStateChangedDetail = { pluginId: id, state, error: this.records.get(id)?.lastError };
+        window.dispatchEvent(new CustomEvent("grokness-plugin-state", { detail }));
+    }
+
+    private getBreaker(id: string): CircuitBreakerImpl {
+        let breaker = this.circuitBreakers.get(id);
+        if (!breaker) {
+            breaker = new CircuitBreakerImpl(this.config.circuitBreakerThreshold, this.config.circuitBreakerTimeoutMs);
+            this.circuitBreakers.set(id, breaker);
+        }
+        return breaker;
+    }
+
+    private quarantine(plugin: IPlugin): void {
+        this.setState(plugin.id, "quarantined");
+        this.logger.warn(`Quarantined plugin ${plugin.name} after repeated failures`);
+    }
+
+    public markDisabled(plugin: IPlugin): void {
+        this.setState(plugin.id, "disabled");
+    }
+
+    private getRecord(id: string): PluginLoadRecord {
+        let record = this.records.get(id);
+        if (!record) {
+            record = { retryCount: 0 };
+            this.records.set(id, record);
+        }
+        return record;
+    }
+
+    public failPlugin(plugin: IPlugin, error: Error): void {
+        this.getRecord(plugin.id).lastError = error.message;
+        this.setState(plugin.id, "failed");
+        this.logger.error(`Cannot start plugin ${plugin.name}:`, error.message);
+    }
+
     public async unloadPlugin(plugin: IPlugin): Promise<Result<void>> {
-        const key = STORAGE_KEYS.PLUGIN_ENABLED(plugin.id);
-        const ctx: IPluginContext = {
-            storageKey: key,
-            pluginId: plugin.id,
-            pluginName: plugin.name,
-            startTime: Date.now(),
-            settings: plugin.options,
-        };
+        const ctx = this.getContext(plugin);
 
         try {
             if (plugin.stop) {
                 await plugin.stop(ctx);
             }
             this.activePlugins.delete(plugin.id);
-            this.pluginStates.delete(plugin.id);
+            this.contexts.delete(plugin.id);
+            this.setState(plugin.id, "disabled");
             return createResult(undefined);
         } catch (error) {
             this.logger.error(`Error stopping plugin ${plugin.name}:`, error);
+            this.notifyError(plugin, error as Error);
             return createError(error as Error);
         }
     }
 
+    /**
+     * Context the plugin was started with, or a fresh one if it is not running.
+     */
+    public getContext(plugin: IPlugin): IPluginContext {
+        return this.contexts.get(plugin.id) ?? createPluginContext(plugin, STORAGE_KEYS.PLUGIN_ENABLED(plugin.id));
+    }
+
+    public notifyError(plugin: IPlugin, error: Error): void {
+        if (!plugin.onError) {
+            return;
+        }
+        try {
+            plugin.onError(error, this.getContext(plugin));
+        } catch (handlerError) {
+            this.logger.error(`onError handler of ${plugin.name} threw:`, handlerError);
+        }
+    }
+
+    public notifySettingsChange(pluginId: string, key: string, value: unknown): void {
+        const plugin = this.activePlugins.get(pluginId);
+        if (!plugin?.onSettingsChange) {
+            return;
+        }
+        try {
+            plugin.onSettingsChange(key, value, this.getContext(plugin));
+        } catch (error) {
+            this.logger.error(`onSettingsChange handler of ${plugin.name} threw:`, error);
+            this.notifyError(plugin, error as Error);
+        }
+    }
+
     public getActivePlugins(): readonly IPlugin[] {
         return Array.from(this.activePlugins.values());
     }
 
+    public isActive(id: string): boolean {
+        return this.activePlugins.has(id);
+    }
+
     public getPluginState(id: string): PluginLoadState {
         return this.pluginStates.get(id) ?? "pending";
     }
 
+    public getDiagnostics(id: string): PluginDiagnostics {
+        const record = this.records.get(id);
+        return {
+            pluginId: id,
+            state: this.getPluginState(id),
+            startedAt: this.activePlugins.has(id) ? record?.startedAt : undefined,
+            loadDurationMs: record?.loadDurationMs,
+            retryCount: record?.retryCount ?? 0,
+            lastError: record?.lastError,
+            circuitBreaker: this.getCircuitBreakerStatus(id),
+        };
+    }
+
+    public getCircuitBreakerStatus(id: string): CircuitBreakerStatus {
+        const { state, failureCount, lastFailureTime, threshold, timeoutMs } = this.getBreaker(id);
+        return { state, failureCount, lastFailureTime, threshold, timeoutMs };
+    }
+
+    public resetCircuitBreaker(id: string): void {
+        this.getBreaker(id).reset();
+    }
+
     public dispose(): void {
         this.activePlugins.clear();
         this.pluginStates.clear();
+        this.contexts.clear();
+        this.records.clear();
     }
 }
 
-export class PluginManager {
+export class PluginManager implements IPluginManager {
     public readonly logger: Logger;
     private readonly config: PluginManagerConfig;
     private readonly registry: PluginRegistry;
     private readonly loader: PluginLoader;
+    private readonly dependencies: DependencyGraph;
     private readonly domReady: DOMReadyDetector;
     private readonly metrics: PluginManagerMetrics;
     private isInitialized = false;
+    private toggleQueue: Promise<unknown> = Promise.resolve();
+    private readonly unsubscribers: (() => void)[] = [];
 
     constructor(config: Partial<PluginManagerConfig> = {}, logger?: Logger) {
         this.logger = logger ?? new Logger("PluginManager", "#a6d189");
@@ -473,6 +748,7 @@ export class PluginManager {
 
         this.registry = new PluginRegistry(this.logger);
         this.loader = new PluginLoader(this.logger, this.config, this.registry);
+        this.dependencies = new DependencyGraph(this.registry);
         this.domReady = new DOMReadyDetector(this.logger, this.config.domReadyTimeoutMs);
 
         this.metrics = {
@@ -482,9 +758,20 @@ export class PluginManager {
             totalLoadTime: 0,
             memoryUsage: measureMemoryUsage(),
         } as const;
+
+        this.unsubscribers.push(
+            onPluginError(({ pluginId, error, source }) => {
+                const plugin = this.registry.get(pluginId);
+                if (plugin) {
+                    this.logger.debug(`Routing ${source} error to ${plugin.name}`);
+                    this.loader.notifyError(plugin, error);
+                }
+            }),
+            onAnyPluginSettingsUpdated(({ pluginId, key, value }) => this.loader.notifySettingsChange(pluginId, key, value))
+        );
     }
 
-    private buildConfig(_partial: Partial<PluginManagerConfig>): PluginManagerConfig {
+    private buildConfig(partial: Partial<PluginManagerConfig>): PluginManagerConfig {
         const env = (typeof process !== "undefined" && process.env) ? process.env : {};
 
         return {
@@ -497,6 +784,7 @@ export class PluginManager {
             circuitBreakerTimeoutMs: parseEnvNumber(env.PLUGIN_MANAGER_CIRCUIT_BREAKER_TIMEOUT_MS, DEFAULT_CONFIG.circuitBreakerTimeoutMs),
             domReadyTimeoutMs: DEFAULT_CONFIG.domReadyTimeoutMs,
             pluginLoadTimeoutMs: DEFAULT_CONFIG.pluginLoadTimeoutMs,
+            ...partial,
         };
     }
 
@@ -529,7 +817,7 @@ export class PluginManager {
             return;
         }
 
-        for (const plugin of staticPlugins) {
+        for (const plugin of this.config.plugins ?? staticPlugins) {
             if (isPlugin(plugin)) {
                 this.registry.register(plugin);
             } else {
@@ -537,6 +825,11 @@ export class PluginManager {
             }
         }
 
+        if (this.config.plugins) {
+            this.isInitialized = true;
+            return;
+        }
+
         const pluginModuleMap: Record<string, PluginModule> = import.meta.glob(
             ["./plugins/**/index.ts", "./plugins/**/index.tsx"],
             { eager: true }
@@ -570,22 +863,25 @@ export class PluginManager {
     }
 
     private getEnabledPlugins(): IPlugin[] {
-        return this.registry.getAll().filter(plugin => {
-            if (plugin.required) {
-                return true;
+        const enabled = getEnabledWithDependencies(this.registry.getAll());
+        for (const plugin of enabled) {
+            if (!isPluginEnabled(plugin)) {
+                this.logger.info(`Enabling ${plugin.name} because an enabled plugin depends on it`);
+                persistentStorage.setItem(STORAGE_KEYS.PLUGIN_ENABLED(plugin.id), "1");
             }
+        }
+        return enabled;
+    }
 
-            const key = STORAGE_KEYS.PLUGIN_ENABLED(plugin.id);
-            const stored = localStorage.getItem(key);
-
-            if (stored === "1") {
-                return true;
-            }
-            if (stored === "0") {
-                return false;
-            }
-            return plugin.enabledByDefault ?? false;
-        });
+    private getDependencyError(plugin: IPlugin): PluginManagerError | null {
+        const failed = plugin.dependencies.find(id => this.loader.getPluginState(id) !== "loaded");
+        return failed
+            ? new PluginManagerError(
+                "DEPENDENCY_FAILED",
+                `Plugin ${plugin.name} cannot start because its dependency ${failed} failed to load`,
+                { pluginId: plugin.id, dependencyId: failed }
+            )
+            : null;
     }
 
     public async loadPlugins(): Promise<Result<void>> {
@@ -599,29 +895,63 @@ export class PluginManager {
             this.metrics.pluginsStart = Date.now();
 
             const enabledPlugins = this.getEnabledPlugins();
-            const required = enabledPlugins.filter(p => p.required);
-            const optional = enabledPlugins.filter(p => !p.required);
+            for (const plugin of this.registry.getAll()) {
+                if (!enabledPlugins.includes(plugin)) {
+                    this.loader.markDisabled(plugin);
+                }
+            }
 
-            for (const plugin of required) {
-                const result = await this.loader.loadPlugin(plugin);
-                if (result.success) {
-                    this.metrics.pluginsLoaded++;
-                } else {
-                    this.metrics.pluginsFailed++;
-                    this.logger.error(`Failed to load required plugin ${plugin.name}:`, result.error);
-                    return result;
+            const { layers, errors } = this.dependencies.resolve(enabledPlugins);
+
+            for (const [id, error] of errors) {
+                const plugin = this.registry.get(id);
+                if (!plugin) {
+                    continue;
+                }
+                this.loader.failPlugin(plugin, error);
+                this.metrics.pluginsFailed++;
+                if (plugin.required) {
+                    return createError(error);
                 }
             }
 
-            if (this.config.parallelLoading) {
-                await this.loadInParallel(optional);
-            } else {
-                for (const plugin of optional) {
+            for (const layer of layers) {
+                const ready: IPlugin[] = [];
+                for (const plugin of layer) {
+                    const dependencyError = this.getDependencyError(plugin);
+                    if (!dependencyError) {
+                        ready.push(plugin);
+                        continue;
+                    }
+                    this.loader.failPlugin(plugin, dependencyError);
+                    this.metrics.pluginsFailed++;
+                    if (plugin.required) {
+                        return createError(dependencyError);
+                    }
+                }
+
+                for (const plugin of ready.filter(p => p.required)) {
                     const result = await this.loader.loadPlugin(plugin);
                     if (result.success) {
                         this.metrics.pluginsLoaded++;
                     } else {
                         this.metrics.pluginsFailed++;
+                        this.logger.error(`Failed to load required plugin ${plugin.name}:`, result.error);
+                        return result;
+                    }
+                }
+
+                const optional = ready.filter(p => !p.required);
+                if (this.config.parallelLoading) {
+                    await this.loadInParallel(optional);
+                } else {
+                    for (const plugin of optional) {
+                        const result = await this.loader.loadPlugin(plugin);
+                        if (result.success) {
+                            this.metrics.pluginsLoaded++;
+                        } else {
+                            this.metrics.pluginsFailed++;
+                        }
                     }
                 }
             }
@@ -630,6 +960,8 @@ export class PluginManager {
             this.metrics.totalLoadTime = this.metrics.pluginsEnd - loadStart;
             this.metrics.memoryUsage = measureMemoryUsage();
 
+            logCodePatchSummary();
+
             this.logger.info("All plugins loaded successfully", {
                 loaded: this.metrics.pluginsLoaded,
                 failed: this.metrics.pluginsFailed,
@@ -671,7 +1003,8 @@ export class PluginManager {
         try {
             this.logger.info("Unloading all plugins...");
 
-            for (const plugin of this.loader.getActivePlugins()) {
+            // Stop dependents before the plugins they rely on
+            for (const plugin of [...this.loader.getActivePlugins()].reverse()) {
                 await this.loader.unloadPlugin(plugin);
             }
 
@@ -694,15 +1027,144 @@ export class PluginManager {
         return this.loader.getActivePlugins();
     }
 
+    public getPluginState(pluginId: string): PluginLoadState {
+        return this.loader.getPluginState(pluginId);
+    }
+
+    /**
+     * Persist and start a plugin on the live page, starting its dependencies first.
+     * Plugins that require a restart are only persisted.
+     */
+    public enablePlugin(pluginId: string): Promise<Result<void>> {
+        return this.serialize(() => this.startWithDependencies(pluginId));
+    }
+
+    /**
+     * Persist and stop a plugin on the live page. Refused while enabled plugins depend on it.
+     * Plugins that require a restart are only persisted.
+     */
+    public disablePlugin(pluginId: string): Promise<Result<void>> {
+        return this.serialize(async () => {
+            const plugin = this.registry.get(pluginId);
+            if (!plugin) {
+                return createError(new PluginManagerError("PLUGIN_NOT_FOUND", `Unknown plugin ${pluginId}`, { pluginId }));
+            }
+            if (plugin.required) {
+                return createError(new PluginManagerError("PLUGIN_IN_USE", `Plugin ${plugin.name} is required`, { pluginId }));
+            }
+
+            const dependents = collectDependents(plugin.id, this.registry.getAll()).filter(p => this.loader.isActive(p.id));
+            if (dependents.length > 0) {
+                return createError(new PluginManagerError(
+                    "PLUGIN_IN_USE",
+                    `Plugin ${plugin.name} is required by ${dependents.map(p => p.name).join(", ")}`,
+                    { pluginId, dependents: dependents.map(p => p.id) }
+                ));
+            }
+
+            persistentStorage.setItem(STORAGE_KEYS.PLUGIN_ENABLED(plugin.id), "0");
+            if (plugin.requiresRestart || !this.loader.isActive(plugin.id)) {
+                return createResult(undefined);
+            }
+            this.logger.info(`Stopping plugin: ${plugin.name}`);
+            return this.loader.unloadPlugin(plugin);
+        });
+    }
+
+    private async startWithDependencies(pluginId: string): Promise<Result<void>> {
+        const plugin = this.registry.get(pluginId);
+        if (!plugin) {
+            return createError(new PluginManagerError("PLUGIN_NOT_FOUND", `Unknown plugin ${pluginId}`, { pluginId }));
+        }
+
+        const { layers, errors } = this.dependencies.resolve([...collectDependencies(plugin.id, this.registry.getAll()), plugin]);
+        const error = errors.get(plugin.id);
+        if (error) {
+            this.loader.failPlugin(plugin, error);
+            return createError(error);
+        }
+
+        // Anything depending on a plugin that only starts after a restart has to wait for it too
+        const deferred = new Set<string>();
+        for (const target of layers.flat()) {
+            persistentStorage.setItem(STORAGE_KEYS.PLUGIN_ENABLED(target.id), "1");
+            if (this.loader.isActive(target.id)) {
+                continue;
+            }
+            if (target.requiresRestart || target.dependencies.some(id => deferred.has(id))) {
+                deferred.add(target.id);
+                continue;
+            }
+            const result = await this.loader.loadPlugin(target);
+            if (result.success) {
+                this.metrics.pluginsLoaded++;
+            } else {
+                this.metrics.pluginsFailed++;
+                return result;
+            }
+        }
+        return createResult(undefined);
+    }
+
+    /**
+     * Start a failed or quarantined plugin again with a closed breaker and a fresh retry budget.
+     */
+    public retryPlugin(pluginId: string): Promise<Result<void>> {
+        this.loader.resetCircuitBreaker(pluginId);
+        return this.serialize(() => this.startWithDependencies(pluginId));
+    }
+
+    public resetCircuitBreaker(pluginId: string): void {
+        this.loader.resetCircuitBreaker(pluginId);
+        this.logger.info(`Circuit breaker reset for ${pluginId}`);
+    }
+
+    public getDiagnostics(): PluginManagerDiagnostics {
+        return {
+            pluginsLoaded: this.metrics.pluginsLoaded,
+            pluginsFailed: this.metrics.pluginsFailed,
+            totalLoadTime: this.metrics.totalLoadTime,
+            memoryUsage: measureMemoryUsage(),
+            plugins: this.registry.getAll().map(p => this.loader.getDiagnostics(p.id)),
+        };
+    }
+
+    /** Run toggles one at a time so rapid on/off clicks cannot interleave start and stop. */
+    private serialize<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.toggleQueue.then(task, task);
+        this.toggleQueue = run.catch(() => undefined);
+        return run;
+    }
+
     public dispose(): void {
         this.domReady.dispose();
         this.loader.dispose();
         this.registry.clear();
+        this.unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+        setPluginManager(null);
         const initKey = "grokness_initialized";
         delete (window as unknown as Record<string, unknown>)[initKey];
     }
 }
 
+/**
+ * Code patches have to be in place before grok.com's chunks execute, so they are
+ * registered synchronously at document_start rather than when plugins start.
+ */
+function installCodePatches(): void {
+    try {
+        for (const plugin of getEnabledWithDependencies(staticPlugins)) {
+            const codePatches = plugin.patches.filter(isCodePatch);
+            if (codePatches.length > 0) {
+                registerCodePatches(plugin.id, codePatches);
+            }
+        }
+        installWebpackHook();
+    } catch (error) {
+        console.error("Failed to install code patches:", error);
+    }
+}
+
 async function initializePluginManager(): Promise<void> {
     const initKey = "grokness_initialized";
     const globalWindow = window as unknown as Record<string, unknown>;
@@ -714,6 +1176,7 @@ async function initializePluginManager(): Promise<void> {
 
     const logger = new Logger("PluginManager", "#a6d189");
     const manager = new PluginManager({}, logger);
+    setPluginManager(manager);
 
     try {
         window.addEventListener("error", event => {
@@ -728,6 +1191,9 @@ async function initializePluginManager(): Promise<void> {
             manager.dispose();
         });
 
+        await initStorageBackend();
+        reloadPluginSettings();
+
         const result = await manager.loadPlugins();
 
         if (!result.success) {
@@ -743,11 +1209,17 @@ async function initializePluginManager(): Promise<void> {
     }
 }
 
-if (document.readyState === "loading") {
-    document.addEventListener("DOMContentLoaded", initializePluginManager);
-} else {
-    initializePluginManager().catch(error => {
-        console.error("Failed to initialize plugin manager:", error);
-    });
+// Test harnesses import this module for PluginManager and boot it themselves
+if (process.env.NODE_ENV !== "test") {
+    installCodePatches();
+    installNetworkTap();
+
+    if (document.readyState === "loading") {
+        document.addEventListener("DOMContentLoaded", initializePluginManager);
+    } else {
+        initializePluginManager().catch(error => {
+            console.error("Failed to initialize plugin manager:", error);
+        });
+    }
 }
 
@@ -0,0 +1,19 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+/**
+ * MAIN-world entry of the extension builds. The loader runs in the content script's isolated world,
+ * so hooks that have to observe grok.com's own `history`, network traffic and webpack chunks are installed here and talk to it over the page bridge.
+ */
+
+import { installPageNetworkTap } from "@utils/networkTap";
+import { postToContentScript } from "@utils/pageBridge";
+import { hookHistory } from "@utils/router";
+import { installPageCodePatches } from "@webpack/patcher";
+
+installPageCodePatches();
+hookHistory(() => postToContentScript("history", { href: location.href }));
+installPageNetworkTap();
@@ -0,0 +1,137 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { PluginCommand } from "@utils/commands";
+import { selectOne, waitFor } from "@utils/dom";
+import { LOCATORS } from "@utils/locators";
+import { Logger } from "@utils/logger";
+import { showToast } from "@utils/reactRoot";
+import { getPluginManager, type IPlugin, isPluginEnabled, plugins as allPlugins } from "@utils/types";
+
+const logger = new Logger("CommandPalette", "#babbf1");
+
+const GROKNESS_TAB_SELECTOR = "button[data-grokness-tab]";
+
+/**
+ * Press an element the way a mouse would. Radix triggers open on pointerdown rather than click.
+ */
+function press(el: HTMLElement): void {
+    const init = { bubbles: true, cancelable: true, button: 0, pointerType: "mouse" };
+    el.dispatchEvent(new PointerEvent("pointerdown", init));
+    el.dispatchEvent(new MouseEvent("mousedown", init));
+    el.dispatchEvent(new PointerEvent("pointerup", init));
+    el.dispatchEvent(new MouseEvent("mouseup", init));
+    el.click();
+}
+
+async function openGroknessSettings(): Promise<void> {
+    const existing = selectOne(GROKNESS_TAB_SELECTOR);
+    if (existing.success && existing.data) {
+        existing.data.click();
+        return;
+    }
+
+    const footer = selectOne(LOCATORS.SIDEBAR.footer);
+    const avatar = footer.success && footer.data ? selectOne(LOCATORS.SIDEBAR.avatarButton, footer.data) : null;
+    if (!avatar?.success || !avatar.data) {
+        showToast("Could not find the account menu to open settings", "error");
+        return;
+    }
+    press(avatar.data);
+
+    const item = await waitFor(LOCATORS.AVATAR_MENU.settings, { timeoutMs: 3000 });
+    if (!item.success) {
+        logger.warn("Settings menu item did not appear:", item.error);
+        showToast("Could not open settings", "error");
+        return;
+    }
+    item.data.click();
+
+    const tab = await waitFor(GROKNESS_TAB_SELECTOR, { timeoutMs: 5000 });
+    if (tab.success) {
+        tab.data.click();
+    }
+}
+
+function newChat(): void {
+    for (const locator of [LOCATORS.SIDEBAR.homeLink, LOCATORS.CHAT_NAV.homeLink]) {
+        const link = selectOne(locator);
+        if (link.success && link.data) {
+            link.data.click();
+            return;
+        }
+    }
+    location.assign("/");
+}
+
+function openModelMenu(): void {
+    const root = selectOne(LOCATORS.QUERY_BAR.root);
+    const button = selectOne(LOCATORS.QUERY_BAR.modelButton, root.success && root.data ? root.data : document);
+    if (!button.success || !button.data) {
+        showToast("Model selector not found on this page", "error");
+        return;
+    }
+    press(button.data);
+}
+
+async function togglePlugin(plugin: IPlugin): Promise<void> {
+    const manager = getPluginManager();
+    if (!manager) {
+        showToast("Plugin manager is not running", "error");
+        return;
+    }
+    const enable = !isPluginEnabled(plugin);
+    const result = enable ? await manager.enablePlugin(plugin.id) : await manager.disablePlugin(plugin.id);
+    if (!result.success) {
+        showToast(result.error.message, "error");
+        return;
+    }
+    const action = enable ? "Enabled" : "Disabled";
+    showToast(plugin.requiresRestart ? `${action} ${plugin.name}, reload to apply` : `${action} ${plugin.name}`, "success");
+}
+
+const togglePluginCommand = (plugin: IPlugin): PluginCommand => ({
+    id: `toggle-plugin:${plugin.id}`,
+    title: `Toggle ${plugin.name}`,
+    get description() {
+        return `${isPluginEnabled(plugin) ? "Enabled" : "Disabled"}. ${plugin.description}`;
+    },
+    keywords: ["plugin", "enable", "disable", ...plugin.tags],
+    run: () => togglePlugin(plugin),
+});
+
+/**
+ * Commands Grokness provides regardless of which plugins are enabled.
+ */
+export function getBuiltinCommands(): PluginCommand[] {
+    return [
+        {
+            id: "open-settings",
+            title: "Open Grokness settings",
+            keywords: ["preferences", "plugins", "options"],
+            run: openGroknessSettings,
+        },
+        {
+            id: "new-chat",
+            title: "New chat",
+            keywords: ["conversation", "home", "start"],
+            run: newChat,
+        },
+        {
+            id: "switch-model",
+            title: "Switch model",
+            keywords: ["grok", "model", "select"],
+            run: openModelMenu,
+            when: () => {
+                const root = selectOne(LOCATORS.QUERY_BAR.root);
+                return root.success && !!root.data;
+            },
+        },
+        ...allPlugins
+            .filter(plugin => !plugin.required && !plugin.hidden && plugin.visible)
+            .map(togglePluginCommand),
+    ];
+}
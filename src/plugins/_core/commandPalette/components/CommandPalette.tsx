@@ -0,0 +1,145 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Badge } from "@components/Badge";
+import { InputField } from "@components/InputField";
+import { Modal } from "@components/Modal";
+import { useRoute } from "@hooks/useRoute";
+import { type CommandMatch, type RegisteredCommand, runCommand, searchCommands } from "@utils/commands";
+import { onEvent } from "@utils/events";
+import { plugins as allPlugins } from "@utils/types";
+import clsx from "clsx";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+const MAX_RESULTS = 50;
+
+const sourceLabel = (command: RegisteredCommand): string => {
+    const plugin = allPlugins.find(p => p.id === command.pluginId);
+    return plugin && !plugin.required ? plugin.name : "Grokness";
+};
+
+const CommandRow: React.FC<{
+    match: CommandMatch;
+    selected: boolean;
+    onSelect: () => void;
+    onHover: () => void;
+}> = ({ match, selected, onSelect, onHover }) => {
+    const { command } = match;
+    const ref = useRef<HTMLButtonElement>(null);
+
+    useEffect(() => {
+        if (selected) {
+            ref.current?.scrollIntoView({ block: "nearest" });
+        }
+    }, [selected]);
+
+    return (
+        <button
+            ref={ref}
+            type="button"
+            role="option"
+            aria-selected={selected}
+            tabIndex={-1}
+            onClick={onSelect}
+            onMouseMove={onHover}
+            className={clsx(
+                "flex w-full items-center gap-3 rounded-xl px-3 py-2 text-left",
+                selected ? "bg-button-ghost-hover text-primary" : "text-secondary"
+            )}
+        >
+            <div className="flex min-w-0 flex-1 flex-col">
+                <span className="truncate text-sm font-medium text-primary">{command.title}</span>
+                {command.description && <span className="truncate text-xs text-secondary">{command.description}</span>}
+            </div>
+            <Badge variant="soft">{sourceLabel(command)}</Badge>
+        </button>
+    );
+};
+
+/**
+ * Fuzzy-searchable list of every registered command, opened through `openCommandPalette`.
+ */
+export const CommandPalette: React.FC = () => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [query, setQuery] = useState("");
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const [revision, setRevision] = useState(0);
+    const inputRef = useRef<HTMLInputElement>(null);
+    // Commands can be page-specific through `when`, so re-filter after navigating
+    const route = useRoute();
+
+    useEffect(() => onEvent("grokness-command-palette", ({ open }) => {
+        setIsOpen(open);
+        if (open) {
+            setQuery("");
+            setSelectedIndex(0);
+        }
+    }), []);
+    useEffect(() => onEvent("grokness-commands-updated", () => setRevision(r => r + 1)), []);
+
+    const matches = useMemo(
+        () => (isOpen ? searchCommands(query).slice(0, MAX_RESULTS) : []),
+        [isOpen, query, revision, route]
+    );
+
+    useEffect(() => setSelectedIndex(0), [query]);
+
+    const close = useCallback(() => setIsOpen(false), []);
+
+    const run = useCallback((match: CommandMatch | undefined) => {
+        if (!match) {
+            return;
+        }
+        setIsOpen(false);
+        void runCommand(match.command);
+    }, []);
+
+    const onKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+            e.preventDefault();
+            const step = e.key === "ArrowDown" ? 1 : -1;
+            setSelectedIndex(i => (matches.length === 0 ? 0 : (i + step + matches.length) % matches.length));
+        } else if (e.key === "Enter") {
+            e.preventDefault();
+            run(matches[selectedIndex]);
+        }
+    };
+
+    return (
+        <Modal
+            isOpen={isOpen}
+            onClose={close}
+            ariaLabel="Command palette"
+            maxWidth="max-w-[560px]"
+            className="grokness-command-palette"
+            initialFocusRef={inputRef}
+        >
+            <div className="flex flex-col gap-2" onKeyDown={onKeyDown}>
+                <InputField
+                    type="search"
+                    value={query}
+                    onChange={value => setQuery(String(value))}
+                    placeholder="Type a command..."
+                    iconName="Command"
+                    inputRef={inputRef}
+                />
+                <div role="listbox" aria-label="Commands" className="flex flex-col gap-0.5">
+                    {matches.length === 0 ? (
+                        <span className="px-3 py-6 text-center text-sm text-secondary">No matching commands</span>
+                    ) : matches.map((match, index) => (
+                        <CommandRow
+                            key={match.command.id}
+                            match={match}
+                            selected={index === selectedIndex}
+                            onSelect={() => run(match)}
+                            onHover={() => setSelectedIndex(index)}
+                        />
+                    ))}
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,46 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { getBuiltinCommands } from "@plugins/_core/commandPalette/builtins";
+import { CommandPalette } from "@plugins/_core/commandPalette/components/CommandPalette";
+import styles from "@plugins/_core/commandPalette/styles.css?raw";
+import { openCommandPalette } from "@utils/commands";
+import { Devs } from "@utils/constants";
+import { renderIntoPortal } from "@utils/reactRoot";
+import definePlugin, { definePluginSettings } from "@utils/types";
+
+const settings = definePluginSettings({
+    keybind: {
+        type: "keybind",
+        displayName: "Shortcut",
+        description: "Opens the command palette. Ctrl also matches Cmd on macOS.",
+        default: "Ctrl+K",
+        scope: "global",
+    },
+});
+
+export default definePlugin({
+    name: "Command Palette",
+    description: "Search and run commands from Grokness and its plugins with a keyboard shortcut.",
+    authors: [Devs.Prism],
+    required: true,
+    hidden: true,
+    category: "utility",
+    tags: ["commands", "keyboard", "core"],
+    settings,
+    styles,
+    start(ctx) {
+        getBuiltinCommands().forEach(command => ctx.registerCommand(command));
+
+        const container = document.createElement("div");
+        container.setAttribute("data-grokness-command-palette", "");
+        document.body.appendChild(container);
+        ctx.disposables.add(() => container.remove());
+        ctx.disposables.add(renderIntoPortal({ pluginId: ctx.pluginId, container, target: document.body, component: CommandPalette }));
+
+        ctx.onKeybind("keybind", openCommandPalette);
+    },
+});
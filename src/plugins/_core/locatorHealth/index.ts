@@ -0,0 +1,22 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Devs } from "@utils/constants";
+import { startLocatorHealthMonitor } from "@utils/locatorHealth";
+import definePlugin from "@utils/types";
+
+export default definePlugin({
+    name: "Locator Health",
+    description: "Tracks which grok.com locators still match and flags plugins that depend on broken ones.",
+    authors: [Devs.Prism],
+    required: true,
+    hidden: true,
+    category: "utility",
+    tags: ["locators", "diagnostics", "core"],
+    start(ctx) {
+        ctx.disposables.add(startLocatorHealthMonitor());
+    },
+});
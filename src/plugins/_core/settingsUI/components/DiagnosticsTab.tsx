@@ -0,0 +1,240 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Badge } from "@components/Badge";
+import { Button } from "@components/Button";
+import { Card } from "@components/Card";
+import { Grid } from "@components/Grid";
+import { Subheader } from "@components/Subheader";
+import { useLocatorHealth } from "@plugins/_core/settingsUI/hooks/useLocatorHealth";
+import { checkLocators, type LocatorHealth, type LocatorStatus } from "@utils/locatorHealth";
+import { Logger } from "@utils/logger";
+import { mutationScheduler } from "@utils/mutationScheduler";
+import {
+    getPluginManager,
+    onPluginStateChanged,
+    type PluginDiagnostics,
+    pluginHelper,
+    type PluginLoadState,
+    type PluginManagerDiagnostics,
+    plugins as allPlugins,
+} from "@utils/types";
+import React, { useCallback, useEffect, useState } from "react";
+
+const logger = new Logger("Diagnostics", "#8caaee");
+
+const REFRESH_INTERVAL_MS = 2000;
+
+const STATE_COLORS: Record<PluginLoadState, "default" | "info" | "success" | "warning" | "danger"> = {
+    pending: "default",
+    loading: "info",
+    loaded: "success",
+    failed: "danger",
+    quarantined: "warning",
+    disabled: "default",
+};
+
+const BREAKER_COLORS = {
+    closed: "success",
+    "half-open": "warning",
+    open: "danger",
+} as const;
+
+const LOCATOR_COLORS: Record<LocatorStatus, "default" | "success" | "danger"> = {
+    unknown: "default",
+    healthy: "success",
+    broken: "danger",
+};
+
+const formatTime = (timestamp?: number): string => (timestamp ? new Date(timestamp).toLocaleTimeString() : "—");
+
+const formatBytes = (bytes: number): string => (bytes > 0 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : "n/a");
+
+const Stat: React.FC<{ label: string; value: React.ReactNode; }> = ({ label, value }) => (
+    <Card className="flex flex-col gap-1 p-3">
+        <span className="text-xs text-secondary">{label}</span>
+        <span className="text-sm font-medium text-primary">{value}</span>
+    </Card>
+);
+
+const PluginRow: React.FC<{
+    info: PluginDiagnostics;
+    onRetry: (pluginId: string) => void;
+    onResetBreaker: (pluginId: string) => void;
+}> = ({ info, onRetry, onResetBreaker }) => {
+    const plugin = allPlugins.find(p => p.id === info.pluginId);
+    const stats = pluginHelper.getPluginStats(info.pluginId);
+    const { circuitBreaker } = info;
+    const canRetry = info.state === "failed" || info.state === "quarantined";
+
+    return (
+        <Card className="flex flex-col gap-2 p-3 w-full">
+            <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-primary truncate">{plugin?.name ?? info.pluginId}</span>
+                <Badge variant="soft" color={STATE_COLORS[info.state]} size="xs">{info.state}</Badge>
+                <div className="ml-auto flex gap-2">
+                    {circuitBreaker.failureCount > 0 && (
+                        <Button size="sm" variant="ghost" onClick={() => onResetBreaker(info.pluginId)}>
+                            Reset breaker
+                        </Button>
+                    )}
+                    {canRetry && (
+                        <Button size="sm" variant="outline" color="warning" onClick={() => onRetry(info.pluginId)}>
+                            Retry
+                        </Button>
+                    )}
+                </div>
+            </div>
+            <div className="grid grid-cols-3 gap-x-4 gap-y-1 text-xs text-secondary">
+                <span>Started: {formatTime(info.startedAt)}</span>
+                <span>Load time: {info.loadDurationMs != null ? `${info.loadDurationMs}ms` : "—"}</span>
+                <span>Retries: {info.retryCount}</span>
+                <span>UI patches: {stats.uiPatches}</span>
+                <span>Mounts: {stats.mounts}</span>
+                <span>Stylesheet: {stats.stylesheet ?? "none"}</span>
+                <span className="col-span-3 flex items-center gap-1">
+                    Circuit breaker:
+                    <Badge variant="soft" color={BREAKER_COLORS[circuitBreaker.state]} size="xs">{circuitBreaker.state}</Badge>
+                    {circuitBreaker.failureCount}/{circuitBreaker.threshold} failures
+                    {circuitBreaker.lastFailureTime > 0 && `, last at ${formatTime(circuitBreaker.lastFailureTime)}`}
+                </span>
+            </div>
+            {info.lastError && (
+                <div className="text-xs text-red-400 break-words">{info.lastError}</div>
+            )}
+        </Card>
+    );
+};
+
+const LocatorRow: React.FC<{ locator: LocatorHealth; }> = ({ locator }) => {
+    const lastMatch = [...locator.history].reverse().find(s => s.matches > 0);
+    const dependents = locator.dependents.map(id => allPlugins.find(p => p.id === id)?.name ?? id);
+
+    return (
+        <Card className="flex flex-col gap-1 p-3 w-full">
+            <div className="flex items-center gap-2">
+                <span className="text-sm font-mono text-primary truncate">{locator.path}</span>
+                <Badge variant="soft" color={LOCATOR_COLORS[locator.status]} size="xs">{locator.status}</Badge>
+            </div>
+            <div className="grid grid-cols-3 gap-x-4 text-xs text-secondary">
+                <span>Last matched: {formatTime(lastMatch?.at)}</span>
+                <span>Strategy: {lastMatch?.strategy ?? "—"}</span>
+                <span className="truncate">Required by: {dependents.length > 0 ? dependents.join(", ") : "—"}</span>
+            </div>
+        </Card>
+    );
+};
+
+/**
+ * Settings tab showing live plugin manager health: load states, failures, mounts and circuit breakers.
+ */
+export const DiagnosticsTab: React.FC = () => {
+    const [diagnostics, setDiagnostics] = useState<PluginManagerDiagnostics | null>(() => getPluginManager()?.getDiagnostics() ?? null);
+
+    const refresh = useCallback(() => setDiagnostics(getPluginManager()?.getDiagnostics() ?? null), []);
+
+    useEffect(() => {
+        const off = onPluginStateChanged(refresh);
+        const interval = window.setInterval(refresh, REFRESH_INTERVAL_MS);
+        return () => {
+            off();
+            clearInterval(interval);
+        };
+    }, [refresh]);
+
+    const locatorHealth = useLocatorHealth();
+
+    const handleRetry = useCallback(async (pluginId: string) => {
+        const result = await getPluginManager()?.retryPlugin(pluginId);
+        if (result && !result.success) {
+            logger.error(`Retry of ${pluginId} failed:`, result.error);
+        }
+        refresh();
+    }, [refresh]);
+
+    const handleResetBreaker = useCallback((pluginId: string) => {
+        getPluginManager()?.resetCircuitBreaker(pluginId);
+        refresh();
+    }, [refresh]);
+
+    if (!diagnostics) {
+        return (
+            <div className="px-3 text-sm text-secondary">The plugin manager is not running yet.</div>
+        );
+    }
+
+    const rows = [...diagnostics.plugins]
+        .filter(p => p.state !== "disabled" || p.lastError)
+        .sort((a, b) => Number(b.lastError != null) - Number(a.lastError != null) || a.pluginId.localeCompare(b.pluginId));
+
+    const observerStats = mutationScheduler.getStats().filter(s => s.subscriptions > 0 || s.dispatches > 0);
+
+    // Only required locators are listed when healthy, to keep the section short
+    const locators = locatorHealth.locators
+        .filter(l => l.status === "broken" || l.dependents.length > 0)
+        .sort((a, b) => Number(b.status === "broken") - Number(a.status === "broken") || a.path.localeCompare(b.path));
+
+    return (
+        <div className="flex flex-col w-full gap-6 px-3">
+            <div>
+                <Subheader>Overview</Subheader>
+                <Grid cols={4} gap="md">
+                    <Stat label="Loaded" value={diagnostics.pluginsLoaded} />
+                    <Stat label="Failed" value={diagnostics.pluginsFailed} />
+                    <Stat label="Total load time" value={`${diagnostics.totalLoadTime}ms`} />
+                    <Stat label="Memory" value={formatBytes(diagnostics.memoryUsage)} />
+                </Grid>
+            </div>
+            <div>
+                <Subheader>Plugins</Subheader>
+                <div className="flex flex-col gap-2">
+                    {rows.map(info => (
+                        <PluginRow key={info.pluginId} info={info} onRetry={handleRetry} onResetBreaker={handleResetBreaker} />
+                    ))}
+                </div>
+            </div>
+            <div>
+                <Subheader>Observers</Subheader>
+                <Card className="p-3 w-full">
+                    <div className="grid grid-cols-6 gap-x-4 gap-y-1 text-xs text-secondary">
+                        <span className="col-span-2 font-medium text-primary">Subscriber</span>
+                        <span className="font-medium text-primary">Dispatches</span>
+                        <span className="font-medium text-primary">Skipped</span>
+                        <span className="font-medium text-primary">Total</span>
+                        <span className="font-medium text-primary">Slowest</span>
+                        {observerStats.map(stat => (
+                            <React.Fragment key={stat.name}>
+                                <span className="col-span-2 truncate" title={stat.name}>
+                                    {stat.name}{stat.subscriptions > 1 && ` ×${stat.subscriptions}`}
+                                </span>
+                                <span>{stat.dispatches}</span>
+                                <span>{stat.skipped}</span>
+                                <span>{stat.totalMs.toFixed(1)}ms</span>
+                                <span>{stat.maxMs.toFixed(1)}ms</span>
+                            </React.Fragment>
+                        ))}
+                    </div>
+                </Card>
+            </div>
+            <div>
+                <div className="flex items-center justify-between">
+                    <Subheader>Locators</Subheader>
+                    <Button size="sm" variant="outline" icon="RefreshCw" onClick={() => checkLocators()}>
+                        Check now
+                    </Button>
+                </div>
+                <div className="text-xs text-secondary mb-2">
+                    Last checked: {formatTime(locatorHealth.checkedAt ?? undefined)}
+                </div>
+                <div className="flex flex-col gap-2">
+                    {locators.map(locator => (
+                        <LocatorRow key={locator.path} locator={locator} />
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,92 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Button } from "@components/Button";
+import { findKeybindConflicts, formatKeybind, suspendKeybinds } from "@utils/keybinds";
+import clsx from "clsx";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+
+interface KeybindRecorderProps {
+    pluginId: string;
+    settingKey: string;
+    value: string;
+    defaultValue?: string;
+    disabled?: boolean;
+    labelId: string;
+    onChange: (value: string) => void;
+}
+
+/**
+ * Key-capture control for `keybind` settings. Escape cancels recording, Backspace clears the binding.
+ */
+export const KeybindRecorder: React.FC<KeybindRecorderProps> = ({ pluginId, settingKey, value, defaultValue, disabled, labelId, onChange }) => {
+    const [recording, setRecording] = useState(false);
+    const onChangeRef = useRef(onChange);
+    onChangeRef.current = onChange;
+
+    useEffect(() => {
+        if (!recording) {
+            return;
+        }
+        const resume = suspendKeybinds();
+        const onKeyDown = (e: KeyboardEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.key === "Escape") {
+                setRecording(false);
+                return;
+            }
+            if (e.key === "Backspace" && !e.ctrlKey && !e.altKey && !e.shiftKey && !e.metaKey) {
+                onChangeRef.current("");
+                setRecording(false);
+                return;
+            }
+            const keybind = formatKeybind(e);
+            if (keybind) {
+                onChangeRef.current(keybind);
+                setRecording(false);
+            }
+        };
+        window.addEventListener("keydown", onKeyDown, true);
+        return () => {
+            window.removeEventListener("keydown", onKeyDown, true);
+            resume();
+        };
+    }, [recording]);
+
+    const conflicts = useMemo(() => findKeybindConflicts(value, { pluginId, settingKey }), [value, pluginId, settingKey]);
+
+    return (
+        <div className="flex flex-col gap-1">
+            <div className="flex items-center gap-2">
+                <button
+                    type="button"
+                    aria-labelledby={labelId}
+                    aria-pressed={recording}
+                    disabled={disabled}
+                    onClick={() => setRecording(r => !r)}
+                    onBlur={() => setRecording(false)}
+                    className={clsx(
+                        "h-10 flex-1 px-3.5 rounded-xl border text-sm text-left font-mono transition-colors duration-200",
+                        recording ? "border-primary bg-button-ghost-hover text-primary" : "border-border-l1 bg-surface-l1 text-primary"
+                    )}
+                >
+                    {recording ? "Press a key combination..." : value || <span className="text-secondary font-sans">Not set</span>}
+                </button>
+                {defaultValue !== undefined && value !== defaultValue && (
+                    <Button size="sm" variant="ghost" disabled={disabled} onClick={() => onChange(defaultValue)}>
+                        Reset
+                    </Button>
+                )}
+            </div>
+            {conflicts.length > 0 && (
+                <p className="text-xs text-yellow-400">
+                    Also used by {conflicts.map(c => `${c.source} (${c.label})`).join(", ")}
+                </p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,94 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Button } from "@components/Button";
+import { DropdownMenu } from "@components/DropdownMenu";
+import { InputField } from "@components/InputField";
+import { Subheader } from "@components/Subheader";
+import {
+    deleteProfile,
+    getProfiles,
+    onProfilesChanged,
+    saveProfile,
+    switchProfile,
+} from "@utils/profiles";
+import { type KeybindOption, useSetting } from "@utils/types";
+import React, { useEffect, useMemo, useState } from "react";
+
+/**
+ * Dropdown to switch between saved settings profiles, plus controls to save and delete them.
+ */
+export const ProfileSwitcher: React.FC = () => {
+    const [state, setState] = useState(getProfiles);
+    const [draftName, setDraftName] = useState("");
+    const [switching, setSwitching] = useState(false);
+    const [cycleKeybind] = useSetting<{ cycleProfile: KeybindOption; }, "cycleProfile">("settings", "cycleProfile");
+
+    useEffect(() => onProfilesChanged(setState), []);
+
+    const options = useMemo(
+        () => state.profiles.map(p => ({ label: p.name, value: p.name })),
+        [state.profiles]
+    );
+
+    const handleSwitch = async (name: string) => {
+        setSwitching(true);
+        await switchProfile(name);
+        setSwitching(false);
+    };
+
+    const handleSave = () => {
+        const name = draftName.trim() || state.active;
+        if (name) {
+            saveProfile(name);
+            setDraftName("");
+        }
+    };
+
+    return (
+        <div className="w-full">
+            <Subheader>Profiles</Subheader>
+            <div className="flex items-center gap-3 py-2">
+                <DropdownMenu
+                    options={options}
+                    value={state.active ?? ""}
+                    onChange={name => void handleSwitch(name)}
+                    placeholder={options.length > 0 ? "Select a profile..." : "No saved profiles"}
+                    className="w-48"
+                    width="w-48"
+                />
+                {state.active && (
+                    <Button
+                        icon="Trash2"
+                        size="icon"
+                        variant="ghost"
+                        iconSize={16}
+                        disabled={switching}
+                        onClick={() => deleteProfile(state.active!)}
+                        aria-label={`Delete profile ${state.active}`}
+                        className="h-8 w-8 text-secondary"
+                    />
+                )}
+                <div className="flex-1" onKeyDown={e => e.key === "Enter" && handleSave()}>
+                    <InputField
+                        type="text"
+                        value={draftName}
+                        onChange={v => setDraftName(String(v))}
+                        placeholder={state.active ? `Update "${state.active}" or enter a new name` : "Profile name, e.g. Work"}
+                    />
+                </div>
+                <Button variant="outline" size="sm" icon="Save" disabled={switching || !(draftName.trim() || state.active)} onClick={handleSave}>
+                    Save
+                </Button>
+            </div>
+            {cycleKeybind && (
+                <p className="text-xs text-secondary">
+                    Press {cycleKeybind} anywhere to cycle through profiles.
+                </p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,227 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Button } from "@components/Button";
+import { InputField } from "@components/InputField";
+import { Slider } from "@components/Slider";
+import { Switch } from "@components/Switch";
+import { KeybindRecorder } from "@plugins/_core/settingsUI/components/KeybindRecorder";
+import type { PluginOption } from "@utils/types";
+import clsx from "clsx";
+import React, { useState } from "react";
+
+interface SettingControlProps {
+    pluginId: string;
+    settingKey: string;
+    option: PluginOption;
+    value: unknown;
+    error?: string;
+    onChange: (key: string, value: unknown) => void;
+}
+
+const SettingLabel: React.FC<{ id: string; option: PluginOption; settingKey: string; }> = ({ id, option, settingKey }) => (
+    <div className="flex flex-col flex-1">
+        <label id={id} className="text-sm font-medium text-primary">
+            {option.displayName || settingKey}
+        </label>
+        {option.description && (
+            <p className="text-xs text-secondary mt-1">{option.description}</p>
+        )}
+    </div>
+);
+
+const ListControl: React.FC<{
+    items: readonly string[];
+    placeholder?: string;
+    disabled?: boolean;
+    onChange: (items: string[]) => void;
+}> = ({ items, placeholder, disabled, onChange }) => {
+    const [draft, setDraft] = useState("");
+
+    const add = () => {
+        const entry = draft.trim();
+        if (entry) {
+            onChange([...items, entry]);
+            setDraft("");
+        }
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            {items.map((item, index) => (
+                <div key={`${item}-${index}`} className="flex items-center gap-2">
+                    <span className="flex-1 text-sm text-primary truncate">{item}</span>
+                    <Button
+                        icon="X"
+                        size="icon"
+                        variant="ghost"
+                        iconSize={14}
+                        disabled={disabled}
+                        onClick={() => onChange(items.filter((_, i) => i !== index))}
+                        aria-label={`Remove ${item}`}
+                        className="h-7 w-7"
+                    />
+                </div>
+            ))}
+            <div className="flex items-center gap-2" onKeyDown={e => e.key === "Enter" && add()}>
+                <InputField type="text" value={draft} placeholder={placeholder} onChange={v => setDraft(String(v))} />
+                <Button size="sm" variant="outline" disabled={disabled || !draft.trim()} onClick={add}>
+                    Add
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Renders the editor for a single plugin setting, picked by the option's type.
+ */
+export const SettingControl: React.FC<SettingControlProps> = ({ pluginId, settingKey, option, value, error, onChange }) => {
+    const labelId = `setting-label-${pluginId}-${settingKey}`;
+    const update = (next: unknown) => onChange(settingKey, next);
+
+    if (option.hidden) {
+        return null;
+    }
+
+    const renderInput = (): React.ReactNode => {
+        switch (option.type) {
+            case "string":
+                return (
+                    <InputField
+                        type="text"
+                        value={(value as string | undefined) ?? ""}
+                        placeholder={option.placeholder}
+                        onChange={v => update(String(v))}
+                    />
+                );
+            case "keybind":
+                return (
+                    <KeybindRecorder
+                        pluginId={pluginId}
+                        settingKey={settingKey}
+                        value={typeof value === "string" ? value : ""}
+                        defaultValue={option.default}
+                        disabled={option.disabled}
+                        labelId={labelId}
+                        onChange={update}
+                    />
+                );
+            case "number":
+                return (
+                    <InputField
+                        type="number"
+                        value={(value as number | undefined) ?? 0}
+                        onChange={v => update(typeof v === "number" ? v : Number(v))}
+                    />
+                );
+            case "slider":
+                return (
+                    <div className="flex items-center gap-3">
+                        <Slider
+                            value={[(value as number | undefined) ?? option.min]}
+                            min={option.min}
+                            max={option.max}
+                            step={option.step ?? 1}
+                            onValueChange={([v]) => update(v)}
+                            aria-labelledby={labelId}
+                        />
+                        <div className="text-xs text-secondary min-w-[3rem] text-right">
+                            {value as number}
+                            {option.suffix}
+                        </div>
+                    </div>
+                );
+            case "select":
+                return (
+                    <InputField
+                        type="select"
+                        value={String(value ?? "")}
+                        onChange={v => update(option.options.find(o => String(o.value) === v)?.value ?? v)}
+                        options={option.options.map(o => ({ label: o.label, value: String(o.value) }))}
+                    />
+                );
+            case "multiSelect": {
+                const selected = Array.isArray(value) ? (value as readonly unknown[]) : [];
+                return (
+                    <div className="flex flex-wrap gap-2" role="group" aria-labelledby={labelId}>
+                        {option.options.map(o => {
+                            const isSelected = selected.includes(o.value);
+                            return (
+                                <Button
+                                    key={String(o.value)}
+                                    size="sm"
+                                    variant={isSelected ? "solid" : "outline"}
+                                    disabled={option.disabled}
+                                    aria-pressed={isSelected}
+                                    onClick={() => update(isSelected ? selected.filter(v => v !== o.value) : [...selected, o.value])}
+                                >
+                                    {o.label}
+                                </Button>
+                            );
+                        })}
+                    </div>
+                );
+            }
+            case "color":
+                return (
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="color"
+                            value={String(value ?? "#000000").slice(0, 7)}
+                            disabled={option.disabled}
+                            onChange={e => update(e.target.value)}
+                            aria-labelledby={labelId}
+                            className="h-10 w-12 rounded-lg border border-border-l1 bg-transparent cursor-pointer"
+                        />
+                        <InputField type="text" value={String(value ?? "")} onChange={v => update(String(v))} />
+                    </div>
+                );
+            case "list":
+                return (
+                    <ListControl
+                        items={Array.isArray(value) ? (value as string[]) : []}
+                        placeholder={option.placeholder}
+                        disabled={option.disabled}
+                        onChange={update}
+                    />
+                );
+            case "custom": {
+                const Component = option.component;
+                return Component ? <Component value={value} onChange={update} /> : null;
+            }
+            default:
+                return null;
+        }
+    };
+
+    if (option.type === "boolean") {
+        return (
+            <div className="flex flex-col gap-1">
+                <div className="flex justify-between items-center">
+                    <div className="pr-4 flex-1">
+                        <SettingLabel id={labelId} option={option} settingKey={settingKey} />
+                    </div>
+                    <Switch
+                        checked={Boolean(value)}
+                        disabled={option.disabled}
+                        onCheckedChange={update}
+                        aria-labelledby={labelId}
+                    />
+                </div>
+                {error && <p className="text-xs text-red-400">{error}</p>}
+            </div>
+        );
+    }
+
+    return (
+        <div className={clsx("flex flex-col gap-2", option.disabled && "opacity-60 pointer-events-none")}>
+            <SettingLabel id={labelId} option={option} settingKey={settingKey} />
+            {renderInput()}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+    );
+};
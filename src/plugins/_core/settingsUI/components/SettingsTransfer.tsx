@@ -0,0 +1,161 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Badge } from "@components/Badge";
+import { Button } from "@components/Button";
+import { Callout } from "@components/Callout";
+import { Modal } from "@components/Modal";
+import { Subheader } from "@components/Subheader";
+import {
+    applySettingsImport,
+    exportSettings,
+    planSettingsImport,
+    type SettingsChange,
+    type SettingsImportPlan,
+} from "@utils/settingsTransfer";
+import { plugins } from "@utils/types";
+import React, { useRef, useState } from "react";
+
+const formatValue = (value: unknown): string => {
+    if (value === undefined || value === null) {
+        return "unset";
+    }
+    const text = typeof value === "string" ? `"${value}"` : JSON.stringify(value);
+    return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+};
+
+const describeChange = (change: SettingsChange): string => {
+    if (change.kind === "storage") {
+        return `Storage: ${change.key}`;
+    }
+    const name = plugins.find(p => p.id === change.pluginId)?.name ?? change.pluginId;
+    return change.kind === "enabled" ? name : `${name}: ${change.key}`;
+};
+
+const ChangeRow: React.FC<{ change: SettingsChange; }> = ({ change }) => (
+    <div className="flex items-center gap-2 text-sm py-1">
+        <span className="flex-1 truncate text-primary">{describeChange(change)}</span>
+        {change.kind === "enabled" ? (
+            <Badge variant="soft" color={change.after ? "success" : "danger"} size="xs">
+                {change.after ? "Enable" : "Disable"}
+            </Badge>
+        ) : (
+            <span className="text-xs text-secondary whitespace-nowrap">
+                {formatValue(change.before)} → {formatValue(change.after)}
+            </span>
+        )}
+    </div>
+);
+
+/**
+ * Buttons to export the Grokness configuration to a JSON file and import one with a diff preview.
+ */
+export const SettingsTransfer: React.FC = () => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [plan, setPlan] = useState<SettingsImportPlan | null>(null);
+    const [status, setStatus] = useState<{ color: "green" | "red" | "amber"; title: string; detail?: string; } | null>(null);
+    const [applying, setApplying] = useState(false);
+
+    const handleExport = () => {
+        const json = JSON.stringify(exportSettings(), null, 4);
+        const url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+        const anchor = document.createElement("a");
+        anchor.href = url;
+        anchor.download = `grokness-settings-${new Date().toISOString().slice(0, 10)}.json`;
+        anchor.click();
+        URL.revokeObjectURL(url);
+        setStatus({ color: "green", title: "Settings exported" });
+    };
+
+    const handleFile = async (file: File) => {
+        const result = planSettingsImport(await file.text());
+        if (!result.success) {
+            setStatus({ color: "red", title: "Import failed", detail: result.error.message });
+            return;
+        }
+        setStatus(null);
+        setPlan(result.data);
+    };
+
+    const handleApply = async () => {
+        if (!plan) {
+            return;
+        }
+        setApplying(true);
+        const report = await applySettingsImport(plan);
+        setApplying(false);
+        setPlan(null);
+        setStatus({
+            color: report.failed.length > 0 ? "amber" : "green",
+            title: `Imported ${report.applied} change(s)${report.requiresRestart ? ", restart to finish applying" : ""}`,
+            detail: report.failed.length > 0 ? `Failed: ${report.failed.join("; ")}` : undefined,
+        });
+    };
+
+    return (
+        <div className="w-full">
+            <Subheader>Configuration</Subheader>
+            <div className="flex items-center gap-3 py-2">
+                <Button variant="outline" size="sm" icon="Download" onClick={handleExport}>
+                    Export settings
+                </Button>
+                <Button variant="outline" size="sm" icon="Upload" onClick={() => fileInputRef.current?.click()}>
+                    Import settings
+                </Button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={e => {
+                        const file = e.target.files?.[0];
+                        e.target.value = "";
+                        if (file) {
+                            void handleFile(file);
+                        }
+                    }}
+                />
+            </div>
+            {status && (
+                <Callout color={status.color} title={status.title} className="mt-2">
+                    {status.detail}
+                </Callout>
+            )}
+
+            <Modal
+                isOpen={plan !== null}
+                onClose={() => setPlan(null)}
+                title="Import settings"
+                description={plan && plan.changes.length > 0
+                    ? `${plan.changes.length} change(s) will be applied.`
+                    : "This file matches your current configuration."}
+                maxWidth="max-w-xl"
+                showCancel
+                footer={
+                    <Button
+                        onClick={() => void handleApply()}
+                        disabled={applying || !plan || plan.changes.length === 0}
+                    >
+                        {applying ? "Applying..." : "Apply"}
+                    </Button>
+                }
+            >
+                <div className="flex flex-col gap-3 w-full pr-6">
+                    {plan && plan.changes.length > 0 && (
+                        <div className="flex flex-col divide-y divide-border-l1">
+                            {plan.changes.map((change, i) => <ChangeRow key={i} change={change} />)}
+                        </div>
+                    )}
+                    {plan && plan.warnings.length > 0 && (
+                        <Callout color="amber" title={`${plan.warnings.length} entry(s) skipped`}>
+                            {plan.warnings.map(warning => <div key={warning}>{warning}</div>)}
+                        </Callout>
+                    )}
+                </div>
+            </Modal>
+        </div>
+    );
+};
@@ -0,0 +1,19 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { getLocatorHealth, type LocatorHealthReport, onLocatorHealthChanged } from "@utils/locatorHealth";
+import { useEffect, useState } from "react";
+
+/**
+ * Latest locator health report, updated after every check.
+ */
+export const useLocatorHealth = (): LocatorHealthReport => {
+    const [report, setReport] = useState<LocatorHealthReport>(getLocatorHealth);
+
+    useEffect(() => onLocatorHealthChanged(setReport), []);
+
+    return report;
+};
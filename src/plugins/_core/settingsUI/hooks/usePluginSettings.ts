@@ -25,7 +25,7 @@ const areSettingsEqual = (left: Record<string, unknown>, right: Record<string, u
 };
 
 /**
- * React hook to read and update a plugin's settings with restart tracking.
+ * React hook to read and update a plugin's settings with restart tracking and per-setting validation errors.
  *
  * @param plugin - Plugin whose settings should be managed
  * @param onRestartChange - Optional callback to inform the UI that a restart is required based on changes
@@ -44,9 +44,15 @@ export const usePluginSettings = (
 
     const [settings, setSettings] = useState<Record<string, unknown>>(() => ({ ...initialSettings }));
 
+    const [errors, setErrors] = useState<Record<string, string>>({});
+
     const handleSettingChange = useCallback(
         (key: string, value: unknown): void => {
-            setPluginSetting(plugin.id, key, value);
+            const result = setPluginSetting(plugin.id, key, value);
+            setErrors(previous => {
+                const { [key]: _, ...rest } = previous;
+                return result.success ? rest : { ...rest, [key]: result.error };
+            });
             setSettings(previous => {
                 const next = { ...previous, [key]: value };
                 if (onRestartChange && plugin.requiresRestart) {
@@ -77,5 +83,5 @@ export const usePluginSettings = (
         return () => window.removeEventListener("grok-settings-updated", listener as unknown as EventListener);
     }, [plugin.id, onRestartChange, plugin.requiresRestart, initialSettings]);
 
-    return { settings, handleSettingChange } as const;
+    return { settings, errors, handleSettingChange } as const;
 };
@@ -4,12 +4,28 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
-import { type IPlugin, plugins as allPlugins } from "@utils/types";
-import { useCallback, useMemo, useState } from "react";
+import { collectDependencies, collectDependents } from "@utils/dependencies";
+import { Logger } from "@utils/logger";
+import { persistentStorage } from "@utils/storage";
+import {
+    getPluginManager,
+    type IPlugin,
+    isPluginEnabled,
+    onPluginStateChanged,
+    type PluginLoadState,
+    plugins as allPlugins,
+} from "@utils/types";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 type FilterOption = "show_all" | "show_enabled" | "show_disabled";
 type RestartSource = "toggle" | "settings";
 
+const logger = new Logger("PluginCard", "#f5c2e7");
+
+const TOGGLE_DEBOUNCE_MS = 250;
+
+const enabledKey = (pluginId: string) => `plugin-enabled:${pluginId}`;
+
 export const useSettingsLogic = () => {
     const [searchText, setSearchText] = useState<string>("");
     const [filterOption, setFilterOption] = useState<FilterOption>("show_all");
@@ -17,10 +33,22 @@ export const useSettingsLogic = () => {
     const [isPluginDisabledById, setIsPluginDisabledById] = useState<Record<string, boolean>>(() => {
         const initial: Record<string, boolean> = {};
         for (const plugin of allPlugins) {
-            initial[plugin.id] = plugin.required ? false : !Boolean(localStorage.getItem(`plugin-enabled:${plugin.id}`));
+            initial[plugin.id] = !isPluginEnabled(plugin);
         }
         return initial;
     });
+    const [pluginStateById, setPluginStateById] = useState<Record<string, PluginLoadState>>(() => {
+        const manager = getPluginManager();
+        return Object.fromEntries(allPlugins.map(p => [p.id, manager?.getPluginState(p.id) ?? "pending"]));
+    });
+    const [pluginErrorById, setPluginErrorById] = useState<Record<string, string | undefined>>(() => {
+        const diagnostics = getPluginManager()?.getDiagnostics();
+        return Object.fromEntries(diagnostics?.plugins.map(p => [p.pluginId, p.lastError]) ?? []);
+    });
+    const initialEnabledById = useRef<Record<string, boolean>>(
+        Object.fromEntries(allPlugins.map(p => [p.id, isPluginEnabled(p)]))
+    );
+    const toggleTimers = useRef(new Map<string, number>());
 
     const handleRestartStatusUpdate = useCallback((pluginName: string, requiresRestart: boolean, source: RestartSource) => {
         setRestartSourcesByPlugin(previous => {
@@ -40,8 +68,120 @@ export const useSettingsLogic = () => {
         });
     }, []);
 
-    const handlePluginStatusToggle = useCallback((pluginName: string, isDisabled: boolean) => {
-        setIsPluginDisabledById(previous => ({ ...previous, [pluginName]: isDisabled }));
+    /**
+     * Start or stop the plugin on the live page through the plugin manager. Without a running
+     * manager, or for plugins that require one, the change only takes effect after a restart.
+     */
+    const commitPluginToggle = useCallback(async (plugin: IPlugin, enabled: boolean, affected: readonly IPlugin[]) => {
+        const manager = getPluginManager();
+        if (manager) {
+            const result = enabled ? await manager.enablePlugin(plugin.id) : await manager.disablePlugin(plugin.id);
+            if (!result.success) {
+                logger.error(`Error toggling plugin "${plugin.name}":`, result.error);
+                setIsPluginDisabledById(previous => {
+                    const next = { ...previous };
+                    for (const p of affected) {
+                        next[p.id] = !isPluginEnabled(p);
+                    }
+                    return next;
+                });
+                return;
+            }
+        } else {
+            for (const p of affected) {
+                persistentStorage.setItem(enabledKey(p.id), enabled ? "1" : "0");
+            }
+        }
+
+        for (const p of affected) {
+            if (!manager || p.requiresRestart) {
+                handleRestartStatusUpdate(p.name, enabled !== initialEnabledById.current[p.id], "toggle");
+            }
+        }
+    }, [handleRestartStatusUpdate]);
+
+    const applyPluginToggle = useCallback((plugin: IPlugin, enabled: boolean, affected: readonly IPlugin[]) => {
+        const timers = toggleTimers.current;
+        const pending = timers.get(plugin.id);
+        if (pending) {
+            clearTimeout(pending);
+        }
+
+        timers.set(plugin.id, window.setTimeout(() => {
+            timers.delete(plugin.id);
+            commitPluginToggle(plugin, enabled, affected);
+        }, TOGGLE_DEBOUNCE_MS));
+    }, [commitPluginToggle]);
+
+    const enabledDependentsById = useMemo<Record<string, IPlugin[]>>(() => {
+        const map: Record<string, IPlugin[]> = {};
+        for (const plugin of allPlugins) {
+            map[plugin.id] = collectDependents(plugin.id, allPlugins).filter(p => !isPluginDisabledById[p.id]);
+        }
+        return map;
+    }, [isPluginDisabledById]);
+
+    /**
+     * Enabling a plugin also enables everything it depends on; disabling one that
+     * enabled plugins still rely on is refused.
+     */
+    const handlePluginStatusToggle = useCallback((pluginId: string, enabled: boolean) => {
+        const plugin = allPlugins.find(p => p.id === pluginId);
+        if (!plugin || plugin.required) {
+            return;
+        }
+
+        if (!enabled) {
+            const dependents = enabledDependentsById[plugin.id] ?? [];
+            if (dependents.length > 0) {
+                logger.warn(`Cannot disable ${plugin.name}, required by: ${dependents.map(p => p.name).join(", ")}`);
+                return;
+            }
+            setIsPluginDisabledById(previous => ({ ...previous, [plugin.id]: true }));
+            applyPluginToggle(plugin, false, [plugin]);
+            return;
+        }
+
+        const toEnable = [
+            ...collectDependencies(plugin.id, allPlugins).filter(p => !p.required && isPluginDisabledById[p.id]),
+            plugin,
+        ];
+        setIsPluginDisabledById(previous => {
+            const next = { ...previous };
+            for (const p of toEnable) {
+                next[p.id] = false;
+            }
+            return next;
+        });
+        applyPluginToggle(plugin, true, toEnable);
+    }, [enabledDependentsById, isPluginDisabledById, applyPluginToggle]);
+
+    useEffect(() => {
+        const storageListener = (e: StorageEvent) => {
+            const plugin = allPlugins.find(p => e.key === enabledKey(p.id));
+            if (plugin && !plugin.required) {
+                setIsPluginDisabledById(previous => ({ ...previous, [plugin.id]: !isPluginEnabled(plugin) }));
+            }
+        };
+        window.addEventListener("storage", storageListener);
+        return () => window.removeEventListener("storage", storageListener);
+    }, []);
+
+    useEffect(() => onPluginStateChanged(({ pluginId, state, error }) => {
+        setPluginStateById(previous => ({ ...previous, [pluginId]: state }));
+        setPluginErrorById(previous => ({ ...previous, [pluginId]: error }));
+    }), []);
+
+    const handlePluginRetry = useCallback(async (pluginId: string) => {
+        const result = await getPluginManager()?.retryPlugin(pluginId);
+        if (result && !result.success) {
+            logger.error(`Retrying plugin "${pluginId}" failed:`, result.error);
+        }
+    }, []);
+
+    useEffect(() => {
+        const timers = toggleTimers.current;
+        return () => timers.forEach(timer => clearTimeout(timer));
     }, []);
 
     const handleFilterOptionChange = useCallback((option: FilterOption) => setFilterOption(option), []);
@@ -87,7 +227,12 @@ export const useSettingsLogic = () => {
         setFilterOption: handleFilterOptionChange,
         pendingChanges,
         sections,
+        isPluginDisabledById,
+        pluginStateById,
+        pluginErrorById,
+        enabledDependentsById,
         handleRestartChange: handleRestartStatusUpdate,
         handlePluginToggle: handlePluginStatusToggle,
+        handlePluginRetry,
     } as const;
 };
@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
+import { Badge } from "@components/Badge";
 import { Button } from "@components/Button";
 import { Callout } from "@components/Callout";
 import { Card } from "@components/Card";
@@ -13,28 +14,36 @@ import { Grid } from "@components/Grid";
 import { InputField } from "@components/InputField";
 import { Modal } from "@components/Modal";
 import { Separator } from "@components/Separator";
-import { Slider } from "@components/Slider";
 import { Subheader } from "@components/Subheader";
 import { Switch } from "@components/Switch";
 import { Panel, registerSettingsTab, SettingsTabsView, Tab, unregisterSettingsTab } from "@components/Tabs";
+import { DiagnosticsTab } from "@plugins/_core/settingsUI/components/DiagnosticsTab";
+import { ProfileSwitcher } from "@plugins/_core/settingsUI/components/ProfileSwitcher";
+import { SettingControl } from "@plugins/_core/settingsUI/components/SettingControl";
+import { SettingsTransfer } from "@plugins/_core/settingsUI/components/SettingsTransfer";
+import { useLocatorHealth } from "@plugins/_core/settingsUI/hooks/useLocatorHealth";
 import { usePluginSettings } from "@plugins/_core/settingsUI/hooks/usePluginSettings";
 import { useSettingsLogic } from "@plugins/_core/settingsUI/hooks/useSettingsLogic";
 import styles from "@plugins/_core/settingsUI/styles.css?raw";
 import { Devs } from "@utils/constants";
 import { selectOne } from "@utils/dom";
-import { LOCATORS } from "@utils/locators";
-import { Logger } from "@utils/logger";
-import type { InferOptionType, IPlugin, PluginOptionBase, PluginOptions } from "@utils/types";
-import definePlugin, { Patch } from "@utils/types";
+import { type LocatorPath, LOCATORS } from "@utils/locators";
+import { cycleProfile, PROFILE_CYCLE_KEYBIND } from "@utils/profiles";
+import type { IPlugin, PluginLoadState } from "@utils/types";
+import definePlugin, { definePluginSettings, Patch, plugins as allPlugins } from "@utils/types";
 import clsx from "clsx";
-import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import { createPortal } from "react-dom";
 
-const pluginCardLogger = new Logger("PluginCard", "#f5c2e7");
-
 interface PluginCardProps {
     plugin: IPlugin;
-    onToggle: (pluginName: string, isDisabled: boolean) => void;
+    isEnabled: boolean;
+    state: PluginLoadState;
+    error?: string;
+    enabledDependents: readonly IPlugin[];
+    degradedLocators: readonly LocatorPath[];
+    onToggle: (pluginId: string, enabled: boolean) => void;
+    onRetry: (pluginId: string) => void;
     onRestartChange: (
         pluginName: string,
         requiresRestart: boolean,
@@ -46,33 +55,35 @@ const CARD_HEIGHT = 120;
 
 const PluginCard: React.FC<PluginCardProps> = ({
     plugin,
+    isEnabled,
+    state,
+    error,
+    enabledDependents,
+    degradedLocators,
     onToggle,
+    onRetry,
     onRestartChange,
 }) => {
     const [showModal, setShowModal] = useState(false);
-    const { settings, handleSettingChange } = usePluginSettings(
+    const { settings, errors, handleSettingChange } = usePluginSettings(
         plugin,
         onRestartChange
     );
-    const debounceTimer = useRef<number | null>(null);
-
-    const pluginStorageKey = `plugin-enabled:${plugin.id}`;
-    const initialEnabled = useMemo(
-        () => !!localStorage.getItem(pluginStorageKey),
-        [pluginStorageKey]
-    );
-    const [isEnabled, setIsEnabled] = useState(initialEnabled);
 
     const hasSettings = Object.keys(plugin.options).length > 0;
 
     const sortedOptions = useMemo(() => {
         const typeOrder: Record<string, number> = {
             select: 0,
-            string: 1,
-            number: 2,
-            slider: 3,
-            custom: 4,
-            boolean: 5,
+            multiSelect: 1,
+            string: 2,
+            keybind: 3,
+            color: 4,
+            number: 5,
+            slider: 6,
+            list: 7,
+            custom: 8,
+            boolean: 9,
         };
         return Object.entries(plugin.options).sort(([, a], [, b]) => {
             const orderA = typeOrder[a.type] ?? 99;
@@ -81,245 +92,42 @@ const PluginCard: React.FC<PluginCardProps> = ({
         });
     }, [plugin.options]);
 
-    const handleToggleChange = useCallback(
-        (checked: boolean) => {
-            if (plugin.required) {
-                return;
-            }
-
-            setIsEnabled(checked);
-            onToggle?.(plugin.name, !checked);
-
-            if (debounceTimer.current) {
-                clearTimeout(debounceTimer.current);
-            }
-
-            debounceTimer.current = window.setTimeout(() => {
-                try {
-                    if (checked) {
-                        localStorage.setItem(pluginStorageKey, "1");
-                        plugin.start?.({
-                            storageKey: pluginStorageKey,
-                            pluginId: plugin.id,
-                            pluginName: plugin.name,
-                            startTime: Date.now(),
-                            settings: plugin.options,
-                        });
-                    } else {
-                        localStorage.removeItem(pluginStorageKey);
-                        plugin.stop?.({
-                            storageKey: pluginStorageKey,
-                            pluginId: plugin.id,
-                            pluginName: plugin.name,
-                            startTime: Date.now(),
-                            settings: plugin.options,
-                        });
-                    }
-                } catch (error) {
-                    pluginCardLogger.error(
-                        `Error toggling plugin "${plugin.name}":`,
-                        error
-                    );
-                }
-
-                if (onRestartChange && plugin.requiresRestart) {
-                    const requiresRestart = checked !== initialEnabled;
-                    onRestartChange(plugin.name, requiresRestart, "toggle");
-                }
-            }, 250);
-        },
-        [
-            plugin,
-            pluginStorageKey,
-            onToggle,
-            onRestartChange,
-            initialEnabled,
-        ]
+    const dependencies = useMemo(
+        () => plugin.dependencies.map(id => allPlugins.find(p => p.id === id)?.name ?? id),
+        [plugin.dependencies]
     );
+    const isLocked = plugin.required || (isEnabled && enabledDependents.length > 0);
+    const lockReason = plugin.required
+        ? "required"
+        : `required by ${enabledDependents.map(p => p.name).join(", ")}`;
 
-    useEffect(() => {
-        const storageListener = (e: StorageEvent) => {
-            if (e.key === pluginStorageKey && !plugin.required) {
-                setIsEnabled(!!e.newValue);
-            }
-        };
-        window.addEventListener("storage", storageListener);
-        return () => window.removeEventListener("storage", storageListener);
-    }, [pluginStorageKey, plugin.required]);
-
-    useEffect(() => {
-        if (plugin.required && !isEnabled) {
-            setIsEnabled(true);
-        }
-    }, [plugin.required, isEnabled]);
+    const handleToggleChange = useCallback(
+        (checked: boolean) => onToggle(plugin.id, checked),
+        [plugin.id, onToggle]
+    );
 
     const switchLabelId = useMemo(
         () => `plugin-switch-${plugin.id}`,
         [plugin.id]
     );
 
-    const handleSettingUpdate = useCallback(
-        <K extends keyof PluginOptions>(
-            key: K,
-            value: InferOptionType<PluginOptions[K]>
-        ) => {
-            handleSettingChange(key as string, value);
-        },
-        [handleSettingChange]
-    );
-
-    type SliderOption = PluginOptionBase & {
-        type: "slider";
-        min?: number;
-        max?: number;
-        step?: number;
-        suffix?: string;
-    };
-    const isSliderOption = (opt: PluginOptionBase): opt is SliderOption =>
-        opt.type === "slider";
-
-    const renderSettingControl = (
-        key: string,
-        option: PluginOptionBase,
-        currentValue: unknown
-    ) => {
-        const labelId = `setting-label-${plugin.id}-${key}`;
-
-        if (option.type === "boolean") {
-            return (
-                <div className="flex justify-between items-center">
-                    <div className="flex flex-col flex-1 pr-4">
-                        <label
-                            id={labelId}
-                            className="text-sm font-medium text-primary"
-                        >
-                            {option.displayName || key}
-                        </label>
-                        {option.description && (
-                            <p className="text-xs text-secondary mt-1">
-                                {option.description}
-                            </p>
-                        )}
-                    </div>
-                    <Switch
-                        checked={currentValue as boolean}
-                        onCheckedChange={checked =>
-                            handleSettingUpdate(key, checked)
-                        }
-                        aria-labelledby={labelId}
-                    />
-                </div>
-            );
-        }
-
-        if (
-            option.type === "string" ||
-            option.type === "number" ||
-            option.type === "select" ||
-            option.type === "slider"
-        ) {
-            const maxVal =
-                option.type === "number" &&
-                    typeof (option as { max?: number; }).max === "number"
-                    ? (option as { max?: number; }).max
-                    : undefined;
-            return (
-                <div className="flex flex-col gap-2">
-                    <div className="flex flex-col flex-1">
-                        <label
-                            id={labelId}
-                            className="text-sm font-medium text-primary"
-                        >
-                            {option.displayName || key}
-                        </label>
-                        {option.description && (
-                            <p className="text-xs text-secondary mt-1">
-                                {option.description}
-                            </p>
-                        )}
-                    </div>
-                    {isSliderOption(option) ? (
-                        <div className="flex items-center gap-3">
-                            <Slider
-                                value={[(currentValue as number) ?? 0]}
-                                min={
-                                    typeof option.min === "number"
-                                        ? option.min
-                                        : 0
-                                }
-                                max={
-                                    typeof option.max === "number"
-                                        ? option.max
-                                        : 100
-                                }
-                                step={
-                                    typeof option.step === "number"
-                                        ? option.step
-                                        : 1
-                                }
-                                onValueChange={([val]) =>
-                                    handleSettingUpdate(key, val)
-                                }
-                                aria-labelledby={labelId}
-                            />
-                            <div className="text-xs text-secondary min-w-[3rem] text-right">
-                                {currentValue as number}
-                                {option.suffix}
-                            </div>
-                        </div>
-                    ) : (
-                        (() => {
-                            const inputType: "text" | "number" | "select" =
-                                option.type === "string"
-                                    ? "text"
-                                    : (option.type as "number" | "select");
-                            return (
-                                <InputField
-                                    type={inputType}
-                                    value={currentValue as string | number}
-                                    onChange={value => {
-                                        if (option.type === "number") {
-                                            let newValue =
-                                                typeof value === "string"
-                                                    ? parseInt(value, 10) || 0
-                                                    : value;
-                                            if (
-                                                maxVal !== undefined &&
-                                                newValue > maxVal
-                                            ) {
-                                                newValue = maxVal;
-                                            }
-                                            handleSettingUpdate(key, newValue);
-                                        } else {
-                                            handleSettingUpdate(
-                                                key,
-                                                value as string
-                                            );
-                                        }
-                                    }}
-                                    options={
-                                        option.options?.map(opt => ({
-                                            label: opt.label,
-                                            value: opt.value as string,
-                                        })) ?? []
-                                    }
-                                />
-                            );
-                        })()
-                    )}
-                </div>
-            );
-        }
-
-        return null;
-    };
-
     return (
         <>
             <Card className={clsx("relative flex flex-col p-4 w-full overflow-hidden")}
                 style={{ height: `${CARD_HEIGHT}px`, minHeight: `${CARD_HEIGHT}px`, maxHeight: `${CARD_HEIGHT}px` }}
             >
                 <div className="absolute top-2 right-2 flex gap-2 items-center z-10">
+                    {isEnabled && state === "quarantined" && (
+                        <Button
+                            icon="RotateCcw"
+                            size="icon"
+                            variant="ghost"
+                            iconSize={16}
+                            onClick={() => onRetry(plugin.id)}
+                            aria-label={`Try starting ${plugin.name} again`}
+                            className="text-secondary h-8 w-8"
+                        />
+                    )}
                     <Button
                         icon={hasSettings ? "SlidersHorizontal" : "Info"}
                         size="icon"
@@ -335,11 +143,12 @@ const PluginCard: React.FC<PluginCardProps> = ({
                     />
                     <Switch
                         checked={plugin.required ? true : isEnabled}
-                        disabled={plugin.required}
+                        disabled={isLocked}
                         onCheckedChange={handleToggleChange}
                         aria-labelledby={switchLabelId}
-                        aria-label={`Toggle ${plugin.name} (${plugin.required ? "required" : "optional"
+                        aria-label={`Toggle ${plugin.name} (${isLocked ? lockReason : "optional"
                             })`}
+                        title={isLocked && !plugin.required ? `Cannot disable, ${lockReason}` : undefined}
                     />
                 </div>
                 <div className="pr-20 flex flex-col h-full overflow-hidden">
@@ -348,10 +157,28 @@ const PluginCard: React.FC<PluginCardProps> = ({
                         className="text-sm font-medium flex items-center gap-1.5 mb-3 truncate"
                     >
                         {plugin.name}
+                        {isEnabled && state === "loading" && (
+                            <Badge variant="soft" color="info" size="xs">Starting</Badge>
+                        )}
+                        {isEnabled && state === "failed" && (
+                            <Badge variant="soft" color="danger" size="xs">Failed</Badge>
+                        )}
+                        {isEnabled && state === "quarantined" && (
+                            <Badge variant="soft" color="warning" size="xs">Quarantined</Badge>
+                        )}
+                        {isEnabled && degradedLocators.length > 0 && (
+                            <Badge variant="soft" color="warning" size="xs" title={`Broken locators: ${degradedLocators.join(", ")}`}>Degraded</Badge>
+                        )}
                     </div>
-                    <div className="text-xs text-secondary leading-tight line-clamp-3">
-                        {plugin.description}
-                    </div>
+                    {isEnabled && state === "quarantined" ? (
+                        <div className="text-xs text-red-400 leading-tight line-clamp-3" title={error}>
+                            {error ?? "Stopped after repeated failures."}
+                        </div>
+                    ) : (
+                        <div className="text-xs text-secondary leading-tight line-clamp-3">
+                            {plugin.description}
+                        </div>
+                    )}
                 </div>
             </Card>
 
@@ -369,6 +196,18 @@ const PluginCard: React.FC<PluginCardProps> = ({
                             <span className="font-medium text-primary">Authors: </span>
                             {plugin.authors.map(a => a.name).join(", ")}
                         </p>
+                        {dependencies.length > 0 && (
+                            <p className="text-sm text-secondary">
+                                <span className="font-medium text-primary">Depends on: </span>
+                                {dependencies.join(", ")}
+                            </p>
+                        )}
+                        {enabledDependents.length > 0 && (
+                            <p className="text-sm text-secondary">
+                                <span className="font-medium text-primary">Required by: </span>
+                                {enabledDependents.map(p => p.name).join(", ")}
+                            </p>
+                        )}
                     </div>
                     {plugin.requiresRestart && (
                         <div className="text-sm text-yellow-400 bg-yellow-400/10 p-3 rounded-lg border border-yellow-400/20">
@@ -380,13 +219,15 @@ const PluginCard: React.FC<PluginCardProps> = ({
                         {hasSettings ? (
                             <div className="mt-2 space-y-4 w-full">
                                 {sortedOptions.map(([key, opt]) => (
-                                    <div key={key}>
-                                        {renderSettingControl(
-                                            key,
-                                            opt,
-                                            settings[key]
-                                        )}
-                                    </div>
+                                    <SettingControl
+                                        key={key}
+                                        pluginId={plugin.id}
+                                        settingKey={key}
+                                        option={opt}
+                                        value={settings[key]}
+                                        error={errors[key]}
+                                        onChange={handleSettingChange}
+                                    />
                                 ))}
                             </div>
                         ) : (
@@ -406,6 +247,7 @@ const SettingsUIComponent: React.FC<{ rootElement?: HTMLElement; }> = ({
 }) => {
     const [active, setActive] = useState(false);
     const logic = useSettingsLogic();
+    const locatorHealth = useLocatorHealth();
 
     if (!rootElement) {
         return null;
@@ -652,6 +494,9 @@ const SettingsUIComponent: React.FC<{ rootElement?: HTMLElement; }> = ({
                         </Callout>
                     </div>
                 )}
+                <div className="w-full mb-3">
+                    <ProfileSwitcher />
+                </div>
                 {filterSection && (
                     <div key={filterSection.title} className="w-full mb-3">
                         <Subheader>{filterSection.title}</Subheader>
@@ -673,7 +518,7 @@ const SettingsUIComponent: React.FC<{ rootElement?: HTMLElement; }> = ({
                             <Grid cols={2} gap="md">
                                 {items.map(plugin => (
                                     <ErrorBoundary key={plugin.id} pluginId={plugin.id}>
-                                        <PluginCard plugin={plugin} onToggle={logic.handlePluginToggle} onRestartChange={logic.handleRestartChange} />
+                                        <PluginCard plugin={plugin} isEnabled={!logic.isPluginDisabledById[plugin.id]} state={logic.pluginStateById[plugin.id] ?? "pending"} error={logic.pluginErrorById[plugin.id]} enabledDependents={logic.enabledDependentsById[plugin.id] ?? []} degradedLocators={locatorHealth.degradedPlugins[plugin.id] ?? []} onToggle={logic.handlePluginToggle} onRetry={logic.handlePluginRetry} onRestartChange={logic.handleRestartChange} />
                                     </ErrorBoundary>
                                 ))}
                             </Grid>
@@ -690,7 +535,7 @@ const SettingsUIComponent: React.FC<{ rootElement?: HTMLElement; }> = ({
                     <Grid cols={2} gap="md">
                         {requiredSection.items.map(plugin => (
                             <ErrorBoundary key={plugin.id} pluginId={plugin.id}>
-                                <PluginCard plugin={plugin} onToggle={logic.handlePluginToggle} onRestartChange={logic.handleRestartChange} />
+                                <PluginCard plugin={plugin} isEnabled={!logic.isPluginDisabledById[plugin.id]} state={logic.pluginStateById[plugin.id] ?? "pending"} error={logic.pluginErrorById[plugin.id]} enabledDependents={logic.enabledDependentsById[plugin.id] ?? []} degradedLocators={locatorHealth.degradedPlugins[plugin.id] ?? []} onToggle={logic.handlePluginToggle} onRetry={logic.handlePluginRetry} onRestartChange={logic.handleRestartChange} />
                             </ErrorBoundary>
                         ))}
                     </Grid>
@@ -698,14 +543,23 @@ const SettingsUIComponent: React.FC<{ rootElement?: HTMLElement; }> = ({
                     <div className="text-sm text-secondary py-2">No plugins meet the search criteria.</div>
                 ) : null}
             </div>
+            <Separator fullBleed bleedRem={0.25} className="my-6" />
+            <div className="px-3">
+                <SettingsTransfer />
+            </div>
         </div>
-    ), [logic.pendingChanges, logic.filterText, logic.filterOption, filterSection, filterOptions, pluginSections, hasActiveFilter, requiredSection, logic.handlePluginToggle, logic.handleRestartChange]);
+    ), [logic.pendingChanges, logic.filterText, logic.filterOption, filterSection, filterOptions, pluginSections, hasActiveFilter, requiredSection, logic.isPluginDisabledById, logic.pluginStateById, logic.pluginErrorById, logic.enabledDependentsById, logic.handlePluginToggle, logic.handlePluginRetry, logic.handleRestartChange, locatorHealth]);
 
     useEffect(() => {
         registerSettingsTab({ id: "plugins", label: "Plugins", icon: "SlidersHorizontal", render: () => defaultPluginsContent });
         return () => unregisterSettingsTab("plugins");
     }, [defaultPluginsContent]);
 
+    useEffect(() => {
+        registerSettingsTab({ id: "diagnostics", label: "Diagnostics", icon: "Activity", order: 100, render: () => <DiagnosticsTab /> });
+        return () => unregisterSettingsTab("diagnostics");
+    }, []);
+
     const PanelBody = (
         <Panel isActive={active} data-grokness-panel className="flex-1 w-full h-full">
             <SettingsTabsView hideSingleBar />
@@ -739,6 +593,16 @@ const SettingsUIComponent: React.FC<{ rootElement?: HTMLElement; }> = ({
     );
 };
 
+const settings = definePluginSettings({
+    cycleProfile: {
+        type: "keybind",
+        displayName: "Cycle Profiles",
+        description: "Switches to the next saved settings profile.",
+        default: PROFILE_CYCLE_KEYBIND,
+        scope: "global",
+    },
+});
+
 export default definePlugin({
     name: "Settings",
     description: "Adds a settings panel to manage Grokness plugins.",
@@ -747,7 +611,12 @@ export default definePlugin({
     hidden: true,
     category: "utility",
     tags: ["settings", "ui", "core"],
+    requiredLocators: ["SETTINGS_MODAL.dialog", "SETTINGS_MODAL.contentArea", "SETTINGS_MODAL.leftNavContainer"],
+    settings,
     styles,
+    start(ctx) {
+        ctx.onKeybind("cycleProfile", () => void cycleProfile());
+    },
     patches: [
         Patch.ui('div[role="dialog"][data-state="open"]')
             .forEach()
@@ -7,7 +7,6 @@
 import { grokApi } from "@api/index";
 import { Badge } from "@components/Badge";
 import { Text } from "@components/Text";
-import { Toast, type ToastIntent, ToastProvider } from "@components/Toast";
 import styles from "@plugins/betterSidebar/styles.css?raw";
 import { Devs } from "@utils/constants";
 import { makeDraggable, makeDropTarget } from "@utils/dnd";
@@ -15,12 +14,15 @@ import { liveElements, selectOne, waitFor, wrapElement } from "@utils/dom";
 import { createEventGuard } from "@utils/guard";
 import { LOCATORS } from "@utils/locators";
 import { Logger } from "@utils/logger";
+import { observeMutations } from "@utils/mutationScheduler";
 import { Patch } from "@utils/patchBuilder";
+import { showToast } from "@utils/reactRoot";
+import { getConversationIdFromURL, getWorkspaceIdFromURL } from "@utils/router";
 import { session } from "@utils/storage";
 import definePlugin, {
     definePluginSettings,
     type InjectedComponentProps,
-    onPluginSettingsUpdated,
+    useSetting,
 } from "@utils/types";
 import clsx from "clsx";
 import React, { useEffect, useRef, useState } from "react";
@@ -95,11 +97,15 @@ function useCollapsed(root: HTMLElement | null): boolean {
             }
         };
         update();
-        const mo = new MutationObserver(update);
-        if (icon.success && icon.data) {
-            mo.observe(icon.data, { attributes: true, attributeFilter: ["class"] });
+        if (!icon.success || !icon.data) {
+            return;
         }
-        return () => mo.disconnect();
+        return observeMutations(update, {
+            name: "better-sidebar:collapse",
+            root: icon.data,
+            childList: false,
+            attributes: ["class"],
+        });
     }, [root]);
     return isCollapsed;
 }
@@ -107,8 +113,10 @@ function useCollapsed(root: HTMLElement | null): boolean {
 function SidebarUserInfo({ rootElement }: InjectedComponentProps) {
     const [data, setData] = useState<{ name: string; plan: string; } | null>(null);
     const [remainingDays, setRemainingDays] = useState<number | null>(null);
-    const [showRemaining, setShowRemaining] = useState<boolean>(() => Boolean(settings.store.showRemainingTime));
-    const [billingCycle, setBillingCycle] = useState<"monthly" | "annual">(() => (settings.store.billingCycle as "monthly" | "annual") || "monthly");
+    const [showRemainingTime] = useSetting<typeof settings.definition, "showRemainingTime">("better-sidebar", "showRemainingTime");
+    const [billingCycleSetting] = useSetting<typeof settings.definition, "billingCycle">("better-sidebar", "billingCycle");
+    const showRemaining = Boolean(showRemainingTime);
+    const billingCycle: "monthly" | "annual" = String(billingCycleSetting) === "annual" ? "annual" : "monthly";
     const collapsed = useCollapsed(rootElement ?? null);
     const containerRef = useRef<HTMLDivElement | null>(null);
 
@@ -116,19 +124,6 @@ function SidebarUserInfo({ rootElement }: InjectedComponentProps) {
         getUserPlan().then(setData);
     }, []);
 
-    useEffect(() => {
-        const off = onPluginSettingsUpdated("better-sidebar", ({ key, value }) => {
-            if (key === "showRemainingTime") {
-                setShowRemaining(Boolean(value));
-            }
-            if (key === "billingCycle") {
-                const v = String(value) === "annual" ? "annual" : "monthly";
-                setBillingCycle(v);
-            }
-        });
-        return off;
-    }, []);
-
     useEffect(() => {
         let aborted = false;
         const ac = new AbortController();
@@ -307,63 +302,9 @@ const settings = definePluginSettings({
 
 const CLASS_DROP_OVER = "grokness-project-drop-over" as const;
 
-function showToast(message: React.ReactNode, intent: ToastIntent = "default", duration?: number): void {
-    const event = new CustomEvent("grokness-toast", { detail: { message, intent, duration } });
-    window.dispatchEvent(event);
-}
-
-function extractConversationIdFromURL(href: string | null): string | null {
-    if (!href) {
-        return null;
-    }
-    const match = href.match(/\/chat\/([a-zA-Z0-9_-]+)/);
-    return match?.[1] ?? null;
-}
-
-function extractWorkspaceIdFromURL(href: string | null): string | null {
-    if (!href) {
-        return null;
-    }
-    const match = href.match(/\/project\/([a-zA-Z0-9_-]+)/);
-    return match?.[1] ?? null;
-}
-
-const ToastHost: React.FC = () => {
-    const [items, setItems] = useState<Array<{ id: number; message: React.ReactNode; intent?: ToastIntent; duration?: number; }>>([]);
-
-    useEffect(() => {
-        const handler = (e: CustomEvent) => {
-            const id = Date.now() + Math.random();
-            setItems(prev => [...prev, { id, ...e.detail }]);
-        };
-        window.addEventListener("grokness-toast", handler as EventListener);
-        return () => window.removeEventListener("grokness-toast", handler as EventListener);
-    }, []);
-
-    return (
-        <div data-grokness-toast-host>
-            <ToastProvider duration={5000}>
-                {items.map(item => (
-                    <Toast
-                        key={item.id}
-                        open
-                        onOpenChange={open => {
-                            if (!open) {
-                                setItems(prev => prev.filter(x => x.id !== item.id));
-                            }
-                        }}
-                        intent={item.intent}
-                        duration={item.duration}
-                        message={item.message}
-                    />
-                ))}
-            </ToastProvider>
-        </div>
-    );
-};
-
 const BetterSidebar: React.FC<InjectedComponentProps> = ({ rootElement }) => {
     const sidebar = rootElement;
+    const [collapseOnlyViaToggle] = useSetting<typeof settings.definition, "collapseOnlyViaToggle">("better-sidebar", "collapseOnlyViaToggle");
 
     useEffect(() => {
         if (!sidebar) {
@@ -387,24 +328,15 @@ const BetterSidebar: React.FC<InjectedComponentProps> = ({ rootElement }) => {
             debugName: "BetterSidebar:CollapseGuard",
         });
 
-        const sync = () => {
-            if (settings.store.collapseOnlyViaToggle) {
-                sidebar.setAttribute("data-grokness-sidebar-nohover", "true");
-                guard.enable();
-            } else {
-                sidebar.removeAttribute("data-grokness-sidebar-nohover");
-                guard.disable();
-            }
-        };
-
-        sync();
-        const off = onPluginSettingsUpdated("better-sidebar", sync);
+        if (collapseOnlyViaToggle) {
+            sidebar.setAttribute("data-grokness-sidebar-nohover", "true");
+            guard.enable();
+        }
         return () => {
-            off();
             guard.disable();
             sidebar.removeAttribute("data-grokness-sidebar-nohover");
         };
-    }, [sidebar]);
+    }, [sidebar, collapseOnlyViaToggle]);
 
     useEffect(() => {
         if (!sidebar) {
@@ -419,7 +351,7 @@ const BetterSidebar: React.FC<InjectedComponentProps> = ({ rootElement }) => {
             }
             const dragResult = makeDraggable(el, {
                 getPayload: () => {
-                    const id = extractConversationIdFromURL(el.href);
+                    const id = getConversationIdFromURL(el.href);
                     return id ? { "application/grokness-conversation": id } : null;
                 },
                 onDragStart: () => el.classList.add("grokness-chat-dragging"),
@@ -443,7 +375,7 @@ const BetterSidebar: React.FC<InjectedComponentProps> = ({ rootElement }) => {
                 onEnter: () => el.classList.add(CLASS_DROP_OVER),
                 onLeave: () => el.classList.remove(CLASS_DROP_OVER),
                 onDrop: async ({ conversationId }) => {
-                    const workspaceId = extractWorkspaceIdFromURL(el.href);
+                    const workspaceId = getWorkspaceIdFromURL(el.href);
                     if (!workspaceId) {
                         return;
                     }
@@ -467,8 +399,8 @@ const BetterSidebar: React.FC<InjectedComponentProps> = ({ rootElement }) => {
         let liveProjects: ReturnType<typeof liveElements> | null = null;
 
         if (settings.store.dragToProject) {
-            liveChats = liveElements(CHAT_LINK_SELECTOR, sidebar, attachDrag, detach, { debounce: 0 });
-            liveProjects = liveElements(PROJECT_LINK_SELECTOR, sidebar, attachDrop, detach, { debounce: 0 });
+            liveChats = liveElements(CHAT_LINK_SELECTOR, sidebar, attachDrag, detach, { debounce: 0, name: "better-sidebar:chat-links" });
+            liveProjects = liveElements(PROJECT_LINK_SELECTOR, sidebar, attachDrop, detach, { debounce: 0, name: "better-sidebar:project-links" });
         }
 
         return () => {
@@ -509,13 +441,10 @@ export default definePlugin({
     authors: [Devs.Prism],
     category: "appearance",
     tags: ["sidebar"],
+    requiredLocators: ["SIDEBAR.container", "SIDEBAR.footer", "SIDEBAR.toggleButton"],
     settings,
     styles,
     patches: [
-        Patch.ui(ToastHost)
-            .target("body")
-            .when((body: HTMLElement) => !body.querySelector("[data-grokness-toast-host]"))
-            .build(),
         Patch.ui(SidebarUserInfo)
             .target(SIDEBAR_FOOTER_SELECTOR)
             .build(),
@@ -5,6 +5,7 @@
  */
 
 import { Devs } from "@utils/constants";
+import { findBestElement } from "@utils/dom";
 import { LOCATORS } from "@utils/locators";
 import { Logger } from "@utils/logger";
 import { Patch } from "@utils/patchBuilder";
@@ -15,44 +16,15 @@ import { useEffect } from "react";
 const logger = new Logger("ClickActions", "#ff6b6b");
 
 const BUBBLE_SELECTOR = LOCATORS.CHAT.messageBubble.selector;
-const ACTIONS_CONTAINER_SELECTOR = ".action-buttons" as const;
-const ICON_BUTTON_SELECTOR = "button.h-8.w-8.rounded-full" as const;
-const FALLBACK_BUTTONS_SELECTOR = `${ACTIONS_CONTAINER_SELECTOR} button, button` as const;
 const INTERACTIVE_SELECTOR = "a,button,textarea,input,select,[role='button']" as const;
 
-function isPencilLikeIconButton(btn: HTMLButtonElement): boolean {
-    const hasRect = !!btn.querySelector("svg rect");
-    if (hasRect) {
-        return false;
-    }
-    const pathCount = btn.querySelectorAll("svg path").length;
-    return pathCount >= 2;
-}
-
-function getCandidateButtons(root: HTMLElement): HTMLButtonElement[] {
-    const iconButtons = Array.from(root.querySelectorAll<HTMLButtonElement>(ICON_BUTTON_SELECTOR));
-    if (iconButtons.length > 0) {
-        return iconButtons;
-    }
-    return Array.from(root.querySelectorAll<HTMLButtonElement>(FALLBACK_BUTTONS_SELECTOR));
-}
-
 function findEditButton(container: HTMLElement): HTMLButtonElement | null {
-    const withinActions = container.querySelector<HTMLElement>(ACTIONS_CONTAINER_SELECTOR);
-    const buttonSourceRoot = withinActions ?? container;
-    const buttons = getCandidateButtons(buttonSourceRoot);
-    if (buttons.length === 0) {
+    const result = findBestElement({ ...LOCATORS.CHAT.editButton, root: container });
+    if (!result.success || !result.data) {
         return null;
     }
-    const pencil = buttons.find(isPencilLikeIconButton);
-    if (pencil) {
-        return pencil;
-    }
-    const nonRect = buttons.find(b => !b.querySelector("svg rect"));
-    if (nonRect) {
-        return nonRect;
-    }
-    return buttons[0] ?? null;
+    logger.debug(`Edit button found via ${result.data.strategy} (score ${result.data.score})`);
+    return result.data.element as HTMLButtonElement;
 }
 
 const ClickActions: React.FC<InjectedComponentProps> = ({ rootElement: bubble }) => {
@@ -108,9 +80,11 @@ export default definePlugin({
     authors: [Devs.Prism],
     category: "chat",
     tags: ["edit", "double-click", "chat", "quality of life"],
+    requiredLocators: ["CHAT.messageBubble", "CHAT.messageContainer"],
     patches: [
         Patch.ui(ClickActions)
             .target(BUBBLE_SELECTOR)
+            .routes("chat")
             .build(),
     ],
 });
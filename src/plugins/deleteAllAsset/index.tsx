@@ -18,10 +18,10 @@ import {
 } from "@components/AlertDialog";
 import { Button } from "@components/Button";
 import { Text } from "@components/Text";
-import { Toast, type ToastIntent, ToastProvider } from "@components/Toast";
 import { Devs } from "@utils/constants";
 import { findElement } from "@utils/dom";
 import { Logger } from "@utils/logger";
+import { showToast } from "@utils/reactRoot";
 import { session } from "@utils/storage";
 import definePlugin, { Patch } from "@utils/types";
 import React, { useEffect, useRef, useState } from "react";
@@ -33,12 +33,6 @@ const ASSETS_CACHE_TTL_MS = 5 * 60 * 1000;
 
 type AssetInfo = { id?: string; assetId?: string; rootAssetId?: string; };
 
-interface ToastInfo {
-    id: number;
-    message: string;
-    type: ToastIntent;
-}
-
 async function deleteInBatches(ids: ReadonlyArray<string>, signal?: AbortSignal): Promise<void> {
     const size = 6;
     for (let i = 0; i < ids.length; i += size) {
@@ -84,14 +78,8 @@ const suppressAbortErrorsDuringReload = (delayMs = 50) => {
 const DeleteAllAssetsButton: React.FC = () => {
     const [isOpen, setIsOpen] = useState(false);
     const [loading, setLoading] = useState(false);
-    const [toasts, setToasts] = useState<ToastInfo[]>([]);
     const abortRef = useRef<AbortController | null>(null);
 
-    const showToast = (message: string, type: ToastIntent) => {
-        const id = Date.now();
-        setToasts(prev => [...prev, { id, message, type }]);
-    };
-
     useEffect(() => () => {
         abortRef.current?.abort();
         abortRef.current = null;
@@ -172,52 +160,36 @@ const DeleteAllAssetsButton: React.FC = () => {
     };
 
     return (
-        <>
-            <AlertDialog open={isOpen} onOpenChange={setIsOpen}>
-                <AlertDialogTrigger asChild>
-                    <Button
-                        id="grok-delete-all"
-                        variant="ghost"
-                        size="sm"
-                        icon={"Trash"}
-                        iconSize={18}
-                        aria-label="Delete All Assets"
-                        className="w-8 h-8 px-1.5 py-1.5 rounded-xl text-fg-secondary border-transparent hover:text-red-400 dark:hover:text-red-300"
-                        disableIconHover
-                    />
-                </AlertDialogTrigger>
-                <AlertDialogContent>
-                    <AlertDialogHeader>
-                        <AlertDialogTitle>Delete all assets?</AlertDialogTitle>
-                        <AlertDialogDescription>
-                            <Text as="span" tone="secondary">
-                                This will permanently delete all uploaded assets from the Files tab. This action cannot be undone.
-                            </Text>
-                        </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <AlertDialogFooter>
-                        <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
-                        <AlertDialogAction color="danger" onClick={() => runDelete()} disabled={loading}>
-                            {loading ? "Deleting..." : "Delete All"}
-                        </AlertDialogAction>
-                    </AlertDialogFooter>
-                </AlertDialogContent>
-            </AlertDialog>
-
-            <div style={{ position: "fixed", top: "1rem", right: "1rem", zIndex: 10000 }}>
-                <ToastProvider>
-                    {toasts.map(toast => (
-                        <Toast
-                            key={toast.id}
-                            open
-                            onOpenChange={() => setToasts(prev => prev.filter(t => t.id !== toast.id))}
-                            intent={toast.type}
-                            message={toast.message}
-                        />
-                    ))}
-                </ToastProvider>
-            </div>
-        </>
+        <AlertDialog open={isOpen} onOpenChange={setIsOpen}>
+            <AlertDialogTrigger asChild>
+                <Button
+                    id="grok-delete-all"
+                    variant="ghost"
+                    size="sm"
+                    icon={"Trash"}
+                    iconSize={18}
+                    aria-label="Delete All Assets"
+                    className="w-8 h-8 px-1.5 py-1.5 rounded-xl text-fg-secondary border-transparent hover:text-red-400 dark:hover:text-red-300"
+                    disableIconHover
+                />
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <AlertDialogTitle>Delete all assets?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                        <Text as="span" tone="secondary">
+                            This will permanently delete all uploaded assets from the Files tab. This action cannot be undone.
+                        </Text>
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                    <AlertDialogCancel disabled={loading}>Cancel</AlertDialogCancel>
+                    <AlertDialogAction color="danger" onClick={() => runDelete()} disabled={loading}>
+                        {loading ? "Deleting..." : "Delete All"}
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
     );
 };
 
@@ -259,6 +231,7 @@ export default definePlugin({
                 return buttons[buttons.length - 1] ?? null;
             })
             .debounce(50)
+            .routes("files")
             .build(),
     ],
 });
@@ -5,101 +5,82 @@
  */
 
 import { Devs } from "@utils/constants";
+import { isSameKeybind } from "@utils/keybinds";
+import { LOCATORS } from "@utils/locators";
 import { Logger } from "@utils/logger";
-import { Patch } from "@utils/patchBuilder";
-import definePlugin, { definePluginSettings, type InjectedComponentProps } from "@utils/types";
-import type React from "react";
-import { useEffect } from "react";
+import definePlugin, { definePluginSettings } from "@utils/types";
 
 const logger = new Logger("HotkeyTweaks", "#ff9500");
 
+/** What grok.com's editor does on its own, so matching bindings are left to it */
+const NATIVE_SEND = "Enter";
+const NATIVE_NEWLINE = "Shift+Enter";
+
 const settings = definePluginSettings({
-    enterBehavior: {
-        type: "select",
-        displayName: "Chat Hotkey",
-        description: "Customize how the Enter key works for sending messages.",
-        default: "default",
-        options: [
-            { label: "Default (Enter to send)", value: "default" },
-            { label: "Swap (Enter for newline, Shift+Enter to send)", value: "swap" },
-            { label: "Ctrl+Enter to send)", value: "ctrlEnter" },
-        ],
+    sendMessage: {
+        type: "keybind",
+        displayName: "Send Message",
+        description: "Sends the message from the chat editor.",
+        default: NATIVE_SEND,
+        scope: "editor",
+    },
+    newLine: {
+        type: "keybind",
+        displayName: "New Line",
+        description: "Inserts a line break in the chat editor.",
+        default: NATIVE_NEWLINE,
+        scope: "editor",
+    },
+}, {
+    version: 1,
+    migrate(old) {
+        // v0 stored a single preset instead of two bindings
+        const { enterBehavior, ...rest } = old;
+        switch (enterBehavior) {
+            case "swap":
+                return { ...rest, sendMessage: "Shift+Enter", newLine: "Enter" };
+            case "ctrlEnter":
+                return { ...rest, sendMessage: "Ctrl+Enter", newLine: "Enter" };
+            default:
+                return rest;
+        }
     },
 });
 
-const EDITOR_SELECTOR = ".query-bar .tiptap.ProseMirror" as const;
+const editorFromEvent = (e: KeyboardEvent): HTMLElement | null =>
+    e.target instanceof Element ? e.target.closest<HTMLElement>(LOCATORS.QUERY_BAR.editor.selector) : null;
+
+function send(editor: HTMLElement): void {
+    const form = editor.closest("form");
+    if (form) {
+        form.requestSubmit();
+        logger.debug("Message sent via hotkey");
+    } else {
+        logger.warn("No form found to submit");
+    }
+}
 
-const HotkeyTweaks: React.FC<InjectedComponentProps> = ({ rootElement: editor }) => {
-    useEffect(() => {
-        if (!editor) {
+function newline(editor: HTMLElement): void {
+    try {
+        editor.focus();
+        const sel = document.getSelection();
+        if (!sel?.rangeCount) {
+            logger.warn("No selection range available for newline");
             return;
         }
-
-        logger.debug("Attaching hotkey tweaks to editor");
-
-        const onKeyDown = (e: KeyboardEvent) => {
-            try {
-                if (e.key !== "Enter" || settings.store.enterBehavior === "default") {
-                    return;
-                }
-
-                const send = () => {
-                    const form = editor.closest("form");
-                    if (form) {
-                        form.requestSubmit();
-                        logger.debug("Message sent via hotkey");
-                    } else {
-                        logger.warn("No form found to submit");
-                    }
-                };
-
-                const newline = () => {
-                    try {
-                        editor.focus();
-                        const sel = document.getSelection();
-                        if (!sel?.rangeCount) {
-                            logger.warn("No selection range available for newline");
-                            return;
-                        }
-                        const range = sel.getRangeAt(0);
-                        range.deleteContents();
-                        const br = document.createElement("br");
-                        range.insertNode(br);
-                        const newRange = document.createRange();
-                        newRange.setStartAfter(br);
-                        sel.removeAllRanges();
-                        sel.addRange(newRange);
-                        logger.debug("Newline inserted via hotkey");
-                    } catch (error) {
-                        logger.error("Failed to insert newline:", error);
-                    }
-                };
-
-                if (settings.store.enterBehavior === "swap") {
-                    e.preventDefault();
-                    e.stopImmediatePropagation();
-                    e.shiftKey ? send() : newline();
-                } else if (settings.store.enterBehavior === "ctrlEnter") {
-                    e.preventDefault();
-                    e.stopImmediatePropagation();
-                    e.ctrlKey ? send() : newline();
-                }
-            } catch (error) {
-                logger.error("Error handling hotkey:", error);
-            }
-        };
-
-        editor.addEventListener("keydown", onKeyDown, true);
-        logger.debug("Hotkey listener attached");
-
-        return () => {
-            editor.removeEventListener("keydown", onKeyDown, true);
-            logger.debug("Hotkey listener removed");
-        };
-    }, [editor]);
-
-    return null;
-};
+        const range = sel.getRangeAt(0);
+        range.deleteContents();
+        const br = document.createElement("br");
+        range.insertNode(br);
+        const newRange = document.createRange();
+        newRange.setStartAfter(br);
+        sel.removeAllRanges();
+        sel.addRange(newRange);
+        logger.debug("Newline inserted via hotkey");
+    } catch (error) {
+        logger.error("Failed to insert newline:", error);
+    }
+}
 
 export default definePlugin({
     name: "Hotkey Tweaks",
@@ -107,10 +88,22 @@ export default definePlugin({
     authors: [Devs.Prism],
     category: "chat",
     tags: ["input", "enter", "send", "chat", "quality of life"],
+    requiredLocators: ["QUERY_BAR.editor"],
     settings,
-    patches: [
-        Patch.ui(HotkeyTweaks)
-            .target(EDITOR_SELECTOR)
-            .build(),
-    ],
+    start(ctx) {
+        ctx.onKeybind("sendMessage", e => {
+            const editor = editorFromEvent(e);
+            if (!editor || isSameKeybind(String(settings.store.sendMessage), NATIVE_SEND)) {
+                return false;
+            }
+            send(editor);
+        });
+        ctx.onKeybind("newLine", e => {
+            const editor = editorFromEvent(e);
+            if (!editor || isSameKeybind(String(settings.store.newLine), NATIVE_NEWLINE)) {
+                return false;
+            }
+            newline(editor);
+        });
+    },
 });
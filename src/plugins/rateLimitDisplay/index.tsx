@@ -13,6 +13,7 @@ import { Devs } from "@utils/constants";
 import { findElement, MutationObserverManager, selectOne } from "@utils/dom";
 import { LOCATORS } from "@utils/locators";
 import { Logger } from "@utils/logger";
+import { onNetworkEvent } from "@utils/networkTap";
 import { session } from "@utils/storage";
 import definePlugin, { definePluginSettings, type InjectedComponentProps, Patch } from "@utils/types";
 import clsx from "clsx";
@@ -114,7 +115,8 @@ function useCurrentModel(queryBar: HTMLElement | null): string {
         const { observe, disconnect } = observerManager.createDebouncedObserver({
             target: queryBar,
             options: { childList: true, subtree: true, characterData: true },
-            callback: updateModel
+            callback: updateModel,
+            name: "rate-limit-display:model",
         });
         updateModel();
         observe();
@@ -159,7 +161,8 @@ function useCurrentRequestKind(currentModel: string, queryBar: HTMLElement | nul
         const { observe, disconnect } = observerManager.createDebouncedObserver({
             target: queryBar,
             options: { attributes: true, attributeFilter: ["aria-pressed"], subtree: true },
-            callback: updateKind
+            callback: updateKind,
+            name: "rate-limit-display:request-kind",
         });
         updateKind();
         observe();
@@ -221,6 +224,13 @@ function RateLimitDisplay({ rootElement }: InjectedComponentProps) {
         };
     }, [numericValue]);
 
+    const applyRateLimit = useCallback((model: string, kind: string, data: RateLimitData) => {
+        const processed = processRateLimit(model, data);
+        setRateLimit(processed);
+        setCached(model, kind, processed);
+        setCountdown(processed.waitTimeSeconds > 0 ? processed.waitTimeSeconds : null);
+    }, []);
+
     const fetchNow = useCallback(async (opts?: { background?: boolean; }) => {
         if (!opts?.background) {
             setIsLoading(true);
@@ -237,35 +247,12 @@ function RateLimitDisplay({ rootElement }: InjectedComponentProps) {
                 return currentRateLimit;
             });
         } else {
-            let processed: ProcessedRateLimit;
-            if (model === "grok-4-auto") {
-                processed = {
-                    isBoth: true,
-                    highRemaining: data.highEffortRateLimits?.remainingQueries ?? 0,
-                    lowRemaining: data.lowEffortRateLimits?.remainingQueries ?? 0,
-                    waitTimeSeconds: Math.max(
-                        data.highEffortRateLimits?.waitTimeSeconds ?? 0,
-                        data.lowEffortRateLimits?.waitTimeSeconds ?? 0,
-                        data.waitTimeSeconds ?? 0
-                    )
-                };
-            } else {
-                const isLowLane = model === "grok-3";
-                const limits = isLowLane ? data.lowEffortRateLimits : data.highEffortRateLimits;
-                processed = {
-                    isBoth: false,
-                    highRemaining: limits?.remainingQueries ?? data.remainingQueries ?? 0,
-                    waitTimeSeconds: limits?.waitTimeSeconds ?? data.waitTimeSeconds ?? 0
-                };
-            }
-            setRateLimit(processed);
-            setCached(model, kind, processed);
-            setCountdown(processed.waitTimeSeconds > 0 ? processed.waitTimeSeconds : null);
+            applyRateLimit(model, kind, data);
         }
         if (!opts?.background) {
             setIsLoading(false);
         }
-    }, []);
+    }, [applyRateLimit]);
 
     useEffect(() => {
         modelRef.current = currentModel;
@@ -317,110 +304,17 @@ function RateLimitDisplay({ rootElement }: InjectedComponentProps) {
     }, [countdown, fetchNow]);
 
     useEffect(() => {
-        const root = queryBar;
-        if (!root) {
-            return;
-        }
-
-        const trigger = () => {
-            window.setTimeout(() => fetchNow({ background: true }), 1500);
-        };
-
-        const onKeyDown = (ev: KeyboardEvent) => {
-            if (ev.isComposing) {
-                return;
-            }
-            if (ev.key !== "Enter" || ev.shiftKey || ev.ctrlKey || ev.altKey || ev.metaKey) {
-                return;
-            }
-            const target = ev.target as HTMLElement | null;
-            if (!target) {
-                return;
-            }
-            const inEditor = !!target.closest(".tiptap.ProseMirror");
-            if (inEditor) {
-                trigger();
-            }
-        };
-
-        const onSubmitCapture = () => trigger();
-
-        root.addEventListener("keydown", onKeyDown, true);
-        root.addEventListener("submit", onSubmitCapture, true);
-
-        return () => {
-            root.removeEventListener("keydown", onKeyDown, true);
-            root.removeEventListener("submit", onSubmitCapture, true);
-        };
-    }, [fetchNow, queryBar]);
-
-    useEffect(() => {
-        const trigger = () => window.setTimeout(() => fetchNow({ background: true }), 1200);
-        const onDocSubmit = (e: Event) => {
-            const target = e.target as HTMLElement | null;
-            if (!target) {
-                return;
-            }
-            const withinQuery = !!target.closest(LOCATORS.QUERY_BAR.root as unknown as string);
-            if (withinQuery) {
-                trigger();
-            }
-        };
-        const onDocKeyDown = (ev: KeyboardEvent) => {
-            if (ev.isComposing) {
-                return;
-            }
-            if (ev.key !== "Enter" || ev.shiftKey || ev.ctrlKey || ev.altKey || ev.metaKey) {
-                return;
-            }
-            const t = ev.target as HTMLElement | null;
-            if (!t) {
-                return;
-            }
-            if (t.closest(".tiptap.ProseMirror")) {
-                trigger();
-            }
-        };
-        document.addEventListener("submit", onDocSubmit, true);
-        document.addEventListener("keydown", onDocKeyDown, true);
-        return () => {
-            document.removeEventListener("submit", onDocSubmit, true);
-            document.removeEventListener("keydown", onDocKeyDown, true);
-        };
-    }, [fetchNow]);
-
-    useEffect(() => {
-        const bubbleSel = (LOCATORS.CHAT.messageBubble as { selector: string; }).selector;
-        let debounceId: number | null = null;
-        const schedule = () => {
-            if (debounceId != null) {
-                clearTimeout(debounceId);
-            }
-            debounceId = window.setTimeout(() => {
-                fetchNow({ background: true });
-                debounceId = null;
-            }, 1400);
-        };
-        const mo = new MutationObserver(muts => {
-            for (const m of muts) {
-                if (m.addedNodes && m.addedNodes.length > 0) {
-                    for (const n of Array.from(m.addedNodes)) {
-                        if (n instanceof HTMLElement && (n.matches(bubbleSel) || n.querySelector(bubbleSel))) {
-                            schedule();
-                            return;
-                        }
-                    }
-                }
+        const offCompleted = onNetworkEvent("response:completed", () => fetchNow({ background: true }));
+        const offUpdated = onNetworkEvent("rateLimit:updated", ({ request, data }) => {
+            if (request.modelName === modelRef.current && (request.requestKind ?? DEFAULT_KIND) === kindRef.current) {
+                applyRateLimit(modelRef.current, kindRef.current, data);
             }
         });
-        mo.observe(document.body, { childList: true, subtree: true });
         return () => {
-            if (debounceId != null) {
-                clearTimeout(debounceId);
-            }
-            mo.disconnect();
+            offCompleted();
+            offUpdated();
         };
-    }, [fetchNow]);
+    }, [fetchNow, applyRateLimit]);
 
     const formatCountdown = (seconds: number) => {
         const h = Math.floor(seconds / 3600);
@@ -503,6 +397,28 @@ function RateLimitDisplay({ rootElement }: InjectedComponentProps) {
     );
 }
 
+function processRateLimit(model: string, data: RateLimitData): Exclude<ProcessedRateLimit, { error: true; }> {
+    if (model === "grok-4-auto") {
+        return {
+            isBoth: true,
+            highRemaining: data.highEffortRateLimits?.remainingQueries ?? 0,
+            lowRemaining: data.lowEffortRateLimits?.remainingQueries ?? 0,
+            waitTimeSeconds: Math.max(
+                data.highEffortRateLimits?.waitTimeSeconds ?? 0,
+                data.lowEffortRateLimits?.waitTimeSeconds ?? 0,
+                data.waitTimeSeconds ?? 0
+            )
+        };
+    }
+    const isLowLane = model === "grok-3";
+    const limits = isLowLane ? data.lowEffortRateLimits : data.highEffortRateLimits;
+    return {
+        isBoth: false,
+        highRemaining: limits?.remainingQueries ?? data.remainingQueries ?? 0,
+        waitTimeSeconds: limits?.waitTimeSeconds ?? data.waitTimeSeconds ?? 0
+    };
+}
+
 async function fetchRateLimit(modelName: string, requestKind: string): Promise<RateLimitData | null> {
     try {
         const data = await grokApi.getRateLimit({ requestKind, modelName });
@@ -522,6 +438,7 @@ export default definePlugin({
     authors: [Devs.blankspeaker, Devs.CursedAtom, Devs.Prism],
     category: "chat",
     tags: ["rate-limit", "queries", "usage"],
+    requiredLocators: ["QUERY_BAR.root", "QUERY_BAR.modelButton", "QUERY_BAR.attachButton"],
     styles,
     settings,
     patches: [
@@ -8,8 +8,7 @@ import styles from "@plugins/screenCleaner/styles.css?raw";
 import { Devs } from "@utils/constants";
 import { createDomElementHider } from "@utils/dom";
 import { LOCATORS } from "@utils/locators";
-import definePlugin, { definePluginSettings, onPluginSettingsUpdated } from "@utils/types";
-import { useEffect } from "react";
+import definePlugin, { definePluginSettings } from "@utils/types";
 
 const settings = definePluginSettings({
     hideScreensaver: {
@@ -20,29 +19,7 @@ const settings = definePluginSettings({
     },
 });
 
-const ScreenCleaner: React.FC = () => {
-    useEffect(() => {
-        const hider = createDomElementHider(document.body, [
-            {
-                selector: LOCATORS.EFFECTS.idleSparklesContainer.selector,
-                description: "Idle sparkle effects",
-                condition: () => Boolean(settings.store.hideScreensaver),
-            },
-        ]);
-
-        hider.hideImmediately();
-        hider.startObserving();
-
-        const off = onPluginSettingsUpdated("screen-cleaner", () => hider.hideImmediately());
-
-        return () => {
-            hider.stopObserving();
-            off();
-        };
-    }, []);
-
-    return null;
-};
+let hider: ReturnType<typeof createDomElementHider> | null = null;
 
 export default definePlugin({
     name: "Screen Cleaner",
@@ -53,8 +30,22 @@ export default definePlugin({
     enabledByDefault: true,
     styles,
     settings,
-    ui: {
-        component: ScreenCleaner,
-        target: "body",
+    start() {
+        hider = createDomElementHider(document.body, [
+            {
+                selector: LOCATORS.EFFECTS.idleSparklesContainer.selector,
+                description: "Idle sparkle effects",
+                condition: () => Boolean(settings.store.hideScreensaver),
+            },
+        ], { name: "screen-cleaner:hider" });
+        hider.hideImmediately();
+        hider.startObserving();
+    },
+    stop() {
+        hider?.stopObserving();
+        hider = null;
+    },
+    onSettingsChange() {
+        hider?.hideImmediately();
     },
 });
@@ -7,8 +7,7 @@
 import styles from "@plugins/streamerMode/styles.css?raw";
 import { Devs } from "@utils/constants";
 import { Logger } from "@utils/logger";
-import definePlugin, { definePluginSettings, onPluginSettingsUpdated } from "@utils/types";
-import { useEffect } from "react";
+import definePlugin, { definePluginSettings } from "@utils/types";
 
 const logger = new Logger("StreamerMode", "#f2d5cf");
 
@@ -67,48 +66,40 @@ const settings = definePluginSettings({
     },
 });
 
-const StreamerMode: React.FC = () => {
-    useEffect(() => {
-        const apply = () => {
-            try {
-                const cfg = settings.store;
-                const html = document.documentElement;
-                html.style.setProperty("--grokness-blur-amount", `${cfg.blurAmount}px`);
-                html.classList.toggle("streamer-mode-active", true);
-                html.classList.toggle("blur-username", Boolean(cfg.blurUsername));
-                html.classList.toggle("blur-email", Boolean(cfg.blurEmail));
-                html.classList.toggle("blur-project-titles", Boolean(cfg.blurProjectTitles));
-                html.classList.toggle("blur-chat-titles", Boolean(cfg.blurChatTitles));
-                html.classList.toggle("blur-task-titles", Boolean(cfg.blurTaskTitles));
-                html.classList.toggle("blur-file-names", Boolean(cfg.blurFileNames));
-                html.classList.toggle("blur-uid", Boolean(cfg.blurUid));
-            } catch (e) {
-                logger.error("update failed:", e);
-            }
-        };
+const BLUR_CLASSES = [
+    "streamer-mode-active",
+    "blur-username",
+    "blur-email",
+    "blur-project-titles",
+    "blur-chat-titles",
+    "blur-task-titles",
+    "blur-file-names",
+    "blur-uid",
+] as const;
 
-        apply();
-        const off = onPluginSettingsUpdated("streamer-mode", apply);
+function apply(): void {
+    try {
+        const cfg = settings.store;
+        const html = document.documentElement;
+        html.style.setProperty("--grokness-blur-amount", `${cfg.blurAmount}px`);
+        html.classList.toggle("streamer-mode-active", true);
+        html.classList.toggle("blur-username", Boolean(cfg.blurUsername));
+        html.classList.toggle("blur-email", Boolean(cfg.blurEmail));
+        html.classList.toggle("blur-project-titles", Boolean(cfg.blurProjectTitles));
+        html.classList.toggle("blur-chat-titles", Boolean(cfg.blurChatTitles));
+        html.classList.toggle("blur-task-titles", Boolean(cfg.blurTaskTitles));
+        html.classList.toggle("blur-file-names", Boolean(cfg.blurFileNames));
+        html.classList.toggle("blur-uid", Boolean(cfg.blurUid));
+    } catch (e) {
+        logger.error("update failed:", e);
+    }
+}
 
-        return () => {
-            const html = document.documentElement;
-            html.style.removeProperty("--grokness-blur-amount");
-            html.classList.remove(
-                "streamer-mode-active",
-                "blur-username",
-                "blur-email",
-                "blur-project-titles",
-                "blur-chat-titles",
-                "blur-task-titles",
-                "blur-file-names",
-                "blur-uid"
-            );
-            off();
-        };
-    }, []);
-
-    return null;
-};
+function clear(): void {
+    const html = document.documentElement;
+    html.style.removeProperty("--grokness-blur-amount");
+    html.classList.remove(...BLUR_CLASSES);
+}
 
 export default definePlugin({
     name: "Streamer Mode",
@@ -118,8 +109,7 @@ export default definePlugin({
     tags: ["privacy", "blur", "streamer"],
     settings,
     styles,
-    ui: {
-        component: StreamerMode,
-        target: "body",
-    },
+    start: apply,
+    stop: clear,
+    onSettingsChange: apply,
 });
@@ -0,0 +1,11 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+declare function GM_getValue<T = unknown>(key: string, defaultValue?: T): T;
+declare function GM_setValue(key: string, value: unknown): void;
+declare function GM_deleteValue(key: string): void;
+declare function GM_listValues(): string[];
+declare const unsafeWindow: Window | undefined;
@@ -0,0 +1,155 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { emitEvent } from "@utils/events";
+import { Logger } from "@utils/logger";
+import { reportPluginError } from "@utils/pluginErrors";
+
+const logger = new Logger("Commands", "#babbf1");
+
+/**
+ * An action shown in the command palette.
+ */
+export interface PluginCommand {
+    /** Unique within the plugin; registered as `<pluginId>:<id>` */
+    readonly id: string;
+    readonly title: string;
+    readonly description?: string;
+    /** Extra search terms that do not appear in the title */
+    readonly keywords?: readonly string[];
+    run(): void | Promise<void>;
+    /** Hide the command while this returns false */
+    when?(): boolean;
+}
+
+export interface RegisteredCommand extends PluginCommand {
+    /** Plugin that registered the command, or null for Grokness built-ins */
+    readonly pluginId: string | null;
+}
+
+export interface CommandMatch {
+    readonly command: RegisteredCommand;
+    readonly score: number;
+}
+
+const commands = new Map<string, RegisteredCommand>();
+
+const notify = () => emitEvent("grokness-commands-updated", { count: commands.size });
+
+/**
+ * Add a command to the palette.
+ * @param pluginId - Owning plugin; its id prefixes the command id and errors are routed to it
+ * @returns Function that removes the command
+ */
+export function registerCommand(command: PluginCommand, pluginId: string | null = null): () => void {
+    const id = pluginId ? `${pluginId}:${command.id}` : command.id;
+    if (commands.has(id)) {
+        logger.warn(`Command ${id} is already registered, replacing it`);
+    }
+    // Keep getters such as a dynamic description working
+    const registered: RegisteredCommand = Object.create(command, {
+        id: { value: id, enumerable: true },
+        pluginId: { value: pluginId, enumerable: true },
+    });
+    commands.set(id, registered);
+    notify();
+    return () => {
+        if (commands.get(id) === registered) {
+            commands.delete(id);
+            notify();
+        }
+    };
+}
+
+/**
+ * Every registered command whose `when` currently allows it.
+ */
+export function getCommands(): RegisteredCommand[] {
+    return Array.from(commands.values()).filter(command => {
+        try {
+            return command.when?.() ?? true;
+        } catch (error) {
+            logger.warn(`when() of command ${command.id} threw:`, error);
+            return false;
+        }
+    });
+}
+
+const isWordStart = (text: string, index: number) => index === 0 || /[\s\-_:/.]/.test(text[index - 1] ?? "");
+
+/**
+ * Score `text` against a fuzzy query where every query character must appear in order.
+ * Consecutive and word-start matches score higher.
+ * @returns The score, or null when the text does not match
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+    const q = query.toLowerCase().replace(/\s+/g, "");
+    const t = text.toLowerCase();
+    if (!q) {
+        return 0;
+    }
+    let score = 0;
+    let streak = 0;
+    let from = 0;
+    for (const ch of q) {
+        const index = t.indexOf(ch, from);
+        if (index === -1) {
+            return null;
+        }
+        streak = index === from && from > 0 ? streak + 1 : 0;
+        score += 1 + streak * 2 + (isWordStart(t, index) ? 3 : 0) - Math.min(index - from, 3) * 0.25;
+        from = index + 1;
+    }
+    // Prefer shorter texts when matches are otherwise equal
+    return score - t.length * 0.01;
+}
+
+const weighted = (score: number | null, weight: number) => (score === null ? null : score * weight);
+
+/**
+ * Available commands matching a query, best first. Titles weigh more than keywords and descriptions.
+ */
+export function searchCommands(query: string): CommandMatch[] {
+    const available = getCommands();
+    if (!query.trim()) {
+        return available
+            .sort((a, b) => a.title.localeCompare(b.title))
+            .map(command => ({ command, score: 0 }));
+    }
+    const matches: CommandMatch[] = [];
+    for (const command of available) {
+        const scores = [
+            weighted(fuzzyScore(query, command.title), 1),
+            ...(command.keywords ?? []).map(keyword => weighted(fuzzyScore(query, keyword), 0.8)),
+            weighted(command.description ? fuzzyScore(query, command.description) : null, 0.5),
+        ].filter((s): s is number => s !== null);
+        if (scores.length > 0) {
+            matches.push({ command, score: Math.max(...scores) });
+        }
+    }
+    return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Run a command, routing failures to the plugin that registered it.
+ */
+export async function runCommand(command: RegisteredCommand): Promise<void> {
+    try {
+        await command.run();
+    } catch (error) {
+        logger.error(`Command ${command.id} failed:`, error);
+        if (command.pluginId) {
+            reportPluginError(command.pluginId, error, "command");
+        }
+    }
+}
+
+/**
+ * Open the command palette, if the Command Palette plugin is running.
+ */
+export function openCommandPalette(): void {
+    emitEvent("grokness-command-palette", { open: true });
+}
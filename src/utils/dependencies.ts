@@ -0,0 +1,57 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { IPlugin } from "@utils/types";
+
+/**
+ * Collect every plugin the given plugin depends on, directly or transitively.
+ * Dependencies come before their dependents in the returned list; unknown ids and cycles are skipped.
+ * @param pluginId - Plugin whose dependencies should be collected
+ * @param plugins - All known plugins
+ */
+export function collectDependencies(pluginId: string, plugins: readonly IPlugin[]): IPlugin[] {
+    const byId = new Map(plugins.map(p => [p.id, p]));
+    const visited = new Set<string>([pluginId]);
+    const result: IPlugin[] = [];
+
+    const visit = (id: string): void => {
+        for (const depId of byId.get(id)?.dependencies ?? []) {
+            const dep = byId.get(depId);
+            if (!dep || visited.has(depId)) {
+                continue;
+            }
+            visited.add(depId);
+            visit(depId);
+            result.push(dep);
+        }
+    };
+
+    visit(pluginId);
+    return result;
+}
+
+/**
+ * Collect every plugin that depends on the given plugin, directly or transitively.
+ * @param pluginId - Plugin whose dependents should be collected
+ * @param plugins - All known plugins
+ */
+export function collectDependents(pluginId: string, plugins: readonly IPlugin[]): IPlugin[] {
+    const visited = new Set<string>([pluginId]);
+    const result: IPlugin[] = [];
+    const queue = [pluginId];
+
+    for (let id = queue.shift(); id !== undefined; id = queue.shift()) {
+        for (const plugin of plugins) {
+            if (!visited.has(plugin.id) && plugin.dependencies.includes(id)) {
+                visited.add(plugin.id);
+                result.push(plugin);
+                queue.push(plugin.id);
+            }
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,179 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { type ElementHeuristic, findBestElement, rankElementsByConfig, scoreElement } from "@utils/dom";
+import { LOCATORS } from "@utils/locators";
+import { afterEach, describe, expect, test } from "bun:test";
+
+const hosts: HTMLElement[] = [];
+
+function render(html: string): HTMLElement {
+    const host = document.createElement("div");
+    host.innerHTML = html;
+    document.body.appendChild(host);
+    hosts.push(host);
+    return host;
+}
+
+afterEach(() => {
+    hosts.splice(0).forEach(host => host.remove());
+});
+
+const ids = (elements: readonly { element: HTMLElement; }[]) => elements.map(m => m.element.id);
+
+describe("scoreElement", () => {
+    test("sums the weights of satisfied heuristics and names them", () => {
+        const host = render("<button id=\"b\" role=\"tab\" aria-label=\"Edit message\"><svg><path d=\"M1 2\"/></svg></button>");
+        const heuristics: ElementHeuristic[] = [
+            { kind: "aria", label: /edit/i, weight: 4 },
+            { kind: "role", role: "tab" },
+            { kind: "svgPath", d: "M1", name: "icon", weight: 2 },
+            { kind: "text", text: "Save", weight: 8 },
+        ];
+
+        expect(scoreElement(host.querySelector("button")!, heuristics)).toEqual({ score: 7, matched: ["aria", "role", "icon"] });
+        expect(scoreElement(host.querySelector("button")!)).toEqual({ score: 0, matched: [] });
+    });
+});
+
+describe("rankElementsByConfig", () => {
+    test("uses the primary config when it matches and reports the strategy", () => {
+        const root = render("<button id=\"save\" aria-label=\"Save\"></button><button id=\"other\"></button>");
+
+        const ranked = rankElementsByConfig({ selector: "button", root, ariaLabel: "Save", anyOf: [{ selector: "button" }] });
+
+        expect(ranked.success && ranked.data.map(m => [m.element.id, m.strategy])).toEqual([["save", "primary"]]);
+    });
+
+    test("tries anyOf fallbacks in order and stops at the first that yields candidates", () => {
+        const root = render("<span id=\"first\" class=\"a\"></span><span id=\"second\" class=\"b\"></span>");
+
+        const ranked = rankElementsByConfig({
+            selector: "span.missing",
+            root,
+            anyOf: [{ selector: "span.none" }, { selector: "span.b" }, { selector: "span" }],
+        });
+
+        expect(ranked.success).toBe(true);
+        if (ranked.success) {
+            expect(ids(ranked.data)).toEqual(["second"]);
+            expect(ranked.data[0]?.strategy).toBe("anyOf[1]");
+        }
+    });
+
+    test("returns an empty list when no config matches and fails on an empty selector", () => {
+        expect(rankElementsByConfig({ selector: "span.missing", anyOf: [{ selector: "span.none" }] })).toEqual({ success: true, data: [] });
+        expect(rankElementsByConfig({ selector: " " }).success).toBe(false);
+    });
+
+    test("ranks by score and keeps document order for ties", () => {
+        const root = render(`
+            <button id="plain"></button>
+            <button id="labelled" aria-label="Edit"></button>
+            <button id="plain2"></button>
+        `);
+
+        const ranked = rankElementsByConfig({ selector: "button", root, heuristics: [{ kind: "aria", label: "Edit" }] });
+
+        expect(ranked.success && ids(ranked.data)).toEqual(["labelled", "plain", "plain2"]);
+        expect(ranked.success && ranked.data[0]?.matched).toEqual(["aria"]);
+    });
+
+    test("discards candidates below minScore and falls through when none are left", () => {
+        const root = render(`
+            <div>
+                <button id="weak" class="primary"></button>
+                <a id="strong" aria-label="Edit"></a>
+                <a id="weak-link"></a>
+            </div>
+        `);
+
+        const ranked = rankElementsByConfig({
+            selector: "button.primary",
+            root,
+            heuristics: [{ kind: "aria", label: "Edit" }],
+            minScore: 1,
+            anyOf: [{ selector: "a" }],
+        });
+
+        expect(ranked.success && ranked.data.map(m => [m.element.id, m.strategy])).toEqual([["strong", "anyOf[0]"]]);
+    });
+
+    test("fallbacks inherit root and heuristics unless they set their own", () => {
+        const host = render(`
+            <section id="outside"><a id="outside-link" aria-label="Edit"></a></section>
+            <section id="inside"><a id="inside-plain"></a><a id="inside-edit" aria-label="Edit"></a></section>
+        `);
+        const root = host.querySelector("#inside")!;
+        const heuristics: ElementHeuristic[] = [{ kind: "aria", label: "Edit" }];
+
+        const inherited = rankElementsByConfig({ selector: "button", root, heuristics, anyOf: [{ selector: "a" }] });
+        expect(inherited.success && ids(inherited.data)).toEqual(["inside-edit", "inside-plain"]);
+
+        const overridden = rankElementsByConfig({
+            selector: "button",
+            root,
+            heuristics,
+            anyOf: [{ selector: "a", root: host, heuristics: [] }],
+        });
+        expect(overridden.success && ids(overridden.data)).toEqual(["outside-link", "inside-plain", "inside-edit"]);
+    });
+});
+
+describe("LOCATORS.CHAT.editButton", () => {
+    const copyIcon = "<svg><rect/><path d=\"M1\"/><path d=\"M2\"/></svg>";
+    const pencilIcon = "<svg><path d=\"M3\"/><path d=\"M4\"/></svg>";
+    const singlePathIcon = "<svg><path d=\"M5\"/></svg>";
+
+    const findEditButton = (container: HTMLElement) => findBestElement({ ...LOCATORS.CHAT.editButton, root: container });
+
+    test("picks the pencil icon among the action buttons", () => {
+        const container = render(`
+            <div class="action-buttons">
+                <button id="copy" class="h-8 w-8 rounded-full">${copyIcon}</button>
+                <button id="retry" class="h-8 w-8 rounded-full">${singlePathIcon}</button>
+                <button id="edit" class="h-8 w-8 rounded-full">${pencilIcon}</button>
+            </div>
+        `);
+
+        const result = findEditButton(container);
+
+        expect(result.success && result.data?.element.id).toBe("edit");
+        expect(result.success && result.data?.strategy).toBe("anyOf[0]");
+    });
+
+    test("falls back to any button and still prefers pencil, then rect-free icons", () => {
+        const withPencil = render(`
+            <button id="copy">${copyIcon}</button>
+            <button id="retry">${singlePathIcon}</button>
+            <button id="edit">${pencilIcon}</button>
+        `);
+        const withoutPencil = render(`<button id="copy">${copyIcon}</button><button id="retry">${singlePathIcon}</button>`);
+        const onlyRect = render(`<button id="copy">${copyIcon}</button><button id="copy2">${copyIcon}</button>`);
+
+        const pencil = findEditButton(withPencil);
+        expect(pencil.success && pencil.data?.element.id).toBe("edit");
+        expect(pencil.success && pencil.data?.strategy).toBe("anyOf[3]");
+        const rectFree = findEditButton(withoutPencil);
+        expect(rectFree.success && rectFree.data?.element.id).toBe("retry");
+        const first = findEditButton(onlyRect);
+        expect(first.success && first.data?.element.id).toBe("copy");
+    });
+
+    test("prefers an explicitly labelled edit button", () => {
+        const container = render(`
+            <div class="action-buttons">
+                <button id="edit" aria-label="Edit">${singlePathIcon}</button>
+                <button id="pencil" class="h-8 w-8 rounded-full">${pencilIcon}</button>
+            </div>
+        `);
+
+        const result = findEditButton(container);
+
+        expect(result.success && result.data?.element.id).toBe("edit");
+        expect(result.success && result.data?.strategy).toBe("primary");
+    });
+});
@@ -5,6 +5,7 @@
  */
 
 import { Logger } from "@utils/logger";
+import { observeMutations } from "@utils/mutationScheduler";
 
 const logger = new Logger("DOM", "#3b82f6");
 
@@ -28,6 +29,35 @@ export type ElementFinderConfig = {
     readonly textMatches?: RegExp;
     readonly timeout?: number;
     readonly waitFor?: boolean;
+    /** Fallback configs tried in order when this one matches nothing. They inherit `root`, `heuristics` and `minScore` unless they set their own */
+    readonly anyOf?: readonly ElementFinderConfig[];
+    /** Soft signals used to rank the candidates that pass the filters above */
+    readonly heuristics?: readonly ElementHeuristic[];
+    /** Candidates scoring below this are discarded */
+    readonly minScore?: number;
+};
+
+/**
+ * A weighted signal that makes a candidate more likely to be the intended element. Weight defaults to 1.
+ */
+export type ElementHeuristic = { readonly weight?: number; readonly name?: string; } & (
+    | { readonly kind: "role"; readonly role: string; }
+    | { readonly kind: "aria"; readonly label: string | RegExp; }
+    | { readonly kind: "text"; readonly text: string | RegExp; }
+    | { readonly kind: "svgPath"; readonly d: string; }
+    | { readonly kind: "structure"; readonly test: (el: HTMLElement) => boolean; }
+);
+
+/**
+ * A candidate picked by a finder config, with how it was found.
+ */
+export type ElementMatch<T extends HTMLElement = HTMLElement> = {
+    readonly element: T;
+    readonly score: number;
+    /** `"primary"` or `"anyOf[i]"`, the config that produced the candidate */
+    readonly strategy: string;
+    /** Names (or kinds) of the heuristics the element satisfied */
+    readonly matched: readonly string[];
 };
 
 /**
@@ -37,6 +67,13 @@ export type Result<T, E = Error> =
     | { readonly success: true; readonly data: T; }
     | { readonly success: false; readonly error: E; };
 
+/**
+ * The page's own window. Userscript managers sandbox `window` once GM APIs are granted and expose the real one as `unsafeWindow`.
+ */
+export function getPageWindow(): Window {
+    return typeof unsafeWindow !== "undefined" ? unsafeWindow : window;
+}
+
 /**
  * Type guard to check if an element is an HTMLElement.
  */
@@ -178,10 +215,53 @@ function elementTextMatches(el: Element, textIncludes?: string, textMatches?: Re
     return true;
 }
 
+function heuristicMatches(el: HTMLElement, heuristic: ElementHeuristic): boolean {
+    switch (heuristic.kind) {
+        case "role":
+            return elementRoleMatches(el, heuristic.role);
+        case "aria":
+            return elementAriaMatches(el, heuristic.label);
+        case "text":
+            return typeof heuristic.text === "string"
+                ? elementTextMatches(el, heuristic.text)
+                : elementTextMatches(el, undefined, heuristic.text);
+        case "svgPath":
+            return elementHasSvgPathWithD(el, heuristic.d);
+        case "structure":
+            return heuristic.test(el);
+    }
+}
+
 /**
- * Returns true if the given element satisfies all conditions in the finder configuration.
+ * Score an element against weighted heuristics.
  */
-export function matchElementByConfig(el: HTMLElement, cfg: ElementFinderConfig): boolean {
+export function scoreElement(el: HTMLElement, heuristics: readonly ElementHeuristic[] = []): { score: number; matched: string[]; } {
+    let score = 0;
+    const matched: string[] = [];
+    for (const heuristic of heuristics) {
+        if (heuristicMatches(el, heuristic)) {
+            score += heuristic.weight ?? 1;
+            matched.push(heuristic.name ?? heuristic.kind);
+        }
+    }
+    return { score, matched };
+}
+
+/**
+ * The primary config followed by its `anyOf` fallbacks, with inherited fields applied.
+ */
+function expandAlternatives(cfg: ElementFinderConfig): Array<{ strategy: string; config: ElementFinderConfig; }> {
+    const { anyOf = [], ...primary } = cfg;
+    return [
+        { strategy: "primary", config: primary },
+        ...anyOf.map((alt, i) => ({
+            strategy: `anyOf[${i}]`,
+            config: { root: cfg.root, heuristics: cfg.heuristics, minScore: cfg.minScore, ...alt },
+        })),
+    ];
+}
+
+function matchesOwnConditions(el: HTMLElement, cfg: ElementFinderConfig): boolean {
     if (!elementMatchesAllClasses(el, cfg.classContains)) {
         return false;
     }
@@ -200,27 +280,65 @@ export function matchElementByConfig(el: HTMLElement, cfg: ElementFinderConfig):
     if (cfg.filter && !cfg.filter(el)) {
         return false;
     }
+    if (cfg.minScore != null && scoreElement(el, cfg.heuristics).score < cfg.minScore) {
+        return false;
+    }
     return true;
 }
 
 /**
- * Enhanced version that returns Result type for better error handling.
+ * Returns true if the given element satisfies all conditions in the finder configuration or in one of its `anyOf` fallbacks.
  */
-export function findElementsByConfig(cfg: ElementFinderConfig): Result<HTMLElement[]> {
+export function matchElementByConfig(el: HTMLElement, cfg: ElementFinderConfig): boolean {
+    return expandAlternatives(cfg).some(({ config }) => el.matches(config.selector) && matchesOwnConditions(el, config));
+}
+
+/**
+ * Candidates of the first config (primary, then each `anyOf` fallback) that yields any,
+ * ranked by heuristic score. Ties keep document order.
+ */
+export function rankElementsByConfig(cfg: ElementFinderConfig): Result<ElementMatch[]> {
     try {
         if (!cfg?.selector?.trim()) {
             return { success: false, error: new Error("Selector cannot be empty") };
         }
 
-        const root = (cfg.root ?? document) as ParentNode;
-        const candidatesResult = querySelectorAll<HTMLElement>(cfg.selector, root);
+        for (const { strategy, config } of expandAlternatives(cfg)) {
+            const root = (config.root ?? document) as ParentNode;
+            const candidatesResult = querySelectorAll<HTMLElement>(config.selector, root);
+            if (!candidatesResult.success) {
+                return candidatesResult;
+            }
 
-        if (!candidatesResult.success) {
-            return candidatesResult;
+            const matches = candidatesResult.data
+                .filter(el => matchesOwnConditions(el, config))
+                .map(element => ({ element, strategy, ...scoreElement(element, config.heuristics) }));
+            if (matches.length > 0) {
+                return { success: true, data: matches.sort((a, b) => b.score - a.score) };
+            }
         }
+        return { success: true, data: [] };
+    } catch (error) {
+        logger.error("rankElementsByConfig failed:", error);
+        return { success: false, error: error as Error };
+    }
+}
 
-        const matching = candidatesResult.data.filter(el => matchElementByConfig(el, cfg));
-        return { success: true, data: matching };
+/**
+ * Best-scoring element for a config, along with the strategy that found it.
+ */
+export function findBestElement(cfg: ElementFinderConfig): Result<ElementMatch | null> {
+    const ranked = rankElementsByConfig(cfg);
+    return ranked.success ? { success: true, data: ranked.data[0] ?? null } : ranked;
+}
+
+/**
+ * Enhanced version that returns Result type for better error handling.
+ */
+export function findElementsByConfig(cfg: ElementFinderConfig): Result<HTMLElement[]> {
+    try {
+        const ranked = rankElementsByConfig(cfg);
+        return ranked.success ? { success: true, data: ranked.data.map(m => m.element) } : ranked;
     } catch (error) {
         logger.error("findElementsByConfig failed:", error);
         return { success: false, error: error as Error };
@@ -232,11 +350,8 @@ export function findElementsByConfig(cfg: ElementFinderConfig): Result<HTMLEleme
  */
 export function findElement(cfg: ElementFinderConfig): Result<HTMLElement | null> {
     try {
-        const allResult = findElementsByConfig(cfg);
-        if (!allResult.success) {
-            return allResult;
-        }
-        return { success: true, data: allResult.data.length ? allResult.data[0]! : null };
+        const best = findBestElement(cfg);
+        return best.success ? { success: true, data: best.data?.element ?? null } : best;
     } catch (error) {
         logger.error("findElement failed:", error);
         return { success: false, error: error as Error };
@@ -271,31 +386,32 @@ export async function waitForElementByConfig(
             return { success: true, data: immediate.data };
         }
 
-        let observer: MutationObserver | null = null;
+        let unsubscribe: (() => void) | null = null;
         return new Promise<Result<HTMLElement>>(resolve => {
             const timer = window.setTimeout(() => {
-                observer?.disconnect();
+                unsubscribe?.();
                 resolve({
                     success: false,
                     error: new Error(`Timeout waiting for selector: ${cfg.selector} (waited ${timeoutMs}ms)`)
                 });
             }, timeoutMs);
 
-            observer = new MutationObserver(() => {
+            unsubscribe = observeMutations(() => {
                 const found = findElement(cfg);
                 if (found.success && found.data) {
                     clearTimeout(timer);
-                    observer?.disconnect();
+                    unsubscribe?.();
                     resolve({ success: true, data: found.data });
                 } else if (!found.success) {
                     clearTimeout(timer);
-                    observer?.disconnect();
+                    unsubscribe?.();
                     resolve(found);
                 }
+            }, {
+                name: `waitFor:${cfg.selector}`,
+                root: (cfg.root ?? document) as Node,
+                attributes: true,
             });
-
-            const rootNode = (cfg.root ?? document) as Node;
-            observer.observe(rootNode, { childList: true, subtree: true, attributes: true, characterData: false });
         });
     } catch (error) {
         logger.error("waitForElementByConfig failed:", error);
@@ -423,27 +539,27 @@ export class MutationObserverManager {
         options: MutationObserverInit;
         callback: () => void;
         debounceDelay?: number;
+        name?: string;
     }) {
-        const { target, options, callback, debounceDelay = 100 } = args;
-        let timeout: number | null = null;
-        const observer = new MutationObserver(() => {
-            if (timeout !== null) {
-                clearTimeout(timeout);
-            }
-            timeout = window.setTimeout(() => {
-                timeout = null;
-                callback();
-            }, debounceDelay);
-        });
+        const { target, options, callback, debounceDelay = 100, name = "debouncedObserver" } = args;
+        let unsubscribe: (() => void) | null = null;
+        const disconnect = () => {
+            unsubscribe?.();
+            unsubscribe = null;
+        };
         return {
-            observe: () => observer.observe(target, options),
-            disconnect: () => {
-                if (timeout !== null) {
-                    clearTimeout(timeout);
-                    timeout = null;
-                }
-                observer.disconnect();
+            observe: () => {
+                disconnect();
+                unsubscribe = observeMutations(callback, {
+                    name,
+                    root: target,
+                    childList: !!options.childList,
+                    attributes: options.attributeFilter ?? !!options.attributes,
+                    characterData: !!options.characterData,
+                    debounce: debounceDelay,
+                });
             },
+            disconnect,
         };
     }
 }
@@ -527,17 +643,15 @@ export class DomSelectorBuilder {
 export function createDomElementHider(
     root: Node,
     configs: ElementHideConfig[],
-    options?: { debounce?: number; useRequestAnimationFrame?: boolean; }
+    options?: { debounce?: number; useRequestAnimationFrame?: boolean; name?: string; }
 ): {
     hideImmediately: () => void;
     startObserving: () => void;
     stopObserving: () => void;
     isObserving: () => boolean;
 } {
-    const { debounce = 100, useRequestAnimationFrame = false } = options ?? {};
-    let rafId: number | null = null;
-    let debounceId: number | null = null;
-    let isObserving = false;
+    const { debounce = 100, useRequestAnimationFrame = false, name = "elementHider" } = options ?? {};
+    let unsubscribe: (() => void) | null = null;
 
     const hide = () => {
         for (const cfg of configs) {
@@ -560,57 +674,27 @@ export function createDomElementHider(
         }
     };
 
-    const scheduleHide = () => {
-        if (useRequestAnimationFrame) {
-            if (rafId !== null) {
-                cancelAnimationFrame(rafId);
-            }
-            rafId = requestAnimationFrame(() => {
-                rafId = null;
-                hide();
-            });
-        } else {
-            if (debounceId !== null) {
-                clearTimeout(debounceId);
-            }
-            debounceId = window.setTimeout(() => {
-                debounceId = null;
-                hide();
-            }, debounce);
-        }
-    };
-
-    const mutationObserver = new MutationObserver(scheduleHide);
-
     return {
         hideImmediately: hide,
         startObserving: () => {
-            if (isObserving) {
+            if (unsubscribe) {
                 return;
             }
-            isObserving = true;
-            try {
-                mutationObserver.observe(root, { childList: true, subtree: true, attributes: true });
-                scheduleHide();
-            } catch (error) {
-                logger.error("Failed to start observing:", error);
-                isObserving = false;
-            }
+            // The scheduler already batches per animation frame, so only add a delay when rAF timing is not requested
+            unsubscribe = observeMutations(hide, {
+                name,
+                root,
+                selectors: configs.map(c => c.selector),
+                attributes: true,
+                debounce: useRequestAnimationFrame ? undefined : debounce,
+            });
+            hide();
         },
         stopObserving: () => {
-            if (!isObserving) {
-                return;
-            }
-            isObserving = false;
-            if (rafId !== null) {
-                cancelAnimationFrame(rafId);
-            }
-            if (debounceId !== null) {
-                clearTimeout(debounceId);
-            }
-            mutationObserver.disconnect();
+            unsubscribe?.();
+            unsubscribe = null;
         },
-        isObserving: () => isObserving,
+        isObserving: () => unsubscribe !== null,
     };
 }
 
@@ -739,11 +823,11 @@ export function liveElements<T extends HTMLElement = HTMLElement>(
     root: ParentNode | Document = document,
     onEnter: (el: T) => void,
     onExit?: (el: T) => void,
-    options?: { debounce?: number; }
+    options?: { debounce?: number; name?: string; }
 ) {
     const tracked = new Set<T>();
     const debounceDelay = options?.debounce ?? 50;
-    let timeout: number | null = null;
+    let unsubscribe: (() => void) | null = null;
 
     const scanAdded = () => {
         const nodesResult = querySelectorAll<T>(selector, root);
@@ -772,23 +856,17 @@ export function liveElements<T extends HTMLElement = HTMLElement>(
         scanAdded();
     };
 
-    const observer = new MutationObserver(() => {
-        if (timeout !== null) {
-            clearTimeout(timeout);
-        }
-        timeout = window.setTimeout(() => {
-            timeout = null;
-            rescan();
-        }, debounceDelay);
-    });
-
-    const observe = () => observer.observe(root as Node, { childList: true, subtree: true, attributes: false });
+    const observe = () => {
+        unsubscribe = observeMutations(rescan, {
+            name: options?.name ?? `liveElements:${selector}`,
+            root: root as Node,
+            selectors: [selector],
+            debounce: debounceDelay,
+        });
+    };
     const disconnect = () => {
-        if (timeout !== null) {
-            clearTimeout(timeout);
-            timeout = null;
-        }
-        observer.disconnect();
+        unsubscribe?.();
+        unsubscribe = null;
         tracked.clear();
     };
 
@@ -0,0 +1,62 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { LocatorHealthReport } from "@utils/locatorHealth";
+import { Logger } from "@utils/logger";
+import type { NetworkWindowEvents } from "@utils/networkTap";
+import type { PluginErrorDetail } from "@utils/pluginErrors";
+import type { ProfilesState } from "@utils/profiles";
+import type { Route } from "@utils/router";
+import type { PluginStateChangedDetail, SettingsUpdatedDetail } from "@utils/types";
+
+const logger = new Logger("Events", "#e5c890");
+
+/**
+ * Window events dispatched by Grokness, keyed by name.
+ * Plugins can add their own through declaration merging:
+ *
+ * @example
+ * declare module "@utils/events" {
+ *     interface GroknessEventMap { "my-plugin:refreshed": { count: number; }; }
+ * }
+ */
+export interface GroknessEventMap extends NetworkWindowEvents {
+    "grok-settings-updated": SettingsUpdatedDetail;
+    "grokness-plugin-state": PluginStateChangedDetail;
+    "grokness-plugin-error": PluginErrorDetail;
+    "grokness-profiles-updated": ProfilesState;
+    "grokness-locator-health": LocatorHealthReport;
+    "grokness-route-change": { route: Route; previous: Route | null; };
+    "grokness-commands-updated": { count: number; };
+    "grokness-command-palette": { open: boolean; };
+}
+
+export type GroknessEventName = keyof GroknessEventMap & string;
+
+export type GroknessEventHandler<K extends GroknessEventName> = (detail: GroknessEventMap[K]) => void;
+
+/**
+ * Subscribe to a Grokness event.
+ * @returns Function that unsubscribes
+ */
+export function onEvent<K extends GroknessEventName>(event: K, handler: GroknessEventHandler<K>): () => void {
+    const listener = (e: Event) => {
+        try {
+            handler((e as CustomEvent<GroknessEventMap[K]>).detail);
+        } catch (error) {
+            logger.error(`Handler for ${event} failed:`, error);
+        }
+    };
+    window.addEventListener(event, listener);
+    return () => window.removeEventListener(event, listener);
+}
+
+/**
+ * Dispatch a Grokness event on the window.
+ */
+export function emitEvent<K extends GroknessEventName>(event: K, detail: GroknessEventMap[K]): void {
+    window.dispatchEvent(new CustomEvent(event, { detail }));
+}
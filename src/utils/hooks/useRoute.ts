@@ -0,0 +1,22 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { getCurrentRoute, onRouteChange, type Route } from "@utils/router";
+import { useEffect, useState } from "react";
+
+/**
+ * The current grok.com route, re-rendering on client-side navigation.
+ */
+export function useRoute(): Route {
+    const [route, setRoute] = useState<Route>(getCurrentRoute);
+
+    useEffect(() => {
+        setRoute(getCurrentRoute());
+        return onRouteChange(setRoute);
+    }, []);
+
+    return route;
+}
@@ -0,0 +1,45 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { formatKeybind, isSameKeybind, matchesKeybind } from "@utils/keybinds";
+import { type KeybindOption, validateSettingValue } from "@utils/types";
+import { describe, expect, test } from "bun:test";
+
+const press = (key: string, code: string, modifiers: KeyboardEventInit = {}) =>
+    new KeyboardEvent("keydown", { key, code, ...modifiers });
+
+const keybindOption: KeybindOption = { type: "keybind", description: "Test" };
+
+describe("formatKeybind", () => {
+    test("orders modifiers and uses the physical key for letters", () => {
+        expect(formatKeybind(press("k", "KeyK", { shiftKey: true, ctrlKey: true }))).toBe("Ctrl+Shift+K");
+        expect(formatKeybind(press("˚", "KeyK", { altKey: true }))).toBe("Alt+K");
+        expect(formatKeybind(press("Shift", "ShiftLeft", { shiftKey: true }))).toBeNull();
+    });
+
+    test("names the space and plus keys so the result stays a valid keybind", () => {
+        const space = formatKeybind(press(" ", "Space", { ctrlKey: true }));
+        const plus = formatKeybind(press("+", "Equal", { ctrlKey: true, shiftKey: true }));
+
+        expect(space).toBe("Ctrl+Space");
+        expect(plus).toBe("Ctrl+Shift+Plus");
+        expect(validateSettingValue(keybindOption, space)).toBeNull();
+        expect(validateSettingValue(keybindOption, plus)).toBeNull();
+    });
+});
+
+describe("matchesKeybind", () => {
+    test("ignores modifier order and key case", () => {
+        expect(matchesKeybind(press("p", "KeyP", { altKey: true, shiftKey: true }), "shift+alt+p")).toBe(true);
+        expect(matchesKeybind(press("p", "KeyP", { altKey: true }), "Alt+Shift+P")).toBe(false);
+    });
+
+    test("matches the named space and plus keys", () => {
+        expect(matchesKeybind(press(" ", "Space", { ctrlKey: true }), "Ctrl+Space")).toBe(true);
+        expect(matchesKeybind(press("+", "NumpadAdd"), "Plus")).toBe(true);
+        expect(isSameKeybind("Shift+Plus", "plus+shift")).toBe(true);
+    });
+});
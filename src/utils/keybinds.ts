@@ -0,0 +1,285 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { LOCATORS } from "@utils/locators";
+import { Logger } from "@utils/logger";
+import { reportPluginError } from "@utils/pluginErrors";
+import { getCurrentRoute } from "@utils/router";
+import { getPluginSettings, getPluginSettingsSchema, isPluginEnabled, type KeybindOption, plugins } from "@utils/types";
+
+const MODIFIER_KEYS = new Set(["Control", "Alt", "Shift", "Meta"]);
+
+/** Keys spelled out by name, since `+` is the separator and a bare space would not survive validation */
+const NAMED_KEYS: Readonly<Record<string, string>> = { " ": "Space", "+": "Plus" };
+
+const normalizeKeybind = (bind: string) => bind.split("+").map(p => p.toLowerCase()).sort().join("+");
+
+/**
+ * Format a keyboard event as a keybind string such as `Ctrl+Shift+K`. Space and `+` become `Space` and `Plus`.
+ * @returns The keybind, or null when only modifiers are held
+ */
+export function formatKeybind(event: Pick<KeyboardEvent, "key" | "code" | "ctrlKey" | "altKey" | "shiftKey" | "metaKey">): string | null {
+    if (MODIFIER_KEYS.has(event.key)) {
+        return null;
+    }
+    const parts: string[] = [];
+    if (event.ctrlKey) {
+        parts.push("Ctrl");
+    }
+    if (event.altKey) {
+        parts.push("Alt");
+    }
+    if (event.shiftKey) {
+        parts.push("Shift");
+    }
+    if (event.metaKey) {
+        parts.push("Meta");
+    }
+    // Prefer the physical key for letters and digits so Alt/Option combinations are layout independent
+    const physical = /^(Key[A-Z]|Digit\d)$/.test(event.code) ? event.code.replace(/^(Key|Digit)/, "") : null;
+    parts.push(physical ?? NAMED_KEYS[event.key] ?? (event.key.length === 1 ? event.key.toUpperCase() : event.key));
+    return parts.join("+");
+}
+
+/**
+ * Whether a keyboard event matches a keybind string. Modifier order and key case are ignored.
+ */
+export function matchesKeybind(event: KeyboardEvent, keybind: string): boolean {
+    const pressed = formatKeybind(event);
+    if (!pressed || !keybind) {
+        return false;
+    }
+    return normalizeKeybind(pressed) === normalizeKeybind(keybind);
+}
+
+// =============================================================================
+// KEYBIND REGISTRY
+// =============================================================================
+
+/**
+ * Where a keybind is active: anywhere, only while the chat editor has focus, or only on a conversation page.
+ */
+export type KeybindScope = "global" | "editor" | "chat";
+
+/** Return false to let the event through as if the keybind had not matched */
+export type KeybindHandler = (event: KeyboardEvent) => boolean | void;
+
+/**
+ * A `keybind` setting declared by a plugin, with its current binding.
+ */
+export interface DeclaredKeybind {
+    readonly pluginId: string;
+    readonly pluginName: string;
+    readonly settingKey: string;
+    readonly label: string;
+    readonly binding: string;
+    readonly scope: KeybindScope;
+}
+
+export interface KeybindConflict {
+    /** Conflicting plugin, or null for grok.com's own shortcuts */
+    readonly pluginId: string | null;
+    /** Plugin name, or `grok.com` */
+    readonly source: string;
+    readonly label: string;
+    readonly scope: KeybindScope;
+}
+
+/** Shortcuts grok.com handles itself */
+export const GROK_SHORTCUTS: ReadonlyArray<{ readonly binding: string; readonly label: string; readonly scope: KeybindScope; }> = [
+    { binding: "Enter", label: "Send message", scope: "editor" },
+    { binding: "Shift+Enter", label: "New line", scope: "editor" },
+    { binding: "Ctrl+K", label: "Search conversations", scope: "global" },
+    { binding: "Escape", label: "Close dialog", scope: "global" },
+];
+
+interface KeybindRegistration {
+    readonly pluginId: string;
+    readonly settingKey: string;
+    readonly handler: KeybindHandler;
+}
+
+const logger = new Logger("Keybinds", "#e5c890");
+
+const IS_MAC = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform || navigator.userAgent);
+const EDITOR_SELECTOR = LOCATORS.QUERY_BAR.editor.selector;
+
+const registrations = new Set<KeybindRegistration>();
+let suspended = 0;
+let listening = false;
+
+/**
+ * Whether two keybind strings describe the same combination.
+ */
+export function isSameKeybind(a: string, b: string): boolean {
+    return !!a && !!b && normalizeKeybind(a) === normalizeKeybind(b);
+}
+
+/**
+ * Like {@link matchesKeybind}, but on macOS `Ctrl` in the keybind also matches Cmd.
+ */
+export function matchesPlatformKeybind(event: KeyboardEvent, keybind: string): boolean {
+    return matchesKeybind(event, keybind)
+        || (IS_MAC && /\bCtrl\b/.test(keybind) && matchesKeybind(event, keybind.replace(/\bCtrl\b/, "Meta")));
+}
+
+function keybindOption(pluginId: string, settingKey: string): KeybindOption | null {
+    const option = getPluginSettingsSchema(pluginId)?.[settingKey];
+    return option?.type === "keybind" ? option : null;
+}
+
+function currentBinding(pluginId: string, settingKey: string): string {
+    const option = keybindOption(pluginId, settingKey);
+    const value = getPluginSettings(pluginId)[settingKey] ?? option?.default;
+    return typeof value === "string" ? value : "";
+}
+
+const isTypingTarget = (target: EventTarget | null): boolean =>
+    target instanceof HTMLElement && (target.isContentEditable || target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "SELECT");
+
+function inScope(scope: KeybindScope, event: KeyboardEvent): boolean {
+    switch (scope) {
+        case "editor":
+            return event.target instanceof Element && !!event.target.closest(EDITOR_SELECTOR);
+        case "chat":
+            return getCurrentRoute().name === "chat";
+        default:
+            return true;
+    }
+}
+
+function onKeyDown(event: KeyboardEvent): void {
+    if (suspended > 0 || event.isComposing || MODIFIER_KEYS.has(event.key)) {
+        return;
+    }
+    const typing = isTypingTarget(event.target);
+    for (const registration of registrations) {
+        const { pluginId, settingKey, handler } = registration;
+        const binding = currentBinding(pluginId, settingKey);
+        const scope = keybindOption(pluginId, settingKey)?.scope ?? "global";
+        if (!binding || !matchesPlatformKeybind(event, binding) || !inScope(scope, event)) {
+            continue;
+        }
+        // Plain keys outside the editor scope must not fire while the user is typing
+        if (typing && scope !== "editor" && !event.ctrlKey && !event.altKey && !event.metaKey) {
+            continue;
+        }
+        let handled = false;
+        try {
+            handled = handler(event) !== false;
+        } catch (error) {
+            logger.error(`Keybind ${pluginId}.${settingKey} failed:`, error);
+            reportPluginError(pluginId, error, "keybind");
+        }
+        if (handled) {
+            event.preventDefault();
+            event.stopPropagation();
+            return;
+        }
+    }
+}
+
+function updateListener(): void {
+    const shouldListen = registrations.size > 0;
+    if (shouldListen === listening) {
+        return;
+    }
+    listening = shouldListen;
+    if (shouldListen) {
+        window.addEventListener("keydown", onKeyDown, true);
+    } else {
+        window.removeEventListener("keydown", onKeyDown, true);
+    }
+}
+
+/**
+ * Run `handler` whenever the plugin's `keybind` setting `settingKey` is pressed within its scope.
+ * Rebinding the setting takes effect immediately.
+ * @returns Function that removes the handler
+ */
+export function registerKeybind(pluginId: string, settingKey: string, handler: KeybindHandler): () => void {
+    if (!keybindOption(pluginId, settingKey)) {
+        logger.warn(`${pluginId}.${settingKey} is not a keybind setting`);
+        return () => { };
+    }
+    const registration: KeybindRegistration = { pluginId, settingKey, handler };
+    registrations.add(registration);
+    updateListener();
+
+    // Overriding grok.com's own shortcuts is usually the point, so only clashes between plugins are worth a warning
+    const conflicts = findKeybindConflicts(currentBinding(pluginId, settingKey), { pluginId, settingKey }).filter(c => c.pluginId);
+    if (conflicts.length > 0) {
+        logger.warn(`${pluginId}.${settingKey} conflicts with ${conflicts.map(c => `${c.label} (${c.source})`).join(", ")}`);
+    }
+
+    return () => {
+        registrations.delete(registration);
+        updateListener();
+    };
+}
+
+/**
+ * Stop dispatching keybinds, e.g. while a shortcut is being recorded.
+ * @returns Function that resumes dispatching
+ */
+export function suspendKeybinds(): () => void {
+    suspended++;
+    let resumed = false;
+    return () => {
+        if (!resumed) {
+            resumed = true;
+            suspended--;
+        }
+    };
+}
+
+/**
+ * Every `keybind` setting of the enabled plugins.
+ */
+export function getDeclaredKeybinds(): DeclaredKeybind[] {
+    const declared: DeclaredKeybind[] = [];
+    for (const plugin of plugins) {
+        if (!isPluginEnabled(plugin)) {
+            continue;
+        }
+        for (const [settingKey, option] of Object.entries(plugin.options)) {
+            if (option.type !== "keybind") {
+                continue;
+            }
+            declared.push({
+                pluginId: plugin.id,
+                pluginName: plugin.name,
+                settingKey,
+                label: option.displayName ?? settingKey,
+                binding: currentBinding(plugin.id, settingKey),
+                scope: option.scope ?? "global",
+            });
+        }
+    }
+    return declared;
+}
+
+/**
+ * Enabled plugin keybinds and grok.com shortcuts that use the same combination.
+ * @param owner - The keybind being checked, excluded from the results
+ */
+export function findKeybindConflicts(binding: string, owner?: { pluginId: string; settingKey: string; }): KeybindConflict[] {
+    if (!binding) {
+        return [];
+    }
+    const conflicts: KeybindConflict[] = GROK_SHORTCUTS
+        .filter(shortcut => isSameKeybind(shortcut.binding, binding))
+        .map(shortcut => ({ pluginId: null, source: "grok.com", label: shortcut.label, scope: shortcut.scope }));
+    for (const keybind of getDeclaredKeybinds()) {
+        if (keybind.pluginId === owner?.pluginId && keybind.settingKey === owner.settingKey) {
+            continue;
+        }
+        if (isSameKeybind(keybind.binding, binding)) {
+            conflicts.push({ pluginId: keybind.pluginId, source: keybind.pluginName, label: keybind.label, scope: keybind.scope });
+        }
+    }
+    return conflicts;
+}
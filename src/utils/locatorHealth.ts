@@ -0,0 +1,228 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { type AnySelector, type ElementFinderConfig, rankElementsByConfig, selectAll, selectOne } from "@utils/dom";
+import { type LocatorPath, LOCATORS } from "@utils/locators";
+import { Logger } from "@utils/logger";
+import { onRouteChange } from "@utils/router";
+import { plugins } from "@utils/types";
+
+const logger = new Logger("LocatorHealth", "#ef9f76");
+
+const HISTORY_LIMIT = 20;
+/** Consecutive misses in a relevant context before a locator counts as broken */
+const BROKEN_THRESHOLD = 3;
+const CHECK_INTERVAL_MS = 15_000;
+const ROUTE_SETTLE_MS = 2000;
+const HEALTH_EVENT = "grokness-locator-health";
+
+export type LocatorStatus = "unknown" | "healthy" | "broken";
+
+export interface LocatorSample {
+    readonly at: number;
+    readonly route: string;
+    readonly matches: number;
+    /** Finder strategy that produced the matches, e.g. `"primary"` or `"anyOf[1]"`; null for plain selectors */
+    readonly strategy: string | null;
+}
+
+export interface LocatorHealth {
+    readonly path: LocatorPath;
+    readonly status: LocatorStatus;
+    /** Optional locators only match in some states of the page and are never reported as broken */
+    readonly optional: boolean;
+    readonly history: readonly LocatorSample[];
+    /** Ids of plugins that declared this locator in `requiredLocators` */
+    readonly dependents: readonly string[];
+}
+
+export interface LocatorHealthReport {
+    readonly checkedAt: number | null;
+    readonly locators: readonly LocatorHealth[];
+    /** Broken required locators, keyed by plugin id */
+    readonly degradedPlugins: Readonly<Record<string, readonly LocatorPath[]>>;
+}
+
+/**
+ * When a locator group is expected to match. Groups without a context are evaluated on every route.
+ */
+interface LocatorContext {
+    readonly routes?: RegExp;
+    readonly when?: () => boolean;
+}
+
+const isOpen = (cfg: AnySelector) => () => {
+    const result = selectOne(cfg);
+    return result.success && result.data != null;
+};
+
+const LOCATOR_CONTEXTS: Partial<Record<keyof typeof LOCATORS, LocatorContext>> = {
+    QUERY_BAR: { routes: /^\/($|chat\/|project\/)/ },
+    CHAT_NAV: { routes: /^\/chat\// },
+    CHAT: { routes: /^\/chat\// },
+    AVATAR_MENU: { when: isOpen(LOCATORS.AVATAR_MENU.menu) },
+    SETTINGS_MODAL: { when: isOpen(LOCATORS.SETTINGS_MODAL.title) },
+    CODE_BLOCK: { when: () => document.querySelector("pre code") != null },
+    EFFECTS: { when: () => false },
+};
+
+const OPTIONAL_LOCATORS: ReadonlySet<LocatorPath> = new Set<LocatorPath>([
+    "QUERY_BAR.textarea",
+    "QUERY_BAR.voiceModeButton",
+    "QUERY_BAR.editorPlaceholder",
+    "QUERY_BAR.editorPlaceholderDefault",
+    "QUERY_BAR.editorPlaceholderChat",
+    "QUERY_BAR.projectButton",
+    "CHAT_NAV.pinButton",
+    "CHAT.editButton",
+    "AVATAR_MENU.community",
+    "AVATAR_MENU.manageSubscription",
+]);
+
+const history = new Map<LocatorPath, LocatorSample[]>();
+let lastStatuses = new Map<LocatorPath, LocatorStatus>();
+let checkedAt: number | null = null;
+
+/**
+ * Every static locator with its path. Factory locators such as `buttonByText` are skipped.
+ */
+function listLocators(): Array<{ path: LocatorPath; group: keyof typeof LOCATORS; locator: AnySelector; }> {
+    const entries: Array<{ path: LocatorPath; group: keyof typeof LOCATORS; locator: AnySelector; }> = [];
+    for (const [group, locators] of Object.entries(LOCATORS) as Array<[keyof typeof LOCATORS, Record<string, unknown>]>) {
+        for (const [key, locator] of Object.entries(locators)) {
+            if (typeof locator === "string" || (typeof locator === "object" && locator !== null && "selector" in locator)) {
+                entries.push({ path: `${group}.${key}` as LocatorPath, group, locator: locator as string | ElementFinderConfig });
+            }
+        }
+    }
+    return entries;
+}
+
+function evaluate(locator: AnySelector): Pick<LocatorSample, "matches" | "strategy"> {
+    if (typeof locator === "string") {
+        const result = selectAll(locator);
+        return { matches: result.success ? result.data.length : 0, strategy: null };
+    }
+    const result = rankElementsByConfig(locator);
+    return result.success
+        ? { matches: result.data.length, strategy: result.data[0]?.strategy ?? null }
+        : { matches: 0, strategy: null };
+}
+
+const isRelevant = (context: LocatorContext | undefined, route: string): boolean =>
+    !context || ((!context.routes || context.routes.test(route)) && (!context.when || context.when()));
+
+function statusOf(path: LocatorPath, samples: readonly LocatorSample[]): LocatorStatus {
+    if (samples.length === 0) {
+        return "unknown";
+    }
+    const recent = samples.slice(-BROKEN_THRESHOLD);
+    return !OPTIONAL_LOCATORS.has(path) && recent.length === BROKEN_THRESHOLD && recent.every(s => s.matches === 0)
+        ? "broken"
+        : "healthy";
+}
+
+/**
+ * Evaluate every locator whose context applies to the current page and record the result.
+ * Dispatches `grokness-locator-health` with the updated report.
+ */
+export function checkLocators(): LocatorHealthReport {
+    const route = location.pathname;
+    const now = Date.now();
+
+    for (const { path, group, locator } of listLocators()) {
+        if (!isRelevant(LOCATOR_CONTEXTS[group], route)) {
+            continue;
+        }
+        const samples = history.get(path) ?? [];
+        samples.push({ at: now, route, ...evaluate(locator) });
+        if (samples.length > HISTORY_LIMIT) {
+            samples.shift();
+        }
+        history.set(path, samples);
+    }
+    checkedAt = now;
+
+    const report = getLocatorHealth();
+    for (const locator of report.locators) {
+        if (locator.status === "broken" && lastStatuses.get(locator.path) !== "broken") {
+            logger.warn(`Locator ${locator.path} no longer matches on ${route}`, locator.dependents.length ? `(required by ${locator.dependents.join(", ")})` : "");
+        }
+    }
+    lastStatuses = new Map(report.locators.map(l => [l.path, l.status]));
+    window.dispatchEvent(new CustomEvent(HEALTH_EVENT, { detail: report }));
+    return report;
+}
+
+/**
+ * Current health of every locator, from the recorded history.
+ */
+export function getLocatorHealth(): LocatorHealthReport {
+    const dependentsByPath = new Map<LocatorPath, string[]>();
+    for (const plugin of plugins) {
+        for (const path of plugin.requiredLocators) {
+            dependentsByPath.set(path, [...(dependentsByPath.get(path) ?? []), plugin.id]);
+        }
+    }
+
+    const locators = listLocators().map(({ path }): LocatorHealth => {
+        const samples = history.get(path) ?? [];
+        return {
+            path,
+            status: statusOf(path, samples),
+            optional: OPTIONAL_LOCATORS.has(path),
+            history: [...samples],
+            dependents: dependentsByPath.get(path) ?? [],
+        };
+    });
+
+    const degradedPlugins: Record<string, LocatorPath[]> = {};
+    for (const locator of locators) {
+        if (locator.status !== "broken") {
+            continue;
+        }
+        for (const pluginId of locator.dependents) {
+            (degradedPlugins[pluginId] ??= []).push(locator.path);
+        }
+    }
+
+    return { checkedAt, locators, degradedPlugins };
+}
+
+/**
+ * Broken locators a plugin depends on, empty when the plugin is healthy.
+ */
+export function getDegradedLocators(pluginId: string): readonly LocatorPath[] {
+    return getLocatorHealth().degradedPlugins[pluginId] ?? [];
+}
+
+export function onLocatorHealthChanged(handler: (report: LocatorHealthReport) => void): () => void {
+    const listener = (e: CustomEvent<LocatorHealthReport>) => handler(e.detail);
+    window.addEventListener(HEALTH_EVENT, listener as unknown as EventListener);
+    return () => window.removeEventListener(HEALTH_EVENT, listener as unknown as EventListener);
+}
+
+/**
+ * Check locators periodically and whenever the route changes.
+ * @returns Function that stops monitoring
+ */
+export function startLocatorHealthMonitor(intervalMs = CHECK_INTERVAL_MS): () => void {
+    let settleTimer: number | undefined;
+    const onRoute = () => {
+        // Give the new route a moment to render before judging its locators
+        clearTimeout(settleTimer);
+        settleTimer = window.setTimeout(checkLocators, ROUTE_SETTLE_MS);
+    };
+    const interval = window.setInterval(checkLocators, intervalMs);
+    const stopRouteListener = onRouteChange(onRoute);
+    onRoute();
+
+    return () => {
+        clearInterval(interval);
+        clearTimeout(settleTimer);
+        stopRouteListener();
+    };
+}
@@ -101,7 +101,21 @@ export const LOCATORS = {
     CHAT: {
         messageBubble: el("div.message-bubble.bg-surface-l2"),
         messageContainer: el("div.relative.group"),
-        editButton: button({ ariaLabel: "Edit" }),
+        /** Edit action of a user message; scoped to a message container, falling back to the most pencil-like icon button */
+        editButton: button({
+            ariaLabel: "Edit",
+            anyOf: [
+                el(".action-buttons button.h-8.w-8.rounded-full"),
+                el("button.h-8.w-8.rounded-full"),
+                el(".action-buttons button"),
+                el("button"),
+            ],
+            heuristics: [
+                { kind: "aria", label: /edit/i, weight: 4 },
+                { kind: "structure", name: "pencilIcon", test: el => !el.querySelector("svg rect") && el.querySelectorAll("svg path").length >= 2, weight: 2 },
+                { kind: "structure", name: "noRectIcon", test: el => !el.querySelector("svg rect"), weight: 1 },
+            ],
+        }),
     },
     AVATAR_MENU: {
         wrapper: el("[data-radix-popper-content-wrapper]"),
@@ -167,3 +181,13 @@ export const Locators = LOCATORS;
 export type SidebarLocators = typeof LOCATORS.SIDEBAR;
 export type QueryBarLocators = typeof LOCATORS.QUERY_BAR;
 
+type LocatorGroups = typeof LOCATORS;
+
+/**
+ * Dotted path of a static (non-factory) locator, e.g. `"QUERY_BAR.modelButton"`.
+ */
+export type LocatorPath = {
+    [G in keyof LocatorGroups]: {
+        [K in keyof LocatorGroups[G]]: LocatorGroups[G][K] extends (...args: never[]) => unknown ? never : `${G & string}.${K & string}`;
+    }[keyof LocatorGroups[G]];
+}[keyof LocatorGroups];
@@ -0,0 +1,102 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { MutationScheduler } from "@utils/mutationScheduler";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+
+const frames: FrameRequestCallback[] = [];
+const originalRaf = globalThis.requestAnimationFrame;
+const originalCancelRaf = globalThis.cancelAnimationFrame;
+
+const runFrames = () => frames.splice(0).forEach(callback => callback(performance.now()));
+/** MutationObserver callbacks run as microtasks */
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+let container: HTMLElement;
+const unsubscribers: Array<() => void> = [];
+
+beforeEach(() => {
+    globalThis.requestAnimationFrame = callback => frames.push(callback);
+    globalThis.cancelAnimationFrame = () => void 0;
+    container = document.createElement("div");
+    document.body.appendChild(container);
+});
+
+afterEach(() => {
+    unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+    frames.length = 0;
+    globalThis.requestAnimationFrame = originalRaf;
+    globalThis.cancelAnimationFrame = originalCancelRaf;
+    Reflect.deleteProperty(document, "hidden");
+    container.remove();
+});
+
+describe("MutationScheduler", () => {
+    test("batches a frame's mutations into one dispatch", async () => {
+        const scheduler = new MutationScheduler();
+        const batches: number[] = [];
+        unsubscribers.push(scheduler.subscribe(records => batches.push(records.length), { name: "batch" }));
+
+        container.append(document.createElement("span"));
+        container.append(document.createElement("span"));
+        await settle();
+
+        expect(batches).toEqual([]);
+        expect(frames).toHaveLength(1);
+        runFrames();
+        expect(batches).toEqual([2]);
+    });
+
+    test("skips subscribers whose selectors were not touched, unless the batch overflows", async () => {
+        const scheduler = new MutationScheduler();
+        let dispatches = 0;
+        unsubscribers.push(scheduler.subscribe(() => dispatches++, { name: "selective", selectors: [".never-rendered"] }));
+
+        container.append(document.createElement("span"));
+        await settle();
+        runFrames();
+
+        expect(dispatches).toBe(0);
+        expect(scheduler.getStats().find(s => s.name === "selective")?.skipped).toBe(1);
+
+        for (let i = 0; i < 450; i++) {
+            container.append(document.createElement("span"));
+        }
+        await settle();
+        runFrames();
+
+        expect(dispatches).toBe(1);
+    });
+
+    test("falls back to a timer while the tab is hidden", async () => {
+        Object.defineProperty(document, "hidden", { configurable: true, value: true });
+        const scheduler = new MutationScheduler();
+        let dispatches = 0;
+        unsubscribers.push(scheduler.subscribe(() => dispatches++, { name: "hidden" }));
+
+        container.append(document.createElement("span"));
+        await settle();
+
+        expect(frames).toHaveLength(0);
+        await new Promise(resolve => setTimeout(resolve, 150));
+        expect(dispatches).toBe(1);
+    });
+
+    test("dispatches records taken while re-observing", async () => {
+        const scheduler = new MutationScheduler();
+        let dispatches = 0;
+        unsubscribers.push(scheduler.subscribe(() => dispatches++, { name: "children" }));
+
+        container.append(document.createElement("span"));
+        // Needs attributes too, so the observer is rebuilt before it delivers the record above
+        unsubscribers.push(scheduler.subscribe(() => void 0, { name: "attributes", childList: false, attributes: true }));
+        await settle();
+
+        expect(frames).toHaveLength(1);
+        runFrames();
+        expect(dispatches).toBe(1);
+    });
+});
@@ -0,0 +1,355 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { AnySelector } from "@utils/dom";
+import { Logger } from "@utils/logger";
+
+const logger = new Logger("MutationScheduler", "#a6d189");
+
+/** Past this many touched nodes in one batch, every selector is treated as affected instead of being tested */
+const MAX_TOUCHED_NODES = 400;
+const HIDDEN_FLUSH_DELAY_MS = 100;
+
+export type MutationCallback = (records: readonly MutationRecord[]) => void;
+
+export interface MutationSubscriptionOptions {
+    /** Label used for cost accounting, usually the plugin id followed by what is observed */
+    readonly name: string;
+    /**
+     * Only dispatch when a mutation touches an element matching, containing or inside one of these.
+     * Omit to receive every batch.
+     */
+    readonly selectors?: readonly AnySelector[];
+    /** Only consider mutations inside this node. Defaults to the whole document */
+    readonly root?: Node;
+    readonly childList?: boolean;
+    /** `true` for any attribute, or the attribute names to watch */
+    readonly attributes?: boolean | readonly string[];
+    readonly characterData?: boolean;
+    /** Extra delay after the frame flush, restarted by every batch */
+    readonly debounce?: number;
+}
+
+export interface MutationSubscriberStats {
+    readonly name: string;
+    /** Live subscriptions under this name */
+    readonly subscriptions: number;
+    readonly dispatches: number;
+    /** Batches that were not dispatched because no registered selector was affected */
+    readonly skipped: number;
+    readonly totalMs: number;
+    readonly maxMs: number;
+    readonly lastDispatchAt: number | null;
+}
+
+interface Subscriber {
+    readonly callback: MutationCallback;
+    readonly options: MutationSubscriptionOptions;
+    readonly selectors: readonly string[];
+    buffered: MutationRecord[];
+    timer: number | null;
+}
+
+type MutableStats = { -readonly [K in keyof MutationSubscriberStats]: MutationSubscriberStats[K] };
+
+const selectorStrings = (sel: AnySelector): string[] =>
+    typeof sel === "string" ? [sel] : [sel.selector, ...(sel.anyOf ?? []).flatMap(selectorStrings)];
+
+function acceptsRecord(options: MutationSubscriptionOptions, record: MutationRecord): boolean {
+    switch (record.type) {
+        case "childList":
+            if (options.childList === false) {
+                return false;
+            }
+            break;
+        case "attributes":
+            if (!options.attributes) {
+                return false;
+            }
+            if (Array.isArray(options.attributes) && !options.attributes.includes(record.attributeName ?? "")) {
+                return false;
+            }
+            break;
+        case "characterData":
+            if (!options.characterData) {
+                return false;
+            }
+            break;
+    }
+    return !options.root || options.root === document || options.root.contains(record.target);
+}
+
+function touchedElements(records: readonly MutationRecord[]): Set<Element> {
+    const touched = new Set<Element>();
+    const add = (node: Node | null) => {
+        const el = node instanceof Element ? node : node?.parentElement;
+        if (el) {
+            touched.add(el);
+        }
+    };
+    for (const record of records) {
+        add(record.target);
+        record.addedNodes.forEach(add);
+        record.removedNodes.forEach(node => node instanceof Element && touched.add(node));
+        if (touched.size > MAX_TOUCHED_NODES) {
+            break;
+        }
+    }
+    return touched;
+}
+
+/**
+ * One document-wide MutationObserver shared by every UI patch, hider and plugin observer.
+ * Records are batched once per animation frame and only dispatched to subscribers whose selectors could be affected.
+ */
+export class MutationScheduler {
+    private observer: MutationObserver | null = null;
+    private observedInit = "";
+    private readonly subscribers = new Set<Subscriber>();
+    private readonly selectorIndex = new Map<string, Set<Subscriber>>();
+    private readonly stats = new Map<string, MutableStats>();
+    private pending: MutationRecord[] = [];
+    private frame: number | null = null;
+    private timer: number | null = null;
+    private readonly invalidSelectors = new Set<string>();
+
+    /**
+     * Receive batched mutations.
+     * @returns Function that unsubscribes
+     */
+    subscribe(callback: MutationCallback, options: MutationSubscriptionOptions): () => void {
+        const subscriber: Subscriber = {
+            callback,
+            options,
+            selectors: (options.selectors ?? []).flatMap(selectorStrings),
+            buffered: [],
+            timer: null,
+        };
+        this.subscribers.add(subscriber);
+        for (const selector of subscriber.selectors) {
+            const set = this.selectorIndex.get(selector) ?? new Set<Subscriber>();
+            set.add(subscriber);
+            this.selectorIndex.set(selector, set);
+        }
+        this.statsFor(options.name).subscriptions++;
+        this.reobserve();
+
+        let active = true;
+        return () => {
+            if (!active) {
+                return;
+            }
+            active = false;
+            this.unsubscribe(subscriber);
+        };
+    }
+
+    /**
+     * Dispatch queued records now instead of waiting for the next frame.
+     */
+    flush(): void {
+        this.cancelScheduledFlush();
+        if (this.observer) {
+            this.pending.push(...this.observer.takeRecords());
+        }
+        const records = this.pending;
+        this.pending = [];
+        if (records.length === 0) {
+            return;
+        }
+
+        const touched = touchedElements(records);
+        const affected = this.affectedSubscribers(touched);
+
+        for (const subscriber of Array.from(this.subscribers)) {
+            if (!this.subscribers.has(subscriber)) {
+                continue;
+            }
+            const relevant = records.filter(r => acceptsRecord(subscriber.options, r));
+            if (relevant.length === 0) {
+                continue;
+            }
+            if (subscriber.selectors.length > 0 && !affected.has(subscriber)) {
+                this.statsFor(subscriber.options.name).skipped++;
+                continue;
+            }
+            this.deliver(subscriber, relevant);
+        }
+    }
+
+    /**
+     * Dispatch counts and callback time per subscriber name, most expensive first.
+     */
+    getStats(): MutationSubscriberStats[] {
+        return Array.from(this.stats.values(), s => ({ ...s })).sort((a, b) => b.totalMs - a.totalMs);
+    }
+
+    private unsubscribe(subscriber: Subscriber): void {
+        this.subscribers.delete(subscriber);
+        for (const selector of subscriber.selectors) {
+            const set = this.selectorIndex.get(selector);
+            set?.delete(subscriber);
+            if (set?.size === 0) {
+                this.selectorIndex.delete(selector);
+            }
+        }
+        if (subscriber.timer !== null) {
+            clearTimeout(subscriber.timer);
+            subscriber.timer = null;
+        }
+        this.statsFor(subscriber.options.name).subscriptions--;
+        this.reobserve();
+    }
+
+    private affectedSubscribers(touched: Set<Element>): Set<Subscriber> {
+        const affected = new Set<Subscriber>();
+        const overflow = touched.size > MAX_TOUCHED_NODES;
+        for (const [selector, subscribers] of this.selectorIndex) {
+            if (overflow || this.selectorAffected(selector, touched)) {
+                subscribers.forEach(s => affected.add(s));
+            }
+        }
+        return affected;
+    }
+
+    private selectorAffected(selector: string, touched: Set<Element>): boolean {
+        try {
+            for (const el of touched) {
+                if (el.closest(selector) || el.querySelector(selector)) {
+                    return true;
+                }
+            }
+            return false;
+        } catch (error) {
+            if (!this.invalidSelectors.has(selector)) {
+                this.invalidSelectors.add(selector);
+                logger.warn(`Invalid selector "${selector}", dispatching on every batch:`, error);
+            }
+            return true;
+        }
+    }
+
+    private deliver(subscriber: Subscriber, records: MutationRecord[]): void {
+        const { debounce } = subscriber.options;
+        if (!debounce || debounce <= 0) {
+            this.run(subscriber, records);
+            return;
+        }
+        subscriber.buffered.push(...records);
+        if (subscriber.timer !== null) {
+            clearTimeout(subscriber.timer);
+        }
+        subscriber.timer = window.setTimeout(() => {
+            subscriber.timer = null;
+            const { buffered } = subscriber;
+            subscriber.buffered = [];
+            if (this.subscribers.has(subscriber)) {
+                this.run(subscriber, buffered);
+            }
+        }, debounce);
+    }
+
+    private run(subscriber: Subscriber, records: readonly MutationRecord[]): void {
+        const stats = this.statsFor(subscriber.options.name);
+        const start = performance.now();
+        try {
+            subscriber.callback(records);
+        } catch (error) {
+            logger.error(`Mutation subscriber ${subscriber.options.name} failed:`, error);
+        }
+        const elapsed = performance.now() - start;
+        stats.dispatches++;
+        stats.totalMs += elapsed;
+        stats.maxMs = Math.max(stats.maxMs, elapsed);
+        stats.lastDispatchAt = Date.now();
+    }
+
+    private statsFor(name: string): MutableStats {
+        let stats = this.stats.get(name);
+        if (!stats) {
+            stats = { name, subscriptions: 0, dispatches: 0, skipped: 0, totalMs: 0, maxMs: 0, lastDispatchAt: null };
+            this.stats.set(name, stats);
+        }
+        return stats;
+    }
+
+    /**
+     * Observe with the union of what subscribers need, or stop observing when there are none.
+     */
+    private reobserve(): void {
+        const subscribers = Array.from(this.subscribers, s => s.options);
+        const init: MutationObserverInit = {
+            subtree: true,
+            childList: subscribers.some(o => o.childList !== false),
+            attributes: subscribers.some(o => !!o.attributes),
+            characterData: subscribers.some(o => !!o.characterData),
+        };
+        const key = subscribers.length === 0 ? "" : JSON.stringify(init);
+        if (key === this.observedInit) {
+            return;
+        }
+        this.observedInit = key;
+
+        if (this.observer) {
+            this.pending.push(...this.observer.takeRecords());
+            this.observer.disconnect();
+        }
+        if (!key) {
+            this.observer = null;
+            this.pending = [];
+            this.cancelScheduledFlush();
+            return;
+        }
+        this.observer ??= new MutationObserver(records => {
+            this.pending.push(...records);
+            this.scheduleFlush();
+        });
+        this.observer.observe(document, init);
+        // Records taken from the old observer never reach the new one's callback
+        if (this.pending.length > 0) {
+            this.scheduleFlush();
+        }
+    }
+
+    private scheduleFlush(): void {
+        if (this.frame !== null || this.timer !== null) {
+            return;
+        }
+        // Animation frames are paused in background tabs, so fall back to a timer there
+        if (typeof requestAnimationFrame === "function" && !document.hidden) {
+            this.frame = requestAnimationFrame(() => {
+                this.frame = null;
+                this.flush();
+            });
+        } else {
+            this.timer = window.setTimeout(() => {
+                this.timer = null;
+                this.flush();
+            }, HIDDEN_FLUSH_DELAY_MS);
+        }
+    }
+
+    private cancelScheduledFlush(): void {
+        if (this.frame !== null) {
+            cancelAnimationFrame(this.frame);
+            this.frame = null;
+        }
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+}
+
+export const mutationScheduler = new MutationScheduler();
+
+/**
+ * Subscribe to batched DOM mutations through the shared scheduler.
+ * @returns Function that unsubscribes
+ */
+export function observeMutations(callback: MutationCallback, options: MutationSubscriptionOptions): () => void {
+    return mutationScheduler.subscribe(callback, options);
+}
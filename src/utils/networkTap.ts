@@ -0,0 +1,341 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { chatEvents, collectChatCompletion } from "@api/chat";
+import { detectStreamFormat, parseStream } from "@api/stream";
+import type {
+    ChatCompletion,
+    JsonValue,
+    NewConversationRequest,
+    RateLimitData,
+    RateLimitRequest,
+    SendMessageRequest,
+    SubscriptionsResponse
+} from "@api/types";
+import { getPageWindow } from "@utils/dom";
+import { emitEvent, onEvent } from "@utils/events";
+import { Logger } from "@utils/logger";
+import { onPageMessage, postToContentScript, USES_PAGE_SCRIPT } from "@utils/pageBridge";
+
+const logger = new Logger("NetworkTap", "#81c8be");
+
+const TAP_FLAG = "__groknessNetworkTapped";
+
+export interface MessageSentDetail {
+    /** `null` when the message starts a new conversation */
+    conversationId: string | null;
+    request: Partial<NewConversationRequest & SendMessageRequest>;
+}
+
+export interface ResponseCompletedDetail {
+    conversationId: string | null;
+    ok: boolean;
+    status: number;
+    /** Parsed reply, `null` when the request failed or the stream was cut off */
+    completion: ChatCompletion | null;
+}
+
+export interface RateLimitUpdatedDetail {
+    request: Partial<RateLimitRequest>;
+    data: RateLimitData;
+}
+
+export interface AssetsUpdatedDetail {
+    method: string;
+    assetId: string | null;
+}
+
+export interface SubscriptionsUpdatedDetail {
+    data: SubscriptionsResponse;
+}
+
+/**
+ * Events derived from grok.com's own traffic.
+ */
+export interface NetworkEventMap {
+    "message:sent": MessageSentDetail;
+    "response:completed": ResponseCompletedDetail;
+    "rateLimit:updated": RateLimitUpdatedDetail;
+    "assets:updated": AssetsUpdatedDetail;
+    "subscriptions:updated": SubscriptionsUpdatedDetail;
+}
+
+export type NetworkEventName = keyof NetworkEventMap;
+
+/** A network event as relayed from the page script */
+export type NetworkEventMessage = { [K in NetworkEventName]: { event: K; detail: NetworkEventMap[K]; }; }[NetworkEventName];
+
+/** Window event names the tap dispatches under */
+export type NetworkWindowEvents = { [K in NetworkEventName as `grokness-network:${K}`]: NetworkEventMap[K]; };
+
+export type ClassifiedRequest =
+    | { kind: "newConversation"; method: string; url: URL; }
+    | { kind: "sendMessage"; method: string; url: URL; conversationId: string; }
+    | { kind: "rateLimits"; method: string; url: URL; }
+    | { kind: "assets"; method: string; url: URL; assetId: string | null; }
+    | { kind: "subscriptions"; method: string; url: URL; };
+
+interface TappedResponse {
+    status: number;
+    ok: boolean;
+    contentType: string | null;
+    body: ReadableStream<Uint8Array> | null;
+}
+
+/**
+ * Match a request against the grok.com endpoints the tap understands.
+ * @returns The endpoint kind, or `null` for anything else
+ */
+export function classifyRequest(method: string, rawUrl: string): ClassifiedRequest | null {
+    const page = getPageWindow();
+    let url: URL;
+    try {
+        url = new URL(rawUrl, page.location.href);
+    } catch {
+        return null;
+    }
+    if (url.origin !== page.location.origin) {
+        return null;
+    }
+    const path = url.pathname.replace(/\/$/, "");
+    method = method.toUpperCase();
+
+    if (method === "POST" && path === "/rest/app-chat/conversations/new") {
+        return { kind: "newConversation", method, url };
+    }
+    const reply = method === "POST" ? /^\/rest\/app-chat\/conversations\/([^/]+)\/responses$/.exec(path) : null;
+    if (reply?.[1]) {
+        return { kind: "sendMessage", method, url, conversationId: decodeURIComponent(reply[1]) };
+    }
+    if ((method === "POST" && path === "/rest/rate-limits") || (method === "GET" && path === "/rate_limits")) {
+        return { kind: "rateLimits", method, url };
+    }
+    const asset = /^\/rest\/assets(?:\/([^/]+))?$/.exec(path);
+    if (asset) {
+        return { kind: "assets", method, url, assetId: asset[1] ? decodeURIComponent(asset[1]) : null };
+    }
+    if (method === "GET" && path === "/rest/subscriptions") {
+        return { kind: "subscriptions", method, url };
+    }
+    return null;
+}
+
+/**
+ * Subscribe to an event derived from grok.com's traffic. Installs the tap if it is not in place yet.
+ * @returns Function that unsubscribes
+ */
+export function onNetworkEvent<K extends NetworkEventName>(event: K, handler: (detail: NetworkEventMap[K]) => void): () => void {
+    installNetworkTap();
+    return onEvent(`grokness-network:${event}`, handler as (detail: unknown) => void);
+}
+
+function dispatchNetworkEvent<K extends NetworkEventName>(event: K, detail: NetworkEventMap[K]): void {
+    emitEvent(`grokness-network:${event}`, detail as never);
+}
+
+/** Where the wrappers report to; the page script swaps this for the bridge */
+let emitNetworkEvent = dispatchNetworkEvent;
+
+const parseJson = (text: string | null): JsonValue | null => {
+    if (!text) {
+        return null;
+    }
+    try {
+        return JSON.parse(text) as JsonValue;
+    } catch {
+        return null;
+    }
+};
+
+const asObject = (v: JsonValue | null): Record<string, JsonValue> =>
+    typeof v === "object" && v !== null && !Array.isArray(v) ? v as Record<string, JsonValue> : {};
+
+async function readJson(res: TappedResponse): Promise<JsonValue | null> {
+    return res.body ? parseJson(await new Response(res.body).text()) : null;
+}
+
+async function handleChat(route: ClassifiedRequest, requestBody: Promise<string | null>, response: Promise<TappedResponse>): Promise<void> {
+    const conversationId = route.kind === "sendMessage" ? route.conversationId : null;
+    emitNetworkEvent("message:sent", { conversationId, request: asObject(parseJson(await requestBody)) });
+
+    let status = 0;
+    try {
+        const res = await response;
+        ({ status } = res);
+        if (!res.ok || !res.body) {
+            emitNetworkEvent("response:completed", { conversationId, ok: false, status, completion: null });
+            return;
+        }
+        const frames = parseStream<JsonValue>(res.body, detectStreamFormat(res.contentType));
+        const completion = await collectChatCompletion(chatEvents(frames, route.url.href), conversationId);
+        emitNetworkEvent("response:completed", { conversationId: completion.conversationId, ok: true, status, completion });
+    } catch (error) {
+        logger.debug("Chat stream ended without a reply:", error);
+        emitNetworkEvent("response:completed", { conversationId, ok: false, status, completion: null });
+    }
+}
+
+async function handleExchange(route: ClassifiedRequest, requestBody: Promise<string | null>, response: Promise<TappedResponse>): Promise<void> {
+    if (route.kind === "newConversation" || route.kind === "sendMessage") {
+        return handleChat(route, requestBody, response);
+    }
+    const res = await response;
+    if (!res.ok) {
+        await res.body?.cancel();
+        return;
+    }
+    switch (route.kind) {
+        case "rateLimits": {
+            const data = asObject(await readJson(res)) as RateLimitData;
+            const source = route.method === "GET" ? Object.fromEntries(route.url.searchParams) : asObject(parseJson(await requestBody));
+            const request: Partial<RateLimitRequest> = {};
+            if (typeof source.requestKind === "string") {
+                request.requestKind = source.requestKind;
+            }
+            if (typeof source.modelName === "string") {
+                request.modelName = source.modelName;
+            }
+            emitNetworkEvent("rateLimit:updated", { request, data });
+            break;
+        }
+        case "assets":
+            await res.body?.cancel();
+            if (route.method !== "GET") {
+                emitNetworkEvent("assets:updated", { method: route.method, assetId: route.assetId });
+            }
+            break;
+        case "subscriptions": {
+            const data = await readJson(res);
+            if (data) {
+                emitNetworkEvent("subscriptions:updated", { data: data as unknown as SubscriptionsResponse });
+            }
+            break;
+        }
+    }
+}
+
+function tap(route: ClassifiedRequest, requestBody: Promise<string | null>, response: Promise<TappedResponse>): void {
+    handleExchange(route, requestBody, response).catch(error => logger.debug(`Failed to inspect ${route.method} ${route.url.pathname}:`, error));
+}
+
+const isRequest = (input: unknown): input is Request =>
+    typeof input === "object" && input !== null && !(input instanceof URL) && "clone" in input && "method" in input;
+
+function wrapFetch(w: Window): void {
+    const originalFetch = w.fetch;
+    w.fetch = function (input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+        let route: ClassifiedRequest | null = null;
+        let requestBody: Promise<string | null> = Promise.resolve(null);
+        try {
+            const method = init?.method ?? (isRequest(input) ? input.method : "GET");
+            route = classifyRequest(method, isRequest(input) ? input.url : String(input));
+            if (route) {
+                // Request bodies are consumed by the real fetch, so read a copy first
+                requestBody = typeof init?.body === "string"
+                    ? Promise.resolve(init.body)
+                    : isRequest(input) && init?.body === undefined ? input.clone().text().catch(() => null) : Promise.resolve(null);
+            }
+        } catch (error) {
+            logger.debug("Failed to classify fetch:", error);
+        }
+
+        const promise = originalFetch.call(this ?? w, input, init);
+        if (route) {
+            // Registered before the caller's handlers, so the clone is taken before the page reads the body
+            tap(route, requestBody, promise.then(res => ({
+                status: res.status,
+                ok: res.ok,
+                contentType: res.headers.get("content-type"),
+                body: res.clone().body,
+            })));
+        }
+        return promise;
+    };
+}
+
+function wrapXhr(w: Window): void {
+    const proto = (w as Window & typeof globalThis).XMLHttpRequest?.prototype;
+    if (!proto) {
+        return;
+    }
+    const requests = new WeakMap<XMLHttpRequest, { method: string; url: string; }>();
+    const { open, send } = proto;
+
+    proto.open = function (this: XMLHttpRequest, method: string, url: string | URL, ...rest: unknown[]) {
+        requests.set(this, { method, url: String(url) });
+        return (open as (...args: unknown[]) => void).apply(this, [method, url, ...rest]);
+    } as XMLHttpRequest["open"];
+
+    proto.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+        const info = requests.get(this);
+        const route = info ? classifyRequest(info.method, info.url) : null;
+        if (route) {
+            const response = new Promise<TappedResponse>((resolve, reject) => {
+                this.addEventListener("loadend", () => {
+                    if (this.status === 0) {
+                        reject(new Error("Request did not complete"));
+                        return;
+                    }
+                    const text = this.responseType === "" || this.responseType === "text"
+                        ? this.responseText
+                        : this.responseType === "json" ? JSON.stringify(this.response) : null;
+                    resolve({
+                        status: this.status,
+                        ok: this.status >= 200 && this.status < 300,
+                        contentType: this.getResponseHeader("content-type"),
+                        body: text === null ? null : new Response(text).body,
+                    });
+                }, { once: true });
+            });
+            tap(route, Promise.resolve(typeof body === "string" ? body : null), response);
+        }
+        return send.call(this, body);
+    };
+}
+
+function wrapWindow(w: Window): void {
+    const flags = w as unknown as Record<string, unknown>;
+    if (flags[TAP_FLAG]) {
+        return;
+    }
+    flags[TAP_FLAG] = true;
+    try {
+        wrapFetch(w);
+        wrapXhr(w);
+        logger.debug("Network tap installed");
+    } catch (error) {
+        logger.error("Failed to install network tap:", error);
+    }
+}
+
+/**
+ * Wrap the page's `fetch` and `XMLHttpRequest` so its requests to known endpoints are re-emitted as
+ * network events. Runs at document_start so the app's first requests are seen. Safe to call repeatedly.
+ *
+ * Extension builds cannot reach the page's globals from here, so they only listen for the events
+ * `installPageNetworkTap` relays from the MAIN world.
+ */
+export function installNetworkTap(): void {
+    if (!USES_PAGE_SCRIPT) {
+        wrapWindow(getPageWindow());
+        return;
+    }
+    const flags = window as unknown as Record<string, unknown>;
+    if (flags[TAP_FLAG]) {
+        return;
+    }
+    flags[TAP_FLAG] = true;
+    onPageMessage("network", ({ event, detail }) => dispatchNetworkEvent(event, detail));
+    logger.debug("Listening for network events from the page script");
+}
+
+/**
+ * Install the tap from the MAIN-world page script, relaying its events to the loader.
+ */
+export function installPageNetworkTap(): void {
+    emitNetworkEvent = (event, detail) => postToContentScript("network", { event, detail } as NetworkEventMessage);
+    wrapWindow(window);
+}
@@ -0,0 +1,110 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { NetworkEventMessage } from "@utils/networkTap";
+import type { CodePatchStatusMessage, SerializedCodePatch } from "@webpack/patcher";
+
+const BRIDGE_SOURCE = "grokness-page-bridge";
+const CONTENT_EVENT = "grokness-content-bridge";
+const PAGE_READY_EVENT = "grokness-page-ready";
+
+/**
+ * Messages the MAIN-world page script sends to the loader, keyed by type.
+ */
+export interface PageMessageMap {
+    /** A client-side navigation happened */
+    "history": { href: string; };
+    /** grok.com's own traffic hit an endpoint the network tap understands */
+    "network": NetworkEventMessage;
+    /** A forwarded code patch was applied to a module or failed */
+    "code-patch": CodePatchStatusMessage;
+}
+
+export type PageMessageType = keyof PageMessageMap;
+
+/**
+ * Messages the loader sends to the MAIN-world page script, keyed by type.
+ */
+export interface ContentMessageMap {
+    /** Code patches for the page script's webpack hook */
+    "code-patches": { patches: SerializedCodePatch[]; };
+}
+
+export type ContentMessageType = keyof ContentMessageMap;
+
+/**
+ * Extension content scripts run in an isolated world, where `history`, `fetch`, `XMLHttpRequest` and the webpack
+ * chunk globals are not the page's own. In those builds the hooks live in the MAIN-world `page.ts` script and talk
+ * to the loader over this bridge; the userscript build reaches the page directly through `getPageWindow()`.
+ */
+export const USES_PAGE_SCRIPT = process.env.BUILD_TARGET === "extension";
+
+/**
+ * Send a message from the page script to the loader.
+ */
+export function postToContentScript<K extends PageMessageType>(type: K, payload: PageMessageMap[K]): void {
+    window.postMessage({ source: BRIDGE_SOURCE, type, payload }, location.origin);
+}
+
+/**
+ * Listen for messages from the page script.
+ * @returns Function that unsubscribes
+ */
+export function onPageMessage<K extends PageMessageType>(type: K, handler: (payload: PageMessageMap[K]) => void): () => void {
+    const listener = (e: MessageEvent) => {
+        const data = e.data as { source?: unknown; type?: unknown; payload?: unknown; } | null;
+        if (e.source !== window || data?.source !== BRIDGE_SOURCE || data.type !== type) {
+            return;
+        }
+        handler(data.payload as PageMessageMap[K]);
+    };
+    window.addEventListener("message", listener);
+    return () => window.removeEventListener("message", listener);
+}
+
+/**
+ * Send a message from the loader to the page script. DOM events are dispatched synchronously across worlds,
+ * so the page script receives it before grok.com's scripts get a chance to run. Payloads travel as JSON.
+ */
+export function postToPageScript<K extends ContentMessageType>(type: K, payload: ContentMessageMap[K]): void {
+    window.dispatchEvent(new CustomEvent(CONTENT_EVENT, { detail: JSON.stringify({ type, payload }) }));
+}
+
+/**
+ * Listen for messages from the loader.
+ * @returns Function that unsubscribes
+ */
+export function onContentScriptMessage<K extends ContentMessageType>(type: K, handler: (payload: ContentMessageMap[K]) => void): () => void {
+    const listener = (e: Event) => {
+        const { detail } = (e as CustomEvent<unknown>);
+        if (typeof detail !== "string") {
+            return;
+        }
+        const data = JSON.parse(detail) as { type?: unknown; payload?: unknown; };
+        if (data.type === type) {
+            handler(data.payload as ContentMessageMap[K]);
+        }
+    };
+    window.addEventListener(CONTENT_EVENT, listener);
+    return () => window.removeEventListener(CONTENT_EVENT, listener);
+}
+
+/**
+ * Tell the loader the page script is listening. Either script may run first at document_start,
+ * so the loader sends its state once on startup and again on this signal.
+ */
+export function announcePageScript(): void {
+    window.dispatchEvent(new Event(PAGE_READY_EVENT));
+}
+
+/**
+ * Run `handler` whenever the page script announces itself.
+ * @returns Function that unsubscribes
+ */
+export function onPageScriptReady(handler: () => void): () => void {
+    window.addEventListener(PAGE_READY_EVENT, handler);
+    return () => window.removeEventListener(PAGE_READY_EVENT, handler);
+}
@@ -10,12 +10,14 @@ import {
     selectOne
 } from "@utils/dom";
 import { Logger } from "@utils/logger";
+import type { RouteMatcher } from "@utils/router";
 import {
     type InjectedComponentProps,
     type IPluginCodePatch,
     type IPluginUIPatch,
     type PluginPatch,
-    type SimpleUIPatch
+    type SimpleUIPatch,
+    type UIIsolation
 } from "@utils/types";
 import type React from "react";
 
@@ -49,6 +51,8 @@ export interface UIPatchConfig {
     readonly observerDebounce?: number;
     readonly getTargetParent?: (element: HTMLElement) => HTMLElement | null;
     readonly referenceNode?: (parent: HTMLElement, target: HTMLElement) => Node | null;
+    readonly routes?: readonly RouteMatcher[];
+    readonly isolate?: UIIsolation;
 }
 
 interface MutableUIPatchConfig {
@@ -59,6 +63,8 @@ interface MutableUIPatchConfig {
     observerDebounce?: number;
     getTargetParent?: (element: HTMLElement) => HTMLElement | null;
     referenceNode?: (parent: HTMLElement, target: HTMLElement) => Node | null;
+    routes?: readonly RouteMatcher[];
+    isolate?: UIIsolation;
 }
 
 /**
@@ -140,6 +146,22 @@ export class UIPatchBuilder {
         return this;
     }
 
+    /**
+     * Only mount the component on the given routes.
+     */
+    routes(...matchers: RouteMatcher[]): this {
+        this.config.routes = matchers;
+        return this;
+    }
+
+    /**
+     * Mount the component inside a shadow root that gets grok.com's design tokens but none of its utility classes.
+     */
+    isolate(mode: UIIsolation = "shadow"): this {
+        this.config.isolate = mode;
+        return this;
+    }
+
     /**
      * Set a custom target parent resolver.
      */
@@ -176,6 +198,8 @@ export class UIPatchBuilder {
                 getTargetParent: this.config.getTargetParent,
                 referenceNode: this.config.referenceNode,
                 insertPosition: this.config.insertPosition as "before" | "after" | "prepend" | "append" | undefined,
+                routes: this.config.routes,
+                isolate: this.config.isolate,
             };
 
             return patch;
@@ -389,6 +413,8 @@ export const Patches = {
         component: patch.component,
         target: patch.target,
         predicate: patch.predicate,
+        routes: patch.routes,
+        isolate: patch.isolate,
     }),
 } as const;
 
@@ -0,0 +1,119 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { grokApi } from "@api/index";
+import { registerCommand } from "@utils/commands";
+import { emitEvent, onEvent } from "@utils/events";
+import { registerKeybind } from "@utils/keybinds";
+import { Logger } from "@utils/logger";
+import { observeMutations } from "@utils/mutationScheduler";
+import { persistentStorage, StorageAPI } from "@utils/storage";
+import type { IPlugin, IPluginContext, PluginDisposables } from "@utils/types";
+
+const logger = new Logger("PluginContext", "#8caaee");
+
+const LOGGER_COLORS = ["#a6d189", "#e5c890", "#ca9ee6", "#f2d5cf", "#81c8be", "#99d1db", "#ef9f76", "#f4b8e4"] as const;
+
+/** Prefix for each plugin's namespaced storage; entries are kept under `grokness:plugin:<id>:<key>` */
+export const PLUGIN_STORAGE_PREFIX = "grokness:plugin";
+
+function loggerColor(id: string): string {
+    let hash = 0;
+    for (let i = 0; i < id.length; i++) {
+        hash = (hash * 31 + id.charCodeAt(i)) | 0;
+    }
+    return LOGGER_COLORS[Math.abs(hash) % LOGGER_COLORS.length] ?? "white";
+}
+
+function createDisposables(pluginId: string): PluginDisposables {
+    const entries = new Set<() => void>();
+    return {
+        get size() {
+            return entries.size;
+        },
+        add(dispose) {
+            let done = false;
+            const once = () => {
+                if (done) {
+                    return;
+                }
+                done = true;
+                entries.delete(once);
+                dispose();
+            };
+            entries.add(once);
+            return once;
+        },
+        dispose() {
+            for (const entry of Array.from(entries).reverse()) {
+                try {
+                    entry();
+                } catch (error) {
+                    logger.error(`Cleanup for ${pluginId} failed:`, error);
+                }
+            }
+            entries.clear();
+        },
+    };
+}
+
+/**
+ * Namespaced storage for a plugin, usable before the plugin has started.
+ */
+export function getPluginStorage(pluginId: string): StorageAPI {
+    return new StorageAPI(persistentStorage, `${PLUGIN_STORAGE_PREFIX}:${pluginId}`);
+}
+
+/**
+ * Build the context a plugin is started with. Everything registered through it is released by `disposables.dispose()`.
+ * @param storageKey - Key holding the plugin's enabled state
+ */
+export function createPluginContext(plugin: IPlugin, storageKey: string): IPluginContext {
+    const disposables = createDisposables(plugin.id);
+
+    return {
+        storageKey,
+        pluginId: plugin.id,
+        pluginName: plugin.name,
+        startTime: Date.now(),
+        settings: plugin.options,
+        logger: new Logger(plugin.name.replace(/\s+/g, ""), loggerColor(plugin.id)),
+        storage: getPluginStorage(plugin.id),
+        api: grokApi,
+        events: {
+            on: (event, handler) => disposables.add(onEvent(event, handler)),
+            emit: emitEvent,
+        },
+        disposables,
+        on(target: EventTarget, event: string, fn: (e: Event) => void, options?: AddEventListenerOptions | boolean) {
+            target.addEventListener(event, fn, options);
+            return disposables.add(() => target.removeEventListener(event, fn, options));
+        },
+        interval(fn, ms) {
+            const id = window.setInterval(fn, ms);
+            return disposables.add(() => clearInterval(id));
+        },
+        timeout(fn, ms) {
+            let release: () => void = () => { };
+            const id = window.setTimeout(() => {
+                release();
+                fn();
+            }, ms);
+            release = disposables.add(() => clearTimeout(id));
+            return release;
+        },
+        observe(callback, options = {}) {
+            const name = options.name ? `${plugin.id}:${options.name}` : plugin.id;
+            return disposables.add(observeMutations(callback, { ...options, name }));
+        },
+        registerCommand(command) {
+            return disposables.add(registerCommand(command, plugin.id));
+        },
+        onKeybind(settingKey, handler) {
+            return disposables.add(registerKeybind(plugin.id, settingKey, handler));
+        },
+    };
+}
@@ -0,0 +1,39 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+/**
+ * Where a plugin error originated.
+ */
+export type PluginErrorSource = "start" | "stop" | "patch" | "render" | "settings" | "command" | "keybind";
+
+export type PluginErrorDetail = { pluginId: string; error: Error; source: PluginErrorSource; };
+
+const PLUGIN_ERROR_EVENT = "grokness-plugin-error";
+
+/**
+ * Report an error raised on behalf of a plugin so the plugin manager can route it to the plugin's `onError`.
+ * @param pluginId - Plugin the error belongs to
+ * @param error - Thrown value, wrapped in an Error when needed
+ * @param source - Where the error originated
+ */
+export function reportPluginError(pluginId: string, error: unknown, source: PluginErrorSource): void {
+    const detail: PluginErrorDetail = {
+        pluginId,
+        error: error instanceof Error ? error : new Error(String(error)),
+        source,
+    };
+    window.dispatchEvent(new CustomEvent(PLUGIN_ERROR_EVENT, { detail }));
+}
+
+/**
+ * Subscribe to plugin errors reported through {@link reportPluginError}.
+ * @returns Unsubscribe function
+ */
+export function onPluginError(handler: (detail: PluginErrorDetail) => void): () => void {
+    const listener = (e: CustomEvent<PluginErrorDetail>) => handler(e.detail);
+    window.addEventListener(PLUGIN_ERROR_EVENT, listener as unknown as EventListener);
+    return () => window.removeEventListener(PLUGIN_ERROR_EVENT, listener as unknown as EventListener);
+}
@@ -4,26 +4,33 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
-import { ErrorBoundary } from "@components/ErrorBoundary";
 import { type AnySelector, selectAll } from "@utils/dom";
 import { Logger } from "@utils/logger";
+import { observeMutations } from "@utils/mutationScheduler";
+import { reportPluginError } from "@utils/pluginErrors";
+import { renderIntoPortal } from "@utils/reactRoot";
+import { getCurrentRoute, matchesRoute, onRouteChange, type Route } from "@utils/router";
+import { createShadowMount } from "@utils/shadow";
 import { type InjectedComponentProps, type IPluginUIPatch } from "@utils/types";
-import React from "react";
-import { createRoot, type Root } from "react-dom/client";
+import type React from "react";
 
 type UIMount = {
     readonly container: HTMLElement;
-    readonly root: Root;
+    /** Removes the portal from the shared Grokness root */
+    readonly unmount: () => void;
     readonly target: HTMLElement;
     readonly pluginId: string;
     readonly patchId: string;
 };
 
 type ActiveUIMountCollection = {
-    readonly observer: MutationObserver;
+    /** Stops the current mutation subscription, if any */
+    readonly stopObserving: () => void;
     readonly mounts: Map<HTMLElement, UIMount>;
     readonly patch: IPluginUIPatch;
     readonly pluginId: string;
+    /** Unsubscribes from route changes for route-scoped patches */
+    readonly offRoute: (() => void) | null;
 };
 
 export class PluginHelper {
@@ -34,6 +41,7 @@ export class PluginHelper {
     private readonly activeUIPatchesByPlugin = new Map<string, Set<ActiveUIMountCollection>>();
     private readonly styleCache = new Map<string, CSSStyleSheet | string>();
     private readonly mountRegistry = new Map<string, UIMount>();
+    private readonly pluginCss = new Map<string, string>();
 
     applyStyles(pluginId: string, css: string): void {
         if (!css?.trim()) {
@@ -45,6 +53,7 @@ export class PluginHelper {
         const id = `grokness-style-${pluginId}`;
 
         this.removeStyles(pluginId);
+        this.pluginCss.set(pluginId, css);
 
         const cached = this.styleCache.get(cacheKey);
         if (cached instanceof CSSStyleSheet) {
@@ -138,12 +147,9 @@ export class PluginHelper {
 
     removeStyles(pluginId: string): void {
         const id = `grokness-style-${pluginId}`;
-
-        const tag = document.getElementById(id);
-        if (tag) {
-            tag.remove();
-            this.styleIds.delete(id);
-        }
+        this.pluginCss.delete(pluginId);
+        this.styleIds.delete(id);
+        document.getElementById(id)?.remove();
 
         const prevUrl = this.styleObjectUrls.get(pluginId);
         if (prevUrl) {
@@ -180,27 +186,62 @@ export class PluginHelper {
             const mounts = new Map<HTMLElement, UIMount>();
             const mountKey = this.generateMountKey(patch);
 
+            // Route-scoped patches only observe and mount while a matching route is active
+            let routeActive = !patch.routes?.length;
+
             const scan = (): void => {
+                if (!routeActive) {
+                    return;
+                }
                 try {
                     const targets = this.findTargets(patch);
                     this.cleanupDeadMounts(mounts);
                     this.mountComponents(pluginId, patch, targets, mounts, mountKey);
                 } catch (error) {
                     this.logger.error(`Error during UI patch scan for ${pluginId}:`, error);
+                    reportPluginError(pluginId, error, "patch");
                 }
             };
 
-            const observer = this.createObserver(patch, scan);
-            observer.observe(document.body, {
-                childList: true,
-                subtree: true,
-                attributes: true,
-                characterData: false,
-            });
+            let unsubscribe: (() => void) | null = null;
+            const stopObserving = (): void => {
+                unsubscribe?.();
+                unsubscribe = null;
+            };
+            const resume = (): void => {
+                unsubscribe = observeMutations(scan, {
+                    name: `${pluginId}:${this.getComponentName(patch.component)}`,
+                    selectors: [patch.target],
+                    attributes: true,
+                    debounce: typeof patch.observerDebounce === "number" ? patch.observerDebounce : undefined,
+                });
+                scan();
+            };
 
-            scan();
+            let offRoute: (() => void) | null = null;
+            if (patch.routes?.length) {
+                const { routes } = patch;
+                const syncRoute = (route: Route): void => {
+                    const matches = matchesRoute(route, routes);
+                    if (matches === routeActive) {
+                        return;
+                    }
+                    routeActive = matches;
+                    if (matches) {
+                        resume();
+                    } else {
+                        stopObserving();
+                        this.cleanupMounts(mounts);
+                        mounts.clear();
+                    }
+                };
+                offRoute = onRouteChange(syncRoute);
+                syncRoute(getCurrentRoute());
+            } else {
+                resume();
+            }
 
-            const entry: ActiveUIMountCollection = { observer, mounts, patch, pluginId };
+            const entry: ActiveUIMountCollection = { stopObserving, mounts, patch, pluginId, offRoute };
             const set = this.activeUIPatchesByPlugin.get(pluginId) ?? new Set<ActiveUIMountCollection>();
             set.add(entry);
             this.activeUIPatchesByPlugin.set(pluginId, set);
@@ -247,7 +288,7 @@ export class PluginHelper {
         for (const [target, mount] of mounts) {
             if (!document.contains(target)) {
                 try {
-                    mount.root.unmount();
+                    mount.unmount();
                     mount.container.remove();
                     this.mountRegistry.delete(`${mount.pluginId}:${mount.patchId}`);
                 } catch (error) {
@@ -278,6 +319,7 @@ export class PluginHelper {
                 this.createMount(pluginId, patch, target, mounts, mountKey);
             } catch (error) {
                 this.logger.error("Failed to mount component for target:", target, error);
+                reportPluginError(pluginId, error, "patch");
             }
         }
     }
@@ -294,6 +336,9 @@ export class PluginHelper {
             return;
         }
 
+        // A stale mount for this target would otherwise keep its portal registered
+        mounts.get(target)?.unmount();
+
         let container = parent.querySelector<HTMLElement>(
             `[data-grokness-ui="${pluginId}"][data-grokness-ui-key="${mountKey}"]`
         );
@@ -306,20 +351,23 @@ export class PluginHelper {
             container = this.replaceContainer(container, parent, refNode);
         }
 
-        const root = createRoot(container);
-        const Component = patch.component as React.ComponentType<InjectedComponentProps>;
-
-        root.render(
-            React.createElement(
-                ErrorBoundary as unknown as React.ComponentType<{ pluginId: string; children?: React.ReactNode; }>,
-                { pluginId },
-                React.createElement(Component, { rootElement: target })
-            )
-        );
+        const shadow = patch.isolate === "shadow"
+            ? createShadowMount(container, this.adoptedSheets.get(pluginId) ?? this.pluginCss.get(pluginId))
+            : null;
+        const unmountPortal = renderIntoPortal({
+            pluginId,
+            container: shadow?.root ?? container,
+            target,
+            component: patch.component as React.ComponentType<InjectedComponentProps>,
+        });
+        const unmount = () => {
+            unmountPortal();
+            shadow?.dispose();
+        };
 
         const mount: UIMount = {
             container,
-            root,
+            unmount,
             target,
             pluginId,
             patchId: mountKey,
@@ -354,24 +402,6 @@ export class PluginHelper {
         return replacement;
     }
 
-    private createObserver(patch: IPluginUIPatch, scan: () => void): MutationObserver {
-        let debounceTimer: number | null = null;
-
-        return new MutationObserver(() => {
-            if (typeof patch.observerDebounce === "number" && patch.observerDebounce > 0) {
-                if (debounceTimer) {
-                    clearTimeout(debounceTimer);
-                }
-                debounceTimer = window.setTimeout(() => {
-                    debounceTimer = null;
-                    scan();
-                }, patch.observerDebounce);
-            } else {
-                scan();
-            }
-        });
-    }
-
     removeUIPatch(pluginId: string): void {
         this.removeAllUIPatches(pluginId);
     }
@@ -385,7 +415,8 @@ export class PluginHelper {
         let cleanedCount = 0;
         for (const active of set) {
             try {
-                this.cleanupObserver(active.observer);
+                active.offRoute?.();
+                active.stopObserving();
                 cleanedCount += this.cleanupMounts(active.mounts);
             } catch (error) {
                 this.logger.error(`Error cleaning up UI patch for ${pluginId}:`, error);
@@ -396,20 +427,11 @@ export class PluginHelper {
         this.logger.debug(`Cleaned up ${cleanedCount} mounts for plugin ${pluginId}`);
     }
 
-    private cleanupObserver(observer: MutationObserver): void {
-        const self = observer as unknown as { __t?: number | null; };
-        if (self.__t) {
-            clearTimeout(self.__t);
-            self.__t = null;
-        }
-        observer.disconnect();
-    }
-
     private cleanupMounts(mounts: Map<HTMLElement, UIMount>): number {
         let cleanedCount = 0;
-        for (const { root, container, pluginId, patchId } of mounts.values()) {
+        for (const { unmount, container, pluginId, patchId } of mounts.values()) {
             try {
-                root.unmount();
+                unmount();
                 container.remove();
                 this.mountRegistry.delete(`${pluginId}:${patchId}`);
                 cleanedCount++;
@@ -470,6 +492,30 @@ export class PluginHelper {
         };
     }
 
+    /**
+     * Get UI patch, mount and stylesheet details for a single plugin
+     */
+    getPluginStats(pluginId: string): {
+        uiPatches: number;
+        mounts: number;
+        stylesheet: "constructable" | "blob" | "inline" | null;
+    } {
+        const patches = Array.from(this.activeUIPatchesByPlugin.get(pluginId) ?? []);
+        const stylesheet = this.adoptedSheets.has(pluginId)
+            ? "constructable"
+            : this.styleObjectUrls.has(pluginId)
+                ? "blob"
+                : this.styleIds.has(`grokness-style-${pluginId}`)
+                    ? "inline"
+                    : null;
+
+        return {
+            uiPatches: patches.length,
+            mounts: patches.reduce((sum, active) => sum + active.mounts.size, 0),
+            stylesheet,
+        };
+    }
+
     /**
      * Clear all caches and perform cleanup
      */
@@ -0,0 +1,115 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Logger } from "@utils/logger";
+import {
+    applySettingsImport,
+    type ExportedPluginState,
+    planPluginChanges,
+    type SettingsImportReport,
+    snapshotPlugins,
+} from "@utils/settingsTransfer";
+import { local } from "@utils/storage";
+
+const logger = new Logger("Profiles", "#ca9ee6");
+
+const PROFILES_KEY = "profiles";
+const PROFILES_EVENT = "grokness-profiles-updated";
+
+/** Default shortcut that cycles to the next profile */
+export const PROFILE_CYCLE_KEYBIND = "Alt+Shift+P";
+
+/**
+ * Named snapshot of the enabled plugin set and every plugin's option values.
+ */
+export interface SettingsProfile {
+    readonly name: string;
+    readonly createdAt: number;
+    readonly plugins: Record<string, ExportedPluginState>;
+}
+
+export interface ProfilesState {
+    readonly active: string | null;
+    readonly profiles: readonly SettingsProfile[];
+}
+
+const readState = (): ProfilesState =>
+    local.get<ProfilesState>(PROFILES_KEY) ?? { active: null, profiles: [] };
+
+const writeState = (state: ProfilesState): void => {
+    local.set(PROFILES_KEY, state);
+    window.dispatchEvent(new CustomEvent(PROFILES_EVENT, { detail: state }));
+};
+
+/**
+ * Current profiles and the name of the active one.
+ */
+export function getProfiles(): ProfilesState {
+    return readState();
+}
+
+/**
+ * Save the current configuration as a profile, replacing any profile with the same name.
+ * The saved profile becomes the active one.
+ */
+export function saveProfile(name: string): SettingsProfile {
+    const trimmed = name.trim();
+    const profile: SettingsProfile = { name: trimmed, createdAt: Date.now(), plugins: snapshotPlugins() };
+    const state = readState();
+    const profiles = state.profiles.some(p => p.name === trimmed)
+        ? state.profiles.map(p => (p.name === trimmed ? profile : p))
+        : [...state.profiles, profile];
+    writeState({ active: trimmed, profiles });
+    return profile;
+}
+
+export function deleteProfile(name: string): void {
+    const state = readState();
+    writeState({
+        active: state.active === name ? null : state.active,
+        profiles: state.profiles.filter(p => p.name !== name),
+    });
+}
+
+/**
+ * Apply a saved profile live. Settings are written through `setPluginSetting`, so running plugins
+ * receive `grok-settings-updated`, and toggles go through the plugin manager.
+ */
+export async function switchProfile(name: string): Promise<SettingsImportReport | null> {
+    const state = readState();
+    const profile = state.profiles.find(p => p.name === name);
+    if (!profile) {
+        logger.warn(`Profile "${name}" does not exist`);
+        return null;
+    }
+    const plan = planPluginChanges(profile.plugins);
+    for (const warning of plan.warnings) {
+        logger.warn(`Profile "${name}": ${warning}`);
+    }
+    const report = await applySettingsImport(plan);
+    writeState({ ...readState(), active: name });
+    logger.info(`Switched to profile "${name}" (${report.applied} change(s))`);
+    return report;
+}
+
+/**
+ * Switch to the profile after the active one, wrapping around.
+ */
+export async function cycleProfile(): Promise<SettingsImportReport | null> {
+    const { active, profiles } = readState();
+    if (profiles.length === 0) {
+        return null;
+    }
+    const index = profiles.findIndex(p => p.name === active);
+    const next = profiles[(index + 1) % profiles.length]!;
+    return switchProfile(next.name);
+}
+
+export function onProfilesChanged(handler: (state: ProfilesState) => void): () => void {
+    const listener = (e: CustomEvent<ProfilesState>) => handler(e.detail);
+    window.addEventListener(PROFILES_EVENT, listener as unknown as EventListener);
+    return () => window.removeEventListener(PROFILES_EVENT, listener as unknown as EventListener);
+}
@@ -0,0 +1,46 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { renderIntoPortal, useGrokness } from "@utils/reactRoot";
+import { initializePluginSettings } from "@utils/types";
+import { describe, expect, test } from "bun:test";
+
+const waitFor = async (check: () => boolean, timeoutMs = 1000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!check()) {
+        if (Date.now() > deadline) {
+            throw new Error("Timed out waiting for condition");
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+};
+
+describe("GroknessContext settings", () => {
+    test("mounts read settings and re-render when another writer changes them", async () => {
+        initializePluginSettings("shared-settings", { label: { type: "string", description: "Label", default: "first" } });
+        const Label = () => <span>{useGrokness().settings.get<string>("shared-settings", "label")}</span>;
+        const Writer = () => {
+            const { settings } = useGrokness();
+            return <button onClick={() => settings.set("shared-settings", "label", "second")}>rename</button>;
+        };
+
+        const labelHost = document.createElement("div");
+        const writerHost = document.createElement("div");
+        document.body.append(labelHost, writerHost);
+        const unmountLabel = renderIntoPortal({ pluginId: "shared-settings", container: labelHost, target: labelHost, component: Label });
+        const unmountWriter = renderIntoPortal({ pluginId: "shared-settings", container: writerHost, target: writerHost, component: Writer });
+
+        await waitFor(() => labelHost.textContent === "first" && !!writerHost.querySelector("button"));
+        writerHost.querySelector("button")?.click();
+        await waitFor(() => labelHost.textContent !== "first");
+        expect(labelHost.textContent).toBe("second");
+
+        unmountLabel();
+        unmountWriter();
+        labelHost.remove();
+        writerHost.remove();
+    });
+});
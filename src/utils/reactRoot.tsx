@@ -0,0 +1,208 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { grokApi } from "@api/index";
+import { ErrorBoundary } from "@components/ErrorBoundary";
+import { Toast, type ToastIntent, ToastProvider } from "@components/Toast";
+import { Logger } from "@utils/logger";
+import { observeMutations } from "@utils/mutationScheduler";
+import { getCurrentRoute, onRouteChange, type Route } from "@utils/router";
+import {
+    getPluginSetting,
+    getPluginSettingsSchema,
+    type InjectedComponentProps,
+    onAnyPluginSettingsUpdated,
+    setPluginSetting,
+    type SettingUpdateResult,
+} from "@utils/types";
+import React, { createContext, useContext, useEffect, useState, useSyncExternalStore } from "react";
+import { createPortal } from "react-dom";
+import { createRoot, type Root } from "react-dom/client";
+
+const logger = new Logger("ReactRoot", "#99d1db");
+
+const HOST_ID = "grokness-root";
+const TOAST_EVENT = "grokness-toast";
+
+export type Theme = "light" | "dark";
+
+/**
+ * Read and write access to every plugin's settings. A new object is provided whenever any setting changes,
+ * so components reading through it re-render with the current values.
+ */
+export interface SharedSettings {
+    /** Current value, or the option's default when it was never set */
+    get<T = unknown>(pluginId: string, key: string): T | undefined;
+    set(pluginId: string, key: string, value: unknown): SettingUpdateResult;
+}
+
+/**
+ * Shared state available to every injected component.
+ */
+export interface GroknessContextValue {
+    readonly api: typeof grokApi;
+    readonly route: Route;
+    readonly theme: Theme;
+    readonly settings: SharedSettings;
+    readonly showToast: typeof showToast;
+}
+
+/**
+ * A component rendered through a portal into a container owned by a UI patch.
+ */
+export interface PortalMount {
+    readonly pluginId: string;
+    readonly container: HTMLElement;
+    readonly target: HTMLElement;
+    readonly component: React.ComponentType<InjectedComponentProps>;
+}
+
+type RegisteredMount = PortalMount & { readonly key: string; };
+
+let mounts: readonly RegisteredMount[] = [];
+let nextMountId = 0;
+let root: Root | null = null;
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+const setMounts = (next: readonly RegisteredMount[]) => {
+    mounts = next;
+    listeners.forEach(l => l());
+};
+
+/**
+ * Show a toast through the shared Grokness toast host.
+ */
+export function showToast(message: React.ReactNode, intent: ToastIntent = "default", duration?: number): void {
+    window.dispatchEvent(new CustomEvent(TOAST_EVENT, { detail: { message, intent, duration } }));
+}
+
+const createSharedSettings = (): SharedSettings => ({
+    get<T>(pluginId: string, key: string) {
+        return getPluginSetting(pluginId, key, getPluginSettingsSchema(pluginId) ?? {}) as T | undefined;
+    },
+    set: setPluginSetting,
+});
+
+const readTheme = (): Theme => (document.documentElement.classList.contains("dark") ? "dark" : "light");
+
+const GroknessContext = createContext<GroknessContextValue | null>(null);
+
+/**
+ * Access the shared API, route, theme, settings and toasts from an injected component.
+ */
+export function useGrokness(): GroknessContextValue {
+    const value = useContext(GroknessContext);
+    if (!value) {
+        throw new Error("useGrokness must be used inside a Grokness mount");
+    }
+    return value;
+}
+
+const ToastHost: React.FC = () => {
+    const [items, setItems] = useState<Array<{ id: number; message: React.ReactNode; intent?: ToastIntent; duration?: number; }>>([]);
+
+    useEffect(() => {
+        const handler = (e: CustomEvent) => {
+            const id = Date.now() + Math.random();
+            setItems(prev => [...prev, { id, ...e.detail }]);
+        };
+        window.addEventListener(TOAST_EVENT, handler as EventListener);
+        return () => window.removeEventListener(TOAST_EVENT, handler as EventListener);
+    }, []);
+
+    return (
+        <ToastProvider duration={5000}>
+            {items.map(item => (
+                <Toast
+                    key={item.id}
+                    open
+                    onOpenChange={open => {
+                        if (!open) {
+                            setItems(prev => prev.filter(x => x.id !== item.id));
+                        }
+                    }}
+                    intent={item.intent}
+                    duration={item.duration}
+                    message={item.message}
+                />
+            ))}
+        </ToastProvider>
+    );
+};
+
+const MountPortal: React.FC<{ mount: RegisteredMount; }> = React.memo(({ mount }) => {
+    const { component: Component, container, target, pluginId } = mount;
+    return createPortal(
+        <ErrorBoundary pluginId={pluginId}>
+            <Component rootElement={target} />
+        </ErrorBoundary>,
+        container
+    );
+});
+
+const GroknessRoot: React.FC = () => {
+    const current = useSyncExternalStore(subscribe, () => mounts);
+    const [route, setRoute] = useState<Route>(getCurrentRoute);
+    const [theme, setTheme] = useState<Theme>(readTheme);
+    const [settings, setSettings] = useState<SharedSettings>(createSharedSettings);
+
+    useEffect(() => onRouteChange(setRoute), []);
+    useEffect(() => onAnyPluginSettingsUpdated(() => setSettings(createSharedSettings())), []);
+    useEffect(() => observeMutations(() => setTheme(readTheme()), {
+        name: "grokness:theme",
+        root: document.documentElement,
+        childList: false,
+        attributes: ["class"],
+    }), []);
+
+    const value = React.useMemo<GroknessContextValue>(() => ({ api: grokApi, route, theme, settings, showToast }), [route, theme, settings]);
+
+    return (
+        <GroknessContext.Provider value={value}>
+            <ToastHost />
+            {current.map(mount => <MountPortal key={mount.key} mount={mount} />)}
+        </GroknessContext.Provider>
+    );
+};
+
+function ensureRoot(): void {
+    if (root) {
+        return;
+    }
+    let host = document.getElementById(HOST_ID);
+    if (!host) {
+        host = document.createElement("div");
+        host.id = HOST_ID;
+        host.style.display = "contents";
+        document.body.appendChild(host);
+    }
+    root = createRoot(host);
+    root.render(<GroknessRoot />);
+    logger.debug("Grokness root created");
+}
+
+/**
+ * Render a component into a container through the shared Grokness root.
+ * @returns Function that removes the mount
+ */
+export function renderIntoPortal(mount: PortalMount): () => void {
+    ensureRoot();
+    const registered: RegisteredMount = { ...mount, key: `m${nextMountId++}` };
+    setMounts([...mounts, registered]);
+    return () => setMounts(mounts.filter(m => m !== registered));
+}
+
+/**
+ * Number of portals currently rendered by the shared root.
+ */
+export function getPortalCount(): number {
+    return mounts.length;
+}
@@ -0,0 +1,101 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Devs } from "@utils/constants";
+import { matchesRoute, parseRoute } from "@utils/router";
+import { bootPluginManager } from "@utils/testing/harness";
+import { definePlugin, Patch } from "@utils/types";
+import { afterEach, describe, expect, test } from "bun:test";
+
+const waitFor = async (check: () => boolean, timeoutMs = 1000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!check()) {
+        if (Date.now() > deadline) {
+            throw new Error("Timed out waiting for condition");
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+};
+
+describe("parseRoute", () => {
+    test("recognizes the grok.com pages", () => {
+        expect(parseRoute("/")).toMatchObject({ name: "home", path: "/", id: null });
+        expect(parseRoute("https://grok.com/chat/abc-123")).toMatchObject({ name: "chat", id: "abc-123" });
+        expect(parseRoute("/project")).toMatchObject({ name: "project", id: null });
+        expect(parseRoute("/project/ws-1")).toMatchObject({ name: "project", id: "ws-1" });
+        expect(parseRoute("/files")).toMatchObject({ name: "files", id: null });
+        expect(parseRoute("/tasks/")).toMatchObject({ name: "tasks", id: null });
+        expect(parseRoute("/settings/appearance")).toMatchObject({ name: "settings", path: "/settings/appearance" });
+    });
+
+    test("falls back to unknown for other paths and near misses", () => {
+        expect(parseRoute("/imagine").name).toBe("unknown");
+        expect(parseRoute("/chat").name).toBe("unknown");
+        expect(parseRoute("/filesystem").name).toBe("unknown");
+    });
+
+    test("decodes ids and keeps the query", () => {
+        const route = parseRoute("/chat/a%20b?rid=42");
+        expect(route.id).toBe("a b");
+        expect(route.query.get("rid")).toBe("42");
+    });
+});
+
+describe("matchesRoute", () => {
+    test("accepts route names, path patterns and predicates", () => {
+        const route = parseRoute("/project/ws-1");
+        expect(matchesRoute(route, ["project"])).toBe(true);
+        expect(matchesRoute(route, ["chat", "files"])).toBe(false);
+        expect(matchesRoute(route, [/^\/project\//])).toBe(true);
+        expect(matchesRoute(route, [r => r.id === "ws-1"])).toBe(true);
+        expect(matchesRoute(route, [])).toBe(false);
+    });
+});
+
+describe("route-scoped UI patches", () => {
+    afterEach(() => {
+        history.pushState(null, "", "/");
+    });
+
+    test("mount only while a matching route is active", async () => {
+        const plugin = definePlugin({
+            name: "Route Scoped",
+            description: "Mounts on the files and chat pages",
+            authors: [Devs.Prism],
+            ui: [
+                {
+                    target: "[data-sidebar=\"header\"]",
+                    component: () => <span data-testid="files-only">files</span>,
+                    routes: ["files"],
+                },
+                Patch.ui("[data-sidebar=\"header\"]")
+                    .component(() => <span data-testid="chat-only">chat</span>)
+                    .routes("chat")
+                    .build(),
+            ],
+        });
+        const filesMount = () => document.querySelector("[data-testid=\"files-only\"]");
+        const chatMount = () => document.querySelector("[data-testid=\"chat-only\"]");
+
+        history.pushState(null, "", "/");
+        const booted = await bootPluginManager({ plugins: [plugin], enable: [plugin.id], fixtures: ["sidebar"] });
+        await new Promise(resolve => setTimeout(resolve, 50));
+        expect(filesMount()).toBeNull();
+        expect(chatMount()).toBeNull();
+
+        history.pushState(null, "", "/files");
+        await waitFor(() => !!filesMount());
+        expect(chatMount()).toBeNull();
+
+        history.pushState(null, "", "/chat/abc");
+        await waitFor(() => !!chatMount() && !filesMount());
+
+        history.pushState(null, "", "/");
+        await waitFor(() => !chatMount() && !filesMount());
+
+        await booted.dispose();
+    });
+});
@@ -0,0 +1,163 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { getPageWindow } from "@utils/dom";
+import { Logger } from "@utils/logger";
+import { onPageMessage, USES_PAGE_SCRIPT } from "@utils/pageBridge";
+
+const logger = new Logger("Router", "#81c8be");
+
+const ROUTE_EVENT = "grokness-route-change";
+
+export type RouteName = "home" | "chat" | "project" | "files" | "tasks" | "settings" | "unknown";
+
+/**
+ * A parsed grok.com location.
+ */
+export interface Route {
+    readonly name: RouteName;
+    readonly path: string;
+    /** Conversation id on `/chat/:id`, workspace id on `/project/:id` */
+    readonly id: string | null;
+    readonly query: URLSearchParams;
+}
+
+/**
+ * Route names, path patterns or predicates used to scope behavior to certain pages.
+ */
+export type RouteMatcher = RouteName | RegExp | ((route: Route) => boolean);
+
+export type RouteChangeHandler = (route: Route, previous: Route | null) => void;
+
+const ROUTE_PATTERNS: ReadonlyArray<readonly [RouteName, RegExp]> = [
+    ["home", /^\/?$/],
+    ["chat", /^\/chat\/([^/?#]+)/],
+    ["project", /^\/project(?:\/([^/?#]+))?/],
+    ["files", /^\/files(?:\/|$)/],
+    ["tasks", /^\/tasks(?:\/|$)/],
+    ["settings", /^\/settings(?:\/|$)/],
+];
+
+/**
+ * Parse a URL (defaults to the current location) into a route.
+ */
+export function parseRoute(url: string | URL = location.href): Route {
+    const parsed = new URL(String(url), location.origin);
+    const path = parsed.pathname;
+    for (const [name, pattern] of ROUTE_PATTERNS) {
+        const match = path.match(pattern);
+        if (match) {
+            return { name, path, id: match[1] ? decodeURIComponent(match[1]) : null, query: parsed.searchParams };
+        }
+    }
+    return { name: "unknown", path, id: null, query: parsed.searchParams };
+}
+
+/**
+ * Conversation id from a `/chat/:id` URL.
+ */
+export function getConversationIdFromURL(url: string | null | undefined): string | null {
+    if (!url) {
+        return null;
+    }
+    const route = parseRoute(url);
+    return route.name === "chat" ? route.id : null;
+}
+
+/**
+ * Workspace id from a `/project/:id` URL.
+ */
+export function getWorkspaceIdFromURL(url: string | null | undefined): string | null {
+    if (!url) {
+        return null;
+    }
+    const route = parseRoute(url);
+    return route.name === "project" ? route.id : null;
+}
+
+export function matchesRoute(route: Route, matchers: readonly RouteMatcher[]): boolean {
+    return matchers.some(matcher => {
+        if (typeof matcher === "string") {
+            return route.name === matcher;
+        }
+        // Not `instanceof RegExp`: patterns may come from another realm
+        if (typeof matcher === "function") {
+            return matcher(route);
+        }
+        return matcher.test(route.path);
+    });
+}
+
+let current: Route | null = null;
+let installed = false;
+
+function notify(): void {
+    const next = parseRoute();
+    if (current && current.path === next.path && current.query.toString() === next.query.toString()) {
+        return;
+    }
+    const previous = current;
+    current = next;
+    window.dispatchEvent(new CustomEvent(ROUTE_EVENT, { detail: { route: next, previous } }));
+}
+
+/**
+ * Wrap the page's `history.pushState`/`replaceState` and listen for `popstate`, calling `onChange` after each.
+ * This has to run in the page's realm, so extension builds call it from the MAIN-world page script.
+ */
+export function hookHistory(onChange: () => void): void {
+    const page = getPageWindow();
+    const { history } = page;
+    for (const method of ["pushState", "replaceState"] as const) {
+        const original = history[method];
+        history[method] = function (this: History, ...args: Parameters<History["pushState"]>) {
+            const result = original.apply(this, args);
+            try {
+                onChange();
+            } catch (error) {
+                logger.error(`Route change after ${method} failed:`, error);
+            }
+            return result;
+        };
+    }
+    page.addEventListener("popstate", onChange);
+}
+
+/**
+ * Start observing client-side navigations. Safe to call repeatedly.
+ */
+export function installRouter(): void {
+    if (installed) {
+        return;
+    }
+    installed = true;
+    current = parseRoute();
+
+    if (USES_PAGE_SCRIPT) {
+        onPageMessage("history", notify);
+        window.addEventListener("popstate", notify);
+        logger.debug("Listening for history changes from the page script");
+    } else {
+        hookHistory(notify);
+        logger.debug("History hooks installed");
+    }
+}
+
+export function getCurrentRoute(): Route {
+    installRouter();
+    return current ?? parseRoute();
+}
+
+/**
+ * Subscribe to client-side route changes.
+ * @returns Function that unsubscribes
+ */
+export function onRouteChange(handler: RouteChangeHandler): () => void {
+    installRouter();
+    const listener = (e: CustomEvent<{ route: Route; previous: Route | null; }>) => handler(e.detail.route, e.detail.previous);
+    window.addEventListener(ROUTE_EVENT, listener as unknown as EventListener);
+    return () => window.removeEventListener(ROUTE_EVENT, listener as unknown as EventListener);
+}
@@ -0,0 +1,252 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { Result } from "@utils/dom";
+import { Logger } from "@utils/logger";
+import { local, persistentStorage } from "@utils/storage";
+import {
+    getPluginManager,
+    getPluginSetting,
+    getPluginSettingsSchema,
+    type IPlugin,
+    isPluginEnabled,
+    plugins,
+    setPluginSetting,
+    validateSettingValue,
+} from "@utils/types";
+
+const logger = new Logger("SettingsTransfer", "#a6d189");
+
+export const SETTINGS_EXPORT_FORMAT = "grokness-settings";
+export const SETTINGS_EXPORT_VERSION = 1;
+
+export interface ExportedPluginState {
+    readonly enabled: boolean;
+    readonly settings: Record<string, unknown>;
+}
+
+/**
+ * Versioned snapshot of every plugin toggle, plugin setting and persistent StorageAPI entry.
+ */
+export interface SettingsExport {
+    readonly format: typeof SETTINGS_EXPORT_FORMAT;
+    readonly version: number;
+    readonly exportedAt: string;
+    readonly plugins: Record<string, ExportedPluginState>;
+    readonly storage: Record<string, unknown>;
+}
+
+export type SettingsChange =
+    | { readonly kind: "enabled"; readonly pluginId: string; readonly before: boolean; readonly after: boolean; }
+    | { readonly kind: "setting"; readonly pluginId: string; readonly key: string; readonly before: unknown; readonly after: unknown; }
+    | { readonly kind: "storage"; readonly key: string; readonly before: unknown; readonly after: unknown; };
+
+/**
+ * Validated difference between the current configuration and an imported document.
+ */
+export interface SettingsImportPlan {
+    readonly changes: readonly SettingsChange[];
+    /** Entries of the document that were skipped, with the reason */
+    readonly warnings: readonly string[];
+}
+
+export interface SettingsImportReport {
+    readonly applied: number;
+    readonly failed: readonly string[];
+    readonly requiresRestart: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isEqual = (left: unknown, right: unknown): boolean => JSON.stringify(left) === JSON.stringify(right);
+
+/**
+ * Capture the enabled state and every setting value of all plugins.
+ */
+export function snapshotPlugins(): Record<string, ExportedPluginState> {
+    const snapshot: Record<string, ExportedPluginState> = {};
+    for (const plugin of plugins) {
+        const settings: Record<string, unknown> = {};
+        for (const key of Object.keys(plugin.options)) {
+            settings[key] = getPluginSetting(plugin.id, key, plugin.options);
+        }
+        snapshot[plugin.id] = { enabled: isPluginEnabled(plugin), settings };
+    }
+    return snapshot;
+}
+
+/**
+ * Serialize the current configuration into a {@link SettingsExport} document.
+ */
+export function exportSettings(): SettingsExport {
+    return {
+        format: SETTINGS_EXPORT_FORMAT,
+        version: SETTINGS_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        plugins: snapshotPlugins(),
+        storage: Object.fromEntries(local.persistentEntries()),
+    };
+}
+
+/**
+ * Validate per-plugin states against each plugin's option schema and diff them against the current configuration.
+ * @param states - Plugin states keyed by plugin id, as produced by {@link snapshotPlugins}
+ */
+export function planPluginChanges(states: Record<string, unknown>): SettingsImportPlan {
+    const changes: SettingsChange[] = [];
+    const warnings: string[] = [];
+    const byId = new Map<string, IPlugin>(plugins.map(p => [p.id, p]));
+
+    for (const [pluginId, entry] of Object.entries(states)) {
+        const plugin = byId.get(pluginId);
+        if (!plugin) {
+            warnings.push(`Unknown plugin "${pluginId}"`);
+            continue;
+        }
+        if (!isRecord(entry)) {
+            warnings.push(`Malformed entry for ${plugin.name}`);
+            continue;
+        }
+
+        if (typeof entry.enabled === "boolean") {
+            const before = isPluginEnabled(plugin);
+            if (plugin.required && !entry.enabled) {
+                warnings.push(`${plugin.name} is required and cannot be disabled`);
+            } else if (before !== entry.enabled) {
+                changes.push({ kind: "enabled", pluginId, before, after: entry.enabled });
+            }
+        }
+
+        const schema = getPluginSettingsSchema(pluginId) ?? plugin.options;
+        for (const [key, value] of Object.entries(isRecord(entry.settings) ? entry.settings : {})) {
+            const option = schema[key];
+            if (!option) {
+                warnings.push(`Unknown setting ${plugin.name}: ${key}`);
+                continue;
+            }
+            const error = validateSettingValue(option, value);
+            if (error) {
+                warnings.push(`${plugin.name}: ${error}`);
+                continue;
+            }
+            const before = getPluginSetting(pluginId, key, schema);
+            if (!isEqual(before, value)) {
+                changes.push({ kind: "setting", pluginId, key, before, after: value });
+            }
+        }
+    }
+
+    return { changes, warnings };
+}
+
+/**
+ * Parse and validate an exported document and diff it against the current configuration.
+ * Unknown plugins, unknown settings and values that fail their option schema are skipped with a warning.
+ * @param json - Raw contents of an exported settings file
+ */
+export function planSettingsImport(json: string): Result<SettingsImportPlan> {
+    let doc: unknown;
+    try {
+        doc = JSON.parse(json);
+    } catch {
+        return { success: false, error: new Error("File is not valid JSON") };
+    }
+    if (!isRecord(doc) || doc.format !== SETTINGS_EXPORT_FORMAT) {
+        return { success: false, error: new Error("File is not a Grokness settings export") };
+    }
+    if (typeof doc.version !== "number" || doc.version > SETTINGS_EXPORT_VERSION) {
+        return { success: false, error: new Error(`Unsupported export version ${String(doc.version)}`) };
+    }
+    if (!isRecord(doc.plugins)) {
+        return { success: false, error: new Error("Export has no plugin section") };
+    }
+
+    const { changes, warnings } = planPluginChanges(doc.plugins);
+    const storageChanges: SettingsChange[] = [];
+    for (const [key, value] of Object.entries(isRecord(doc.storage) ? doc.storage : {})) {
+        const before = local.get<unknown>(key);
+        if (!isEqual(before, value)) {
+            storageChanges.push({ kind: "storage", key, before, after: value });
+        }
+    }
+
+    return { success: true, data: { changes: [...changes, ...storageChanges], warnings } };
+}
+
+/**
+ * Apply a previously planned import. Toggles go through the plugin manager so they take effect live.
+ * @param plan - Plan returned by {@link planSettingsImport}
+ */
+export async function applySettingsImport(plan: SettingsImportPlan): Promise<SettingsImportReport> {
+    const failed: string[] = [];
+    const byId = new Map<string, IPlugin>(plugins.map(p => [p.id, p]));
+    let applied = 0;
+    let requiresRestart = false;
+
+    for (const change of plan.changes) {
+        if (change.kind === "setting") {
+            const result = setPluginSetting(change.pluginId, change.key, change.after);
+            if (result.success) {
+                applied++;
+                requiresRestart ||= Boolean(byId.get(change.pluginId)?.requiresRestart);
+            } else {
+                failed.push(`${change.pluginId}: ${result.error}`);
+            }
+        } else if (change.kind === "storage") {
+            local.set(change.key, change.after);
+            applied++;
+        }
+    }
+
+    const manager = getPluginManager();
+    const toggles = plan.changes.filter((c): c is Extract<SettingsChange, { kind: "enabled"; }> => c.kind === "enabled");
+    const enables = toggles.filter(c => c.after).map(c => c.pluginId);
+    let disables = toggles.filter(c => !c.after).map(c => c.pluginId);
+
+    for (const pluginId of enables) {
+        requiresRestart ||= Boolean(byId.get(pluginId)?.requiresRestart);
+        if (!manager) {
+            persistentStorage.setItem(`plugin-enabled:${pluginId}`, "1");
+            applied++;
+            continue;
+        }
+        const result = await manager.enablePlugin(pluginId);
+        if (result.success) {
+            applied++;
+        } else {
+            failed.push(`${pluginId}: ${result.error.message}`);
+        }
+    }
+
+    // Dependents have to stop before the plugins they rely on, so keep retrying until nothing changes.
+    while (disables.length > 0) {
+        const remaining: string[] = [];
+        const errors = new Map<string, Error>();
+        for (const pluginId of disables) {
+            if (!manager) {
+                persistentStorage.setItem(`plugin-enabled:${pluginId}`, "0");
+                applied++;
+                continue;
+            }
+            const result = await manager.disablePlugin(pluginId);
+            if (result.success) {
+                applied++;
+            } else {
+                remaining.push(pluginId);
+                errors.set(pluginId, result.error);
+            }
+        }
+        if (remaining.length === disables.length) {
+            failed.push(...remaining.map(id => `${id}: ${errors.get(id)?.message ?? "could not be disabled"}`));
+            break;
+        }
+        disables = remaining;
+    }
+
+    logger.info(`Imported ${applied} change(s), ${failed.length} failed`);
+    return { applied, failed, requiresRestart };
+}
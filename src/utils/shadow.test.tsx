@@ -0,0 +1,72 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Card } from "@components/Card";
+import { createShadowMount } from "@utils/shadow";
+import { afterAll, describe, expect, test } from "bun:test";
+import { flushSync } from "react-dom";
+import { createRoot } from "react-dom/client";
+
+const pageStyle = document.createElement("style");
+pageStyle.textContent = `
+:root { --surface-base: #fff; --surface-l1: #123456; --radius: 8px; }
+.rounded-xl { border-radius: 2px; }
+html.dark, .dark { --surface-base: #000; }
+.radix-themes { --accent-9: #f60; }
+.flex { display: flex; --tw-ring: 0; }
+@media (min-width: 640px) { :root { --gutter: 24px; } .sm\\:hidden { display: none; } }
+`;
+document.head.appendChild(pageStyle);
+
+afterAll(() => pageStyle.remove());
+
+describe("createShadowMount", () => {
+    test("adopts the bundled base sheet, the page's design tokens and the plugin sheet", () => {
+        const host = document.createElement("div");
+        document.body.appendChild(host);
+
+        const mount = createShadowMount(host, ".card { padding: 4px; }");
+        const [base, theme, plugin] = mount.shadowRoot.adoptedStyleSheets;
+        const baseSelectors = Array.from(base?.cssRules ?? [], rule => (rule as CSSStyleRule).selectorText ?? "");
+        const themeCss = Array.from(theme?.cssRules ?? [], rule => rule.cssText).join("\n");
+
+        expect(mount.shadowRoot.adoptedStyleSheets).toHaveLength(3);
+        expect(baseSelectors).toContain(".rt-BaseCard");
+        expect(baseSelectors).toContain(".flex");
+        expect(themeCss).toContain("--surface-base: #fff");
+        expect(themeCss).toContain("--surface-base: #000");
+        expect(themeCss).toContain("--accent-9: #f60");
+        expect(themeCss).toContain("--gutter: 24px");
+        expect(themeCss).not.toContain("display: flex");
+        expect(themeCss).not.toContain("--tw-ring");
+        expect(themeCss).not.toContain("display: none");
+        expect(plugin?.cssRules[0]?.cssText).toContain(".card");
+
+        mount.dispose();
+        host.remove();
+    });
+
+    test("styles shared components with Radix Themes and the bundled utilities instead of page rules", () => {
+        const host = document.createElement("div");
+        document.body.appendChild(host);
+        const mount = createShadowMount(host);
+        const root = createRoot(mount.root);
+
+        flushSync(() => root.render(<Card data-testid="card">Hello</Card>));
+        const card = mount.root.querySelector<HTMLElement>("[data-testid=\"card\"]")!;
+        const style = getComputedStyle(card);
+
+        expect(card.classList.contains("rt-BaseCard")).toBe(true);
+        expect(style.position).toBe("relative");
+        expect(style.borderRadius).toBe("12px");
+        expect(style.borderTopStyle).toBe("solid");
+        expect(style.backgroundColor).toBe("#123456");
+
+        root.unmount();
+        mount.dispose();
+        host.remove();
+    });
+});
@@ -0,0 +1,235 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import utilitiesCss from "@components/utilities.css?raw";
+import radixThemesCss from "@radix-ui/themes/styles.css?raw";
+import { Logger } from "@utils/logger";
+import { observeMutations } from "@utils/mutationScheduler";
+
+const logger = new Logger("Shadow", "#ca9ee6");
+
+/** Theme classes and attributes mirrored from `<html>` so `dark:` variants and theme-scoped tokens resolve inside shadow roots */
+const THEME_CLASSES = ["dark", "light"] as const;
+const THEME_ATTRIBUTES = ["data-theme", "style"] as const;
+
+const HOST_RESET = `
+:host {
+    all: initial;
+    display: contents;
+}
+[data-grokness-shadow-root] {
+    color: inherit;
+    font-family: inherit;
+    font-size: inherit;
+    line-height: inherit;
+}
+`;
+
+export interface ShadowMount {
+    /** Element inside the shadow root to render into */
+    readonly root: HTMLElement;
+    readonly shadowRoot: ShadowRoot;
+    dispose(): void;
+}
+
+let baseSheet: CSSStyleSheet | null = null;
+let themeSheet: CSSStyleSheet | null = null;
+let themeSheetHasTokens = false;
+const themedRoots = new Set<HTMLElement>();
+let stopThemeSync: (() => void) | null = null;
+
+const supportsAdoptedSheets = (): boolean =>
+    typeof CSSStyleSheet !== "undefined" && "replaceSync" in CSSStyleSheet.prototype && "adoptedStyleSheets" in ShadowRoot.prototype;
+
+const SHADOW_ROOT_SELECTOR = "[data-grokness-shadow-root]";
+/** `:root`, `html` or `.radix-themes`, optionally narrowed by the theme classes and attributes mirrored onto the mount */
+const TOKEN_SCOPE = /^(?::root|html|:host|\.radix-themes)?((?:\.dark|\.light|\.light-theme|\.dark-theme|\[data-theme(?:=["']?[\w-]+["']?)?\])*)$/;
+
+/**
+ * Re-scope a page rule's custom properties to the shadow mount, or null when the rule does not declare tokens
+ * on the document or a theme scope.
+ */
+function tokenRule(rule: CSSStyleRule): string | null {
+    const selectors = rule.selectorText.split(",").flatMap(selector => {
+        const match = TOKEN_SCOPE.exec(selector.trim());
+        return match && selector.trim() ? [`${SHADOW_ROOT_SELECTOR}${match[1]}`] : [];
+    });
+    if (selectors.length === 0) {
+        return null;
+    }
+    const declarations: string[] = [];
+    for (let i = 0; i < rule.style.length; i++) {
+        const property = rule.style.item(i);
+        if (property.startsWith("--")) {
+            declarations.push(`${property}: ${rule.style.getPropertyValue(property)};`);
+        }
+    }
+    return declarations.length > 0 ? `${[...new Set(selectors)].join(", ")} { ${declarations.join(" ")} }` : null;
+}
+
+function collectTokenCss(rules: CSSRuleList): string {
+    const chunks: string[] = [];
+    for (const rule of Array.from(rules)) {
+        if (rule instanceof CSSStyleRule) {
+            chunks.push(tokenRule(rule) ?? "");
+        } else if (rule instanceof CSSMediaRule || rule instanceof CSSSupportsRule) {
+            const inner = collectTokenCss(rule.cssRules);
+            if (inner) {
+                chunks.push(`${rule instanceof CSSMediaRule ? "@media" : "@supports"} ${rule.conditionText} {\n${inner}\n}`);
+            }
+        } else if ("cssRules" in rule) {
+            // Layers and other grouping rules only matter for ordering, which custom properties on one element do not need
+            chunks.push(collectTokenCss((rule as CSSGroupingRule).cssRules));
+        }
+    }
+    return chunks.filter(Boolean).join("\n");
+}
+
+/**
+ * grok.com's design tokens and Radix Themes variables, re-scoped to the shadow mount.
+ * Page rules other than tokens are left out; the bundled base sheet provides component and utility styles.
+ */
+function collectThemeTokens(): string {
+    const chunks: string[] = [];
+    for (const sheet of Array.from(document.styleSheets)) {
+        const owner = sheet.ownerNode as Element | null;
+        if (owner?.id?.startsWith("grokness-style-")) {
+            continue;
+        }
+        try {
+            chunks.push(collectTokenCss(sheet.cssRules));
+        } catch {
+            // Cross-origin sheets cannot be read
+        }
+    }
+    return chunks.filter(Boolean).join("\n");
+}
+
+/** Radix Themes and the Grokness utilities, followed by the host reset so mounts keep inheriting the page's text styles */
+const BASE_CSS = `${radixThemesCss}\n${utilitiesCss}\n${HOST_RESET}`;
+
+/**
+ * The bundled stylesheet adopted first by every shadow mount, parsed on first use.
+ */
+function getBaseSheet(): CSSStyleSheet | null {
+    if (!supportsAdoptedSheets()) {
+        return null;
+    }
+    if (!baseSheet) {
+        try {
+            const sheet = new CSSStyleSheet();
+            sheet.replaceSync(BASE_CSS);
+            baseSheet = sheet;
+        } catch (error) {
+            logger.warn("Failed to build the shared base sheet:", error);
+        }
+    }
+    return baseSheet;
+}
+
+/**
+ * The shared theme stylesheet adopted by every shadow mount after the base sheet. Built once; only rebuilt
+ * while grok.com's stylesheets have not declared any tokens yet.
+ */
+export function getThemeSheet(): CSSStyleSheet | null {
+    if (!supportsAdoptedSheets()) {
+        return null;
+    }
+    if (themeSheet && themeSheetHasTokens) {
+        return themeSheet;
+    }
+    try {
+        const tokens = collectThemeTokens();
+        themeSheet ??= new CSSStyleSheet();
+        themeSheet.replaceSync(tokens);
+        themeSheetHasTokens = tokens.length > 0;
+    } catch (error) {
+        logger.warn("Failed to build the shared theme sheet:", error);
+    }
+    return themeSheet;
+}
+
+function mirrorTheme(target: HTMLElement): void {
+    const html = document.documentElement;
+    for (const cls of THEME_CLASSES) {
+        target.classList.toggle(cls, html.classList.contains(cls));
+    }
+    for (const attr of THEME_ATTRIBUTES) {
+        const value = html.getAttribute(attr);
+        if (value === null) {
+            target.removeAttribute(attr);
+        } else {
+            target.setAttribute(attr, value);
+        }
+    }
+}
+
+function trackTheme(target: HTMLElement): () => void {
+    themedRoots.add(target);
+    mirrorTheme(target);
+    stopThemeSync ??= observeMutations(() => themedRoots.forEach(mirrorTheme), {
+        name: "grokness:shadow-theme",
+        root: document.documentElement,
+        childList: false,
+        attributes: ["class", ...THEME_ATTRIBUTES],
+    });
+    return () => {
+        themedRoots.delete(target);
+        if (themedRoots.size === 0) {
+            stopThemeSync?.();
+            stopThemeSync = null;
+        }
+    };
+}
+
+/**
+ * Attach an open shadow root to `host` with the bundled base sheet, the page's design tokens and the plugin's own styles.
+ * Page CSS other than the design tokens does not reach the mount.
+ * Plugin styles given as a string are injected as a `<style>` when constructable stylesheets are unavailable.
+ */
+export function createShadowMount(host: HTMLElement, pluginStyles?: CSSStyleSheet | string | null): ShadowMount {
+    const shadowRoot = host.shadowRoot ?? host.attachShadow({ mode: "open" });
+    shadowRoot.replaceChildren();
+
+    const root = document.createElement("div");
+    root.setAttribute("data-grokness-shadow-root", "");
+    root.classList.add("radix-themes");
+
+    const base = getBaseSheet();
+    const theme = getThemeSheet();
+    if (base && theme) {
+        const sheets = [base, theme];
+        if (pluginStyles instanceof CSSStyleSheet) {
+            sheets.push(pluginStyles);
+        } else if (pluginStyles) {
+            try {
+                const sheet = new CSSStyleSheet();
+                sheet.replaceSync(pluginStyles);
+                sheets.push(sheet);
+            } catch (error) {
+                logger.warn("Failed to adopt plugin styles in shadow root:", error);
+            }
+        }
+        shadowRoot.adoptedStyleSheets = sheets;
+    } else {
+        const style = document.createElement("style");
+        style.textContent = `${BASE_CSS}\n${collectThemeTokens()}\n${typeof pluginStyles === "string" ? pluginStyles : ""}`;
+        shadowRoot.appendChild(style);
+    }
+
+    shadowRoot.appendChild(root);
+    const untrack = trackTheme(root);
+
+    return {
+        root,
+        shadowRoot,
+        dispose() {
+            untrack();
+            shadowRoot.replaceChildren();
+            shadowRoot.adoptedStyleSheets = [];
+        },
+    };
+}
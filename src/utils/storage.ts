@@ -8,16 +8,260 @@ import { Logger } from "@utils/logger";
 
 const logger = new Logger("Storage", "#d3869b");
 
+declare const process: {
+    readonly env: {
+        readonly BUILD_TARGET?: "extension" | "userscript";
+    };
+};
+
 interface StorageItem<T> {
     value: T;
     expiresAt?: number;
 }
 
-class StorageAPI {
-    private readonly storage: Storage;
+/**
+ * Synchronous key/value store with the subset of the Web Storage API that Grokness uses.
+ */
+export type KeyValueStore = Pick<Storage, "getItem" | "setItem" | "removeItem" | "key" | "length">;
+
+/**
+ * Durable store that Grokness state is persisted to. Reads happen once at startup, writes are fire and forget.
+ */
+export interface StorageBackend {
+    readonly name: string;
+    load(): Promise<Record<string, string>>;
+    set(key: string, value: string): Promise<void>;
+    remove(key: string): Promise<void>;
+}
+
+const MANAGED_PREFIXES = ["plugin-enabled:", "plugin-settings:", "plugin-settings-version:", "grokness:"] as const;
+const MIGRATION_MARKER = "grokness-storage-migrated";
+const SYNC_WRITE_DELAY_MS = 500;
+
+const isManagedKey = (key: string): boolean => MANAGED_PREFIXES.some(prefix => key.startsWith(prefix));
+
+/**
+ * In-memory store for every Grokness key, mirrored to localStorage so synchronous reads work before
+ * the backend has loaded, and written through to the active {@link StorageBackend}.
+ */
+class PersistentStorage implements KeyValueStore {
+    private readonly items = new Map<string, string>();
+    private readonly writtenBeforeHydration = new Set<string>();
+    private backend: StorageBackend | null = null;
+
+    constructor() {
+        try {
+            for (let i = 0; i < localStorage.length; i++) {
+                const key = localStorage.key(i);
+                if (key && isManagedKey(key)) {
+                    this.items.set(key, localStorage.getItem(key) ?? "");
+                }
+            }
+        } catch (e) {
+            logger.error("Failed to read localStorage", e);
+        }
+    }
+
+    get length(): number {
+        return this.items.size;
+    }
+
+    get backendName(): string {
+        return this.backend?.name ?? "localStorage";
+    }
+
+    key(index: number): string | null {
+        return [...this.items.keys()][index] ?? null;
+    }
+
+    getItem(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+
+    setItem(key: string, value: string): void {
+        this.items.set(key, value);
+        this.mirror(key, value);
+        if (!this.backend) {
+            this.writtenBeforeHydration.add(key);
+            return;
+        }
+        this.backend.set(key, value).catch(e => logger.error(`Failed to persist "${key}" to ${this.backendName}`, e));
+    }
+
+    removeItem(key: string): void {
+        this.items.delete(key);
+        this.mirror(key, null);
+        if (!this.backend) {
+            this.writtenBeforeHydration.add(key);
+            return;
+        }
+        this.backend.remove(key).catch(e => logger.error(`Failed to remove "${key}" from ${this.backendName}`, e));
+    }
+
+    /**
+     * Load every key from the backend and make it the write target. The first time a backend is used,
+     * existing localStorage keys are copied into it.
+     */
+    async hydrate(backend: StorageBackend): Promise<void> {
+        const stored = await backend.load();
+
+        const pending: Promise<void>[] = [];
+        if (!stored[MIGRATION_MARKER]) {
+            for (const [key, value] of this.items) {
+                if (!(key in stored)) {
+                    pending.push(backend.set(key, value));
+                }
+            }
+            pending.push(backend.set(MIGRATION_MARKER, "1"));
+            logger.info(`Migrating ${this.items.size} key(s) from localStorage to ${backend.name}`);
+        }
+
+        for (const [key, value] of Object.entries(stored)) {
+            if (isManagedKey(key) && !this.writtenBeforeHydration.has(key)) {
+                this.items.set(key, value);
+                this.mirror(key, value);
+            }
+        }
+        for (const key of this.writtenBeforeHydration) {
+            const value = this.items.get(key);
+            pending.push(value === undefined ? backend.remove(key) : backend.set(key, value));
+        }
+        this.writtenBeforeHydration.clear();
+        this.backend = backend;
+
+        await Promise.all(pending);
+    }
+
+    private mirror(key: string, value: string | null): void {
+        try {
+            if (value === null) {
+                localStorage.removeItem(key);
+            } else {
+                localStorage.setItem(key, value);
+            }
+        } catch (e) {
+            logger.warn(`Failed to mirror "${key}" to localStorage`, e);
+        }
+    }
+}
+
+/**
+ * Backend for the userscript build, using the manager's synchronous GM storage.
+ */
+function createUserscriptBackend(): StorageBackend | null {
+    if (typeof GM_getValue !== "function" || typeof GM_setValue !== "function" || typeof GM_listValues !== "function") {
+        return null;
+    }
+    return {
+        name: "GM storage",
+        load: async () => Object.fromEntries(
+            GM_listValues().map(key => [key, String(GM_getValue(key, ""))])
+        ),
+        set: async (key, value) => GM_setValue(key, value),
+        remove: async key => GM_deleteValue(key),
+    };
+}
+
+/**
+ * Backend for extension builds. Plugin toggles and settings roam through `storage.sync`,
+ * other Grokness data and anything over the sync quota stays in `storage.local`.
+ */
+async function createExtensionBackend(): Promise<StorageBackend | null> {
+    if (process.env.BUILD_TARGET === "userscript") {
+        return null;
+    }
+    const { default: browser } = await import("webextension-polyfill");
+    if (!browser.storage) {
+        return null;
+    }
+    const isSyncKey = (key: string) => key.startsWith("plugin-");
+
+    const writeSyncKey = async (key: string, value: string): Promise<void> => {
+        try {
+            await browser.storage.sync.set({ [key]: value });
+            await browser.storage.local.remove(key);
+        } catch (e) {
+            logger.warn(`storage.sync rejected "${key}", keeping it in storage.local`, e);
+            await browser.storage.local.set({ [key]: value });
+            await browser.storage.sync.remove(key).catch(() => void 0);
+        }
+    };
+
+    // storage.sync limits writes per minute, so settings changes are coalesced into one write
+    let queued: Record<string, string> = {};
+    let flush: Promise<void> | null = null;
+    const queueSyncWrite = (key: string, value: string): Promise<void> => {
+        queued[key] = value;
+        flush ??= new Promise(resolve => setTimeout(resolve, SYNC_WRITE_DELAY_MS)).then(async () => {
+            const batch = queued;
+            queued = {};
+            flush = null;
+            try {
+                await browser.storage.sync.set(batch);
+                await browser.storage.local.remove(Object.keys(batch));
+            } catch {
+                // Retry one key at a time so only the keys sync rejects fall back to storage.local
+                await Promise.all(Object.entries(batch).map(([k, v]) => writeSyncKey(k, v)));
+            }
+        });
+        return flush;
+    };
+
+    return {
+        name: "browser.storage",
+        async load() {
+            const [localItems, syncItems] = await Promise.all([
+                browser.storage.local.get(null),
+                browser.storage.sync.get(null).catch(() => ({})),
+            ]);
+            // storage.local only holds sync keys that sync rejected, so those copies are the newest
+            const merged: Record<string, string> = {};
+            for (const [key, value] of Object.entries({ ...syncItems, ...localItems })) {
+                if (typeof value === "string") {
+                    merged[key] = value;
+                }
+            }
+            return merged;
+        },
+        async set(key, value) {
+            if (isSyncKey(key)) {
+                return queueSyncWrite(key, value);
+            }
+            await browser.storage.local.set({ [key]: value });
+        },
+        async remove(key) {
+            delete queued[key];
+            await Promise.all([browser.storage.local.remove(key), browser.storage.sync.remove(key)]);
+        },
+    };
+}
+
+/** Store behind plugin toggles, plugin settings and {@link local} */
+export const persistentStorage = new PersistentStorage();
+
+/**
+ * Pick the best available backend and load persisted state from it.
+ * Falls back to localStorage when neither extension nor userscript storage is available.
+ * @returns Name of the backend in use
+ */
+export async function initStorageBackend(): Promise<string> {
+    try {
+        const backend = createUserscriptBackend() ?? await createExtensionBackend();
+        if (backend) {
+            await persistentStorage.hydrate(backend);
+        }
+    } catch (e) {
+        logger.error("Failed to initialize storage backend, using localStorage", e);
+    }
+    logger.info(`Using ${persistentStorage.backendName} for persistent storage`);
+    return persistentStorage.backendName;
+}
+
+export class StorageAPI {
+    private readonly storage: KeyValueStore;
     private readonly prefix: string;
 
-    constructor(storage: Storage, prefix = "grokness") {
+    constructor(storage: KeyValueStore, prefix = "grokness") {
         this.storage = storage;
         this.prefix = prefix;
     }
@@ -64,6 +308,28 @@ class StorageAPI {
         }
     }
 
+    /**
+     * Every stored entry that has no expiry, keyed without the prefix.
+     */
+    persistentEntries(): Array<[string, unknown]> {
+        const entries: Array<[string, unknown]> = [];
+        try {
+            for (let i = 0; i < this.storage.length; i++) {
+                const key = this.storage.key(i);
+                if (!key?.startsWith(this.prefix + ":")) {
+                    continue;
+                }
+                const item = JSON.parse(this.storage.getItem(key) ?? "null") as StorageItem<unknown> | null;
+                if (item && item.expiresAt == null) {
+                    entries.push([key.slice(this.prefix.length + 1), item.value]);
+                }
+            }
+        } catch (e) {
+            logger.error("Failed to read prefixed storage", e);
+        }
+        return entries;
+    }
+
     clear(): void {
         try {
             for (let i = this.storage.length - 1; i >= 0; i--) {
@@ -79,4 +345,4 @@ class StorageAPI {
 }
 
 export const session = new StorageAPI(sessionStorage);
-export const local = new StorageAPI(localStorage);
+export const local = new StorageAPI(persistentStorage);
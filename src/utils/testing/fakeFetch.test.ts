@@ -0,0 +1,67 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ApiClient } from "@api/client";
+import { createApiServices } from "@api/services";
+import { createFakeFetch, DEFAULT_ASSETS, DEFAULT_RATE_LIMITS, DEFAULT_USER, type RecordedCall } from "@utils/testing/fakeFetch";
+import { describe, expect, test } from "bun:test";
+
+describe("createFakeFetch", () => {
+    test("serves the default routes and records each call", async () => {
+        const api = createFakeFetch();
+
+        const res = await api.fetch("/rest/rate-limits?source=test", { method: "POST", body: JSON.stringify({ requestKind: "DEFAULT" }) });
+
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual(DEFAULT_RATE_LIMITS);
+        expect(api.calls).toHaveLength(1);
+        expect(api.calls[0]).toMatchObject({ method: "POST", path: "/rest/rate-limits", body: { requestKind: "DEFAULT" } });
+        expect(api.calls[0]?.query.get("source")).toBe("test");
+    });
+
+    test("falls back to the longest scripted prefix for the same method", async () => {
+        const api = createFakeFetch({ "DELETE /rest/assets/special": { status: 409 } });
+
+        expect((await api.fetch("/rest/assets/asset-1", { method: "DELETE" })).status).toBe(200);
+        expect((await api.fetch("/rest/assets/special/child", { method: "DELETE" })).status).toBe(409);
+        expect((await api.fetch("/rest/assets/asset-1", { method: "PUT" })).status).toBe(404);
+    });
+
+    test("answers unscripted routes with 404", async () => {
+        const api = createFakeFetch();
+
+        const res = await api.fetch("/rest/unknown");
+
+        expect(res.status).toBe(404);
+        expect(await res.json()).toEqual({ error: "No fake route for GET /rest/unknown" });
+    });
+
+    test("routes can be responders or status objects, and reset restores the defaults", async () => {
+        const api = createFakeFetch();
+        api.respond("GET /rest/auth/get-user", { status: 401, body: { error: "signed out" } });
+        api.respond("POST /rest/echo", (call: RecordedCall) => ({ echoed: call.body }));
+
+        expect((await api.fetch("/rest/auth/get-user")).status).toBe(401);
+        expect(await (await api.fetch("/rest/echo", { method: "POST", body: "{\"a\":1}" })).json()).toEqual({ echoed: { a: 1 } });
+        expect(api.callsTo("/rest/auth")).toHaveLength(1);
+
+        api.reset();
+
+        expect(api.calls).toHaveLength(0);
+        expect(await (await api.fetch("/rest/auth/get-user")).json()).toEqual(DEFAULT_USER);
+    });
+
+    test("works as the ApiClient fetchImpl", async () => {
+        const api = createFakeFetch();
+        const services = createApiServices(new ApiClient({ baseUrl: "https://grok.com", fetchImpl: api.fetch }));
+
+        expect(await services.assets.list({ pageSize: 10 })).toEqual(DEFAULT_ASSETS);
+        await services.assets.delete({ assetId: "asset-1" });
+
+        expect(api.calls.map(c => `${c.method} ${c.path}`)).toEqual(["GET /rest/assets", "DELETE /rest/assets/asset-1"]);
+        expect(api.calls[0]?.query.get("pageSize")).toBe("10");
+    });
+});
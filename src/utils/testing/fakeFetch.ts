@@ -0,0 +1,155 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { ListAssetsResponse, ListConversationsResponse, RateLimitData, SubscriptionsResponse, UserProfile } from "@api/types";
+
+export interface RecordedCall {
+    readonly method: string;
+    readonly path: string;
+    readonly query: URLSearchParams;
+    readonly body: unknown;
+}
+
+export type FakeResponder = (call: RecordedCall) => unknown;
+
+/**
+ * Scripted response for a route. Plain values are served as JSON with status 200.
+ */
+export type FakeRoute = unknown | FakeResponder | { readonly status: number; readonly body?: unknown; };
+
+export interface FakeFetch {
+    /** Drop-in `fetchImpl` for ApiClient */
+    readonly fetch: typeof fetch;
+    /** Every request received, in order */
+    readonly calls: readonly RecordedCall[];
+    /** Script or replace the response for `"METHOD /path"` or `"/path"` (any method) */
+    respond(route: string, response: FakeRoute): void;
+    /** Calls whose path starts with the given prefix */
+    callsTo(pathPrefix: string): RecordedCall[];
+    reset(): void;
+}
+
+export const DEFAULT_USER: UserProfile = {
+    id: "user-1",
+    email: "tester@example.com",
+    givenName: "Test",
+    familyName: "User",
+    avatarUrl: null,
+};
+
+export const DEFAULT_SUBSCRIPTIONS: SubscriptionsResponse = { tier: "SUBSCRIPTION_TIER_GROK_PRO", status: "SUBSCRIPTION_STATUS_ACTIVE" };
+
+export const DEFAULT_RATE_LIMITS: RateLimitData = {
+    windowSizeSeconds: 7200,
+    remainingQueries: 42,
+    totalQueries: 50,
+    waitTimeSeconds: 0,
+};
+
+export const DEFAULT_ASSETS: ListAssetsResponse = {
+    assets: [
+        { id: "asset-1", mimeType: "text/plain", sizeBytes: 12, createdAt: "2025-01-01T00:00:00Z", name: "notes.txt" },
+        { id: "asset-2", mimeType: "image/png", sizeBytes: 2048, createdAt: "2025-01-02T00:00:00Z", name: "diagram.png" },
+    ],
+    nextPageToken: null,
+};
+
+export const DEFAULT_CONVERSATIONS: ListConversationsResponse = {
+    conversations: [
+        { conversationId: "conv-1", title: "Trip planning", starred: false, createTime: "2025-01-03T00:00:00Z", modifyTime: "2025-01-04T00:00:00Z" },
+        { conversationId: "conv-2", title: "Regex help", starred: true, createTime: "2025-01-05T00:00:00Z", modifyTime: "2025-01-05T00:00:00Z" },
+    ],
+    nextPageToken: null,
+};
+
+const isResponder = (value: FakeRoute): value is FakeResponder => typeof value === "function";
+
+const isStatusRoute = (value: FakeRoute): value is { status: number; body?: unknown; } =>
+    typeof value === "object" && value !== null && typeof (value as { status?: unknown; }).status === "number" && Object.keys(value).every(k => k === "status" || k === "body");
+
+/**
+ * Create an offline fetch that serves scripted grok.com REST responses and records every call.
+ * `/rest/auth/get-user`, `/rest/subscriptions`, `/rest/rate-limits`, `/rest/assets` and the conversation list are scripted by default;
+ * anything else answers 404.
+ */
+export function createFakeFetch(routes: Record<string, FakeRoute> = {}): FakeFetch {
+    const calls: RecordedCall[] = [];
+    const table = new Map<string, FakeRoute>();
+
+    const install = () => {
+        table.clear();
+        table.set("GET /rest/auth/get-user", DEFAULT_USER);
+        table.set("GET /rest/subscriptions", DEFAULT_SUBSCRIPTIONS);
+        table.set("POST /rest/rate-limits", DEFAULT_RATE_LIMITS);
+        table.set("GET /rest/assets", DEFAULT_ASSETS);
+        table.set("DELETE /rest/assets", {});
+        table.set("GET /rest/app-chat/conversations", DEFAULT_CONVERSATIONS);
+        table.set("GET /rest/app-chat/conversations/search", DEFAULT_CONVERSATIONS);
+        for (const [route, response] of Object.entries(routes)) {
+            table.set(route, response);
+        }
+    };
+    install();
+
+    const lookup = (method: string, path: string): FakeRoute | undefined => {
+        for (const key of [`${method} ${path}`, path]) {
+            if (table.has(key)) {
+                return table.get(key);
+            }
+        }
+        // Fall back to the longest scripted prefix, e.g. "DELETE /rest/assets" for "/rest/assets/asset-1"
+        let best: { length: number; value: FakeRoute; } | null = null;
+        for (const [key, value] of table) {
+            const [routeMethod, routePath] = key.includes(" ") ? key.split(" ", 2) as [string, string] : [method, key];
+            if (routeMethod === method && path.startsWith(routePath + "/") && (!best || routePath.length > best.length)) {
+                best = { length: routePath.length, value };
+            }
+        }
+        return best?.value;
+    };
+
+    const fakeFetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+        const url = new URL(input instanceof Request ? input.url : String(input), "https://grok.com");
+        const method = (init?.method ?? (input instanceof Request ? input.method : "GET")).toUpperCase();
+        let body: unknown = init?.body ?? null;
+        if (typeof body === "string") {
+            try {
+                body = JSON.parse(body);
+            } catch {
+                // keep raw text
+            }
+        }
+        const call: RecordedCall = { method, path: url.pathname, query: url.searchParams, body };
+        calls.push(call);
+
+        const route = lookup(method, url.pathname);
+        if (route === undefined) {
+            return new Response(JSON.stringify({ error: `No fake route for ${method} ${url.pathname}` }), {
+                status: 404,
+                headers: { "content-type": "application/json" },
+            });
+        }
+        const resolved: unknown = isResponder(route) ? await route(call) : route;
+        const status = isStatusRoute(resolved) ? resolved.status : 200;
+        const payload = isStatusRoute(resolved) ? resolved.body ?? {} : resolved;
+        return new Response(JSON.stringify(payload), { status, headers: { "content-type": "application/json" } });
+    }) as typeof fetch;
+
+    return {
+        fetch: fakeFetch,
+        calls,
+        respond(route, response) {
+            table.set(route, response);
+        },
+        callsTo(pathPrefix) {
+            return calls.filter(c => c.path.startsWith(pathPrefix));
+        },
+        reset() {
+            calls.length = 0;
+            install();
+        },
+    };
+}
@@ -0,0 +1,38 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { findElementUnsafe } from "@utils/dom";
+import { LOCATORS } from "@utils/locators";
+import { FIXTURES, loadFixtures } from "@utils/testing/fixtures";
+import { afterEach, describe, expect, test } from "bun:test";
+
+afterEach(() => {
+    document.querySelectorAll("[data-grokness-fixture]").forEach(el => el.remove());
+});
+
+describe("loadFixtures", () => {
+    test("appends each fixture in order inside a tagged wrapper", () => {
+        const loaded = loadFixtures(["sidebar", "queryBar"]);
+        const wrappers = [...document.querySelectorAll<HTMLElement>("[data-grokness-fixture]")];
+
+        expect(wrappers.map(w => w.dataset.groknessFixture)).toEqual(["sidebar", "queryBar"]);
+        expect(loaded.sidebar).toBe(wrappers[0] as HTMLElement);
+        expect(loaded.chatBubbles).toBeUndefined();
+    });
+
+    test("satisfies the sidebar locators", () => {
+        loadFixtures(["sidebar"]);
+
+        expect(findElementUnsafe(LOCATORS.SIDEBAR.filesLink)?.getAttribute("href")).toBe("/files");
+        expect(findElementUnsafe(LOCATORS.SIDEBAR.searchButton)).not.toBeNull();
+    });
+
+    test("every fixture parses to markup", () => {
+        for (const name of Object.keys(FIXTURES) as (keyof typeof FIXTURES)[]) {
+            expect(loadFixtures([name])[name]?.firstElementChild).not.toBeNull();
+        }
+    });
+});
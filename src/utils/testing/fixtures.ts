@@ -0,0 +1,92 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+/**
+ * Trimmed snapshots of grok.com markup, shaped to satisfy the selectors in `@utils/locators`.
+ * Update these alongside the locators whenever grok.com changes its markup.
+ */
+export const FIXTURES = {
+    sidebar: `
+<div data-sidebar="sidebar">
+    <div data-sidebar="header"><a aria-label="Home page" href="/"></a></div>
+    <div data-sidebar="content">
+        <div data-sidebar="group">
+            <ul data-sidebar="menu">
+                <li data-sidebar="menu-item"><button data-sidebar="menu-button" aria-label="Search"><span data-sidebar="icon"></span>Search</button></li>
+                <li data-sidebar="menu-item"><button data-sidebar="menu-button" aria-label="Voice"><span data-sidebar="icon"></span>Voice</button></li>
+                <li data-sidebar="menu-item"><a data-sidebar="menu-button" href="/files"><span data-sidebar="icon"></span>Files</a></li>
+                <li data-sidebar="menu-item"><a data-sidebar="menu-button" href="/tasks"><span data-sidebar="icon"></span>Tasks</a></li>
+                <li data-sidebar="menu-item"><a data-sidebar="menu-button" href="/project"><span data-sidebar="icon"></span>Projects</a></li>
+                <li data-sidebar="menu-item"><button data-sidebar="menu-button" aria-label="History"><span data-sidebar="icon"></span>History</button></li>
+            </ul>
+        </div>
+    </div>
+    <div data-sidebar="footer">
+        <button aria-haspopup="menu" aria-label="Account"></button>
+        <button data-sidebar="trigger"><svg><path d="M0 0h24v24"></path></svg></button>
+    </div>
+</div>`,
+
+    queryBar: `
+<form>
+    <div class="query-bar">
+        <div class="tiptap ProseMirror" contenteditable="true"><p data-placeholder="What do you want to know?"></p></div>
+        <button aria-label="Attach"><svg><path d="M10 9V15C10 16.1046 10.8954 17 12 17V17C13.1046 17 14 16.1046 14 15V7C14 4.79086 12.2091 3 10 3V3C7.79086 3 6 4.79086 6 7V15C6 18.3137 8.68629 21 12 21V21C15.3137 21 18 18.3137 18 15V8"></path></svg></button>
+        <button id="model-select-trigger" role="combobox" data-slot="select-trigger"><span class="font-semibold">Grok 4</span><svg><path d="M5 14.25L14 4"></path></svg></button>
+        <select aria-hidden="true"><option value="grok-4">Grok 4</option></select>
+        <button aria-label="Submit" type="submit"></button>
+    </div>
+</form>`,
+
+    chatBubbles: `
+<main>
+    <div class="relative group">
+        <div class="message-bubble bg-surface-l2">Hello Grok</div>
+        <button aria-label="Edit"></button>
+    </div>
+    <div class="relative group">
+        <div class="message-bubble">Hi! How can I help?</div>
+        <div class="relative not-prose @container/code-block">
+            <div class="flex flex-row px-4 py-2 h-10 items-center rounded-t-xl bg-surface-l2 border border-border-l1"><span class="font-mono text-xs">ts</span></div>
+            <pre><code>const answer = 42;</code></pre>
+            <div class="absolute bottom-1 right-1"><div class="flex flex-row gap-0.5"></div></div>
+        </div>
+    </div>
+</main>`,
+
+    settingsDialog: `
+<div role="dialog" data-state="open">
+    <h2>Settings</h2>
+    <div class="flex flex-col gap-1.5 pl-3 pb-3">
+        <button data-slot="button" class="justify-start min-w-40">Account</button>
+        <button data-slot="button" class="justify-start min-w-40">Appearance</button>
+        <button data-slot="button" class="justify-start min-w-40">Behavior</button>
+        <button data-slot="button" class="justify-start min-w-40">Customize</button>
+        <button data-slot="button" class="justify-start min-w-40">Data Controls</button>
+        <button data-slot="button" class="justify-start min-w-40">Subscription</button>
+        <button data-slot="button" class="justify-start min-w-40">Dev Tools</button>
+    </div>
+    <div class="overflow-y-auto"></div>
+</div>`,
+} as const;
+
+export type FixtureName = keyof typeof FIXTURES;
+
+/**
+ * Append fixtures to the document body, in the given order.
+ * @returns The wrapper element of each fixture, keyed by name
+ */
+export function loadFixtures(names: readonly FixtureName[], root: HTMLElement = document.body): Record<FixtureName, HTMLElement | undefined> {
+    const loaded: Partial<Record<FixtureName, HTMLElement>> = {};
+    for (const name of names) {
+        const wrapper = document.createElement("div");
+        wrapper.dataset.groknessFixture = name;
+        wrapper.innerHTML = FIXTURES[name].trim();
+        root.appendChild(wrapper);
+        loaded[name] = wrapper;
+    }
+    return loaded as Record<FixtureName, HTMLElement | undefined>;
+}
@@ -0,0 +1,74 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Devs } from "@utils/constants";
+import { LOCATORS } from "@utils/locators";
+import { DEFAULT_USER } from "@utils/testing/fakeFetch";
+import { type BootedPluginManager, bootPluginManager } from "@utils/testing/harness";
+import { definePlugin } from "@utils/types";
+import { afterEach, describe, expect, test } from "bun:test";
+
+const seen: unknown[] = [];
+
+const greeter = definePlugin({
+    name: "Harness Greeter",
+    description: "Greets the signed-in user in the sidebar",
+    authors: [Devs.Prism],
+    ui: {
+        target: LOCATORS.SIDEBAR.header,
+        component: () => <span data-testid="greeting">Hi</span>,
+    },
+    async start() {
+        const res = await fetch("/rest/auth/get-user");
+        seen.push(((await res.json()) as typeof DEFAULT_USER).givenName);
+    },
+    stop() {
+        seen.push("stopped");
+    },
+});
+
+const waitFor = async (check: () => boolean, timeoutMs = 1000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!check()) {
+        if (Date.now() > deadline) {
+            throw new Error("Timed out waiting for condition");
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+};
+
+describe("bootPluginManager", () => {
+    let booted: BootedPluginManager | null = null;
+
+    afterEach(async () => {
+        await booted?.dispose();
+        booted = null;
+        seen.length = 0;
+    });
+
+    test("starts an enabled plugin against the page fixtures", async () => {
+        booted = await bootPluginManager({ plugins: [greeter], enable: [greeter.id], fixtures: ["sidebar"] });
+
+        expect(booted.manager.getPluginState(greeter.id)).toBe("loaded");
+        expect(seen).toEqual([DEFAULT_USER.givenName]);
+        expect(booted.api.callsTo("/rest/auth/get-user")).toHaveLength(1);
+
+        await waitFor(() => !!booted?.fixtures.sidebar?.querySelector("[data-testid=greeting]"));
+        expect(booted.stats(greeter.id).mounts).toBe(1);
+    });
+
+    test("dispose stops plugins and restores fetch", async () => {
+        const originalFetch = globalThis.fetch;
+        booted = await bootPluginManager({ plugins: [greeter], enable: [greeter.id] });
+        expect(globalThis.fetch).toBe(booted.api.fetch);
+
+        await booted.dispose();
+        booted = null;
+
+        expect(seen).toContain("stopped");
+        expect(globalThis.fetch).toBe(originalFetch);
+    });
+});
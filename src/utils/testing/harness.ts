@@ -0,0 +1,76 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { persistentStorage } from "@utils/storage";
+import { createFakeFetch, type FakeFetch } from "@utils/testing/fakeFetch";
+import { type FixtureName, loadFixtures } from "@utils/testing/fixtures";
+import { type IPlugin, pluginHelper } from "@utils/types";
+
+import { PluginManager } from "../../loader";
+
+export interface BootOptions {
+    /** Plugins to register, usually the default exports of the plugin modules under test */
+    readonly plugins: readonly IPlugin[];
+    /** Plugin ids to enable on top of required and enabled-by-default plugins */
+    readonly enable?: readonly string[];
+    /** Fixtures to load into the page before the manager starts */
+    readonly fixtures?: readonly FixtureName[];
+    /** Routes passed to {@link createFakeFetch} */
+    readonly routes?: Parameters<typeof createFakeFetch>[0];
+}
+
+export interface BootedPluginManager {
+    readonly manager: PluginManager;
+    /** Fake fetch installed as the page's `fetch`, also usable as an explicit `fetchImpl` */
+    readonly api: FakeFetch;
+    readonly fixtures: ReturnType<typeof loadFixtures>;
+    /** Number of UI patches, live mounts and whether a stylesheet is injected for a plugin */
+    stats(pluginId: string): ReturnType<typeof pluginHelper.getPluginStats>;
+    /** Stop every plugin and restore the original `fetch` */
+    dispose(): Promise<void>;
+}
+
+/**
+ * Load fixtures, swap `fetch` for a scripted fake and start a PluginManager with the given plugins.
+ * Expects a DOM to be available, either from `createTestPage` or the test runner.
+ */
+export async function bootPluginManager(options: BootOptions): Promise<BootedPluginManager> {
+    const fixtures = loadFixtures(options.fixtures ?? []);
+    const api = createFakeFetch(options.routes);
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = api.fetch;
+
+    for (const id of options.enable ?? []) {
+        persistentStorage.setItem(`plugin-enabled:${id}`, "1");
+    }
+
+    const manager = new PluginManager({
+        plugins: options.plugins,
+        loadDelayMs: 0,
+        retryDelayMs: 0,
+        parallelLoading: false,
+    });
+    const result = await manager.loadPlugins();
+    if (!result.success) {
+        globalThis.fetch = originalFetch;
+        throw result.error;
+    }
+
+    return {
+        manager,
+        api,
+        fixtures,
+        stats: pluginId => pluginHelper.getPluginStats(pluginId),
+        async dispose() {
+            await manager.unload();
+            manager.dispose();
+            globalThis.fetch = originalFetch;
+            for (const wrapper of Object.values(fixtures)) {
+                wrapper?.remove();
+            }
+        },
+    };
+}
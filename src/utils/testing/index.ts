@@ -0,0 +1,10 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export * from "./fakeFetch";
+export * from "./fixtures";
+export * from "./harness";
+export * from "./page";
@@ -0,0 +1,33 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { createTestPage } from "@utils/testing/page";
+import { describe, expect, test } from "bun:test";
+
+describe("createTestPage", () => {
+    test("exposes the page's DOM globals until closed", async () => {
+        const previousDocument = document;
+        const page = createTestPage("https://grok.com/files");
+
+        expect(location.pathname).toBe("/files");
+        expect(document).toBe(page.document);
+        document.body.innerHTML = "<p>fixture</p>";
+        expect(document.querySelector("p")).toBeInstanceOf(HTMLElement);
+        localStorage.setItem("key", "value");
+        expect(page.window.localStorage.getItem("key")).toBe("value");
+
+        await page.close();
+
+        expect(document).toBe(previousDocument);
+        expect(location.pathname).toBe("/");
+    });
+
+    test("leaves the runtime's fetch in place", () => {
+        const page = createTestPage();
+        expect(globalThis.fetch).not.toBe(page.window.fetch as unknown as typeof fetch);
+        return page.close();
+    });
+});
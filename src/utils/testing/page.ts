@@ -0,0 +1,58 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Window } from "happy-dom";
+
+const SKIPPED_GLOBALS = new Set(["undefined", "NaN", "Infinity", "globalThis", "eval", "console", "fetch"]);
+
+export interface TestPage {
+    readonly window: Window;
+    readonly document: Document;
+    /** Restore the previous globals and close the page */
+    close(): Promise<void>;
+}
+
+/**
+ * Boot a happy-dom page and expose its DOM globals (`window`, `document`, `localStorage`, element classes, ...)
+ * on `globalThis`. Grokness modules touch `localStorage` and the DOM at import time, so call this from a setup file
+ * that imports only `@utils/testing/page`, before anything else is imported.
+ * Test runners that already provide a DOM environment can skip this and use the other helpers directly.
+ */
+export function createTestPage(url = "https://grok.com/"): TestPage {
+    const window = new Window({ url, settings: { disableJavaScriptFileLoading: true, disableCSSFileLoading: true } });
+    const target = globalThis as unknown as Record<string, unknown>;
+    const previous = new Map<string, PropertyDescriptor | undefined>();
+
+    for (const key of Object.getOwnPropertyNames(window)) {
+        if (key.startsWith("_") || SKIPPED_GLOBALS.has(key)) {
+            continue;
+        }
+        previous.set(key, Object.getOwnPropertyDescriptor(globalThis, key));
+        Object.defineProperty(globalThis, key, {
+            configurable: true,
+            get: () => (window as unknown as Record<string, unknown>)[key],
+            set: value => {
+                (window as unknown as Record<string, unknown>)[key] = value;
+            },
+        });
+    }
+    target.window = globalThis;
+
+    return {
+        window,
+        document: window.document as unknown as Document,
+        async close() {
+            for (const [key, descriptor] of previous) {
+                if (descriptor) {
+                    Object.defineProperty(globalThis, key, descriptor);
+                } else {
+                    delete target[key];
+                }
+            }
+            await window.happyDOM.close();
+        },
+    };
+}
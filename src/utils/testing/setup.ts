@@ -0,0 +1,13 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+/**
+ * Preloaded by `bun test` (see bunfig.toml) so every test file starts with a grok.com page in place.
+ */
+
+import { createTestPage } from "@utils/testing/page";
+
+createTestPage();
@@ -0,0 +1,88 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Devs } from "@utils/constants";
+import { persistentStorage } from "@utils/storage";
+import { bootPluginManager } from "@utils/testing/harness";
+import { definePlugin, getPluginSettings, initializePluginSettings, type PluginOptions } from "@utils/types";
+import { describe, expect, test } from "bun:test";
+
+const options = {
+    mode: { type: "select", description: "Layout", default: "compact", options: [{ label: "Compact", value: "compact" }, { label: "Wide", value: "wide" }] },
+} satisfies PluginOptions;
+
+const seed = (pluginId: string, settings: Record<string, unknown>, version: number) => {
+    persistentStorage.setItem(`plugin-settings:${pluginId}`, JSON.stringify(settings));
+    persistentStorage.setItem(`plugin-settings-version:${pluginId}`, String(version));
+};
+
+describe("initializePluginSettings", () => {
+    test("migrates old settings and bumps the version", () => {
+        seed("migrates", { layout: "wide" }, 1);
+
+        initializePluginSettings("migrates", options, { version: 2, migrate: old => ({ mode: old.layout }) });
+
+        expect(getPluginSettings("migrates")).toEqual({ mode: "wide" });
+        expect(persistentStorage.getItem("plugin-settings-version:migrates")).toBe("2");
+    });
+
+    test("keeps the stored settings and version when the migration throws", () => {
+        seed("broken", { layout: "wide" }, 1);
+
+        initializePluginSettings("broken", options, {
+            version: 2,
+            migrate: () => {
+                throw new Error("bad migration");
+            },
+        });
+
+        expect(JSON.parse(persistentStorage.getItem("plugin-settings:broken") ?? "null")).toEqual({ layout: "wide" });
+        expect(persistentStorage.getItem("plugin-settings-version:broken")).toBe("1");
+    });
+});
+
+describe("definePlugin", () => {
+    test("async start failures reach onError", async () => {
+        const errors: string[] = [];
+        const plugin = definePlugin({
+            name: "Async Start Failure",
+            description: "Rejects while starting",
+            authors: [Devs.Prism],
+            async start() {
+                await Promise.resolve();
+                throw new Error("start failed");
+            },
+            onError: error => errors.push(error.message),
+        });
+
+        const booted = await bootPluginManager({ plugins: [plugin], enable: [plugin.id] });
+
+        expect(errors[0]).toBe("start failed");
+        expect(booted.manager.getPluginState(plugin.id)).toBe("quarantined");
+        await booted.dispose();
+    });
+
+    test("disposables outlive an async stop", async () => {
+        const order: string[] = [];
+        const plugin = definePlugin({
+            name: "Async Stop",
+            description: "Cleans up asynchronously",
+            authors: [Devs.Prism],
+            start(ctx) {
+                ctx.disposables.add(() => order.push("disposed"));
+            },
+            async stop() {
+                await Promise.resolve();
+                order.push("stopped");
+            },
+        });
+
+        const booted = await bootPluginManager({ plugins: [plugin], enable: [plugin.id] });
+        await booted.dispose();
+
+        expect(order).toEqual(["stopped", "disposed"]);
+    });
+});
@@ -3,9 +3,18 @@
  * Clean, type-safe plugin system with auto-generated IDs
  */
 
+import type { grokApi } from "@api/index";
+import type { PluginCommand } from "@utils/commands";
 import { type IDeveloper } from "@utils/constants";
 import { type AnySelector, type ElementFinderConfig, selectOne } from "@utils/dom";
+import type { GroknessEventHandler, GroknessEventMap, GroknessEventName } from "@utils/events";
+import type { KeybindHandler, KeybindScope } from "@utils/keybinds";
+import type { LocatorPath } from "@utils/locators";
+import { Logger } from "@utils/logger";
+import type { MutationCallback, MutationSubscriptionOptions } from "@utils/mutationScheduler";
 import { PluginHelper } from "@utils/pluginHelper";
+import type { RouteMatcher } from "@utils/router";
+import { persistentStorage, type StorageAPI } from "@utils/storage";
 import React from "react";
 
 // =============================================================================
@@ -34,43 +43,199 @@ export type PluginOptionType =
     | "slider"
     | "boolean"
     | "select"
+    | "multiSelect"
+    | "color"
+    | "keybind"
+    | "list"
     | "custom";
 
-export interface PluginOptionBase {
+export interface PluginOptionBase<V = unknown> {
     readonly type: PluginOptionType;
     readonly description: string;
     readonly displayName?: string;
-    readonly default?: unknown;
+    readonly default?: V;
     readonly required?: boolean;
     readonly disabled?: boolean;
     readonly hidden?: boolean;
-    readonly options?: readonly { label: string; value: unknown; }[];
+    /** Extra check run after the built-in ones; return an error message to reject the value */
+    readonly validate?: (value: V) => string | null | undefined;
 }
 
-export type PluginOptions = Record<string, PluginOptionBase>;
+export interface SelectChoice<V = unknown> {
+    readonly label: string;
+    readonly value: V;
+}
+
+export interface BooleanOption extends PluginOptionBase<boolean> {
+    readonly type: "boolean";
+}
+
+export interface StringOption extends PluginOptionBase<string> {
+    readonly type: "string";
+    readonly placeholder?: string;
+    readonly pattern?: RegExp;
+    readonly maxLength?: number;
+}
+
+export interface NumberOption extends PluginOptionBase<number> {
+    readonly type: "number";
+    readonly min?: number;
+    readonly max?: number;
+    readonly step?: number;
+    readonly integer?: boolean;
+}
+
+export interface SliderOption extends PluginOptionBase<number> {
+    readonly type: "slider";
+    readonly min: number;
+    readonly max: number;
+    readonly step?: number;
+    readonly suffix?: string;
+}
+
+export interface SelectOption<V = unknown> extends PluginOptionBase<V> {
+    readonly type: "select";
+    readonly options: readonly SelectChoice<V>[];
+}
+
+export interface MultiSelectOption<V = unknown> extends PluginOptionBase<readonly V[]> {
+    readonly type: "multiSelect";
+    readonly options: readonly SelectChoice<V>[];
+    readonly maxSelected?: number;
+}
+
+/** Hex colour such as `#ff8800`, or `#ff8800cc` when `alpha` is set */
+export interface ColorOption extends PluginOptionBase<string> {
+    readonly type: "color";
+    readonly alpha?: boolean;
+}
+
+/** Key combination such as `Ctrl+Shift+K`, dispatched through the keybind registry */
+export interface KeybindOption extends PluginOptionBase<string> {
+    readonly type: "keybind";
+    /** Where the keybind is active. @default "global" */
+    readonly scope?: KeybindScope;
+}
+
+export interface ListOption extends PluginOptionBase<readonly string[]> {
+    readonly type: "list";
+    readonly maxItems?: number;
+    readonly itemPattern?: RegExp;
+    readonly placeholder?: string;
+}
+
+export interface CustomOptionProps<V = unknown> {
+    readonly value: V;
+    readonly onChange: (value: V) => void;
+}
+
+export interface CustomOption<V = unknown> extends PluginOptionBase<V> {
+    readonly type: "custom";
+    readonly component?: React.ComponentType<CustomOptionProps<V>>;
+}
 
-export type InferOptionType<O extends PluginOptionBase> =
-    O["type"] extends "boolean" ? boolean :
-    O["type"] extends "number" | "slider" ? number :
-    O["type"] extends "string" ? string :
-    O["type"] extends "select" ? O["options"] extends readonly { value: infer V; }[] ? V : unknown :
+export type PluginOption =
+    | BooleanOption
+    | StringOption
+    | NumberOption
+    | SliderOption
+    | SelectOption
+    | MultiSelectOption
+    | ColorOption
+    | KeybindOption
+    | ListOption
+    | CustomOption;
+
+export type PluginOptions = Record<string, PluginOption>;
+
+export type InferOptionType<O extends PluginOption> =
+    O extends { type: "boolean"; } ? boolean :
+    O extends { type: "number" | "slider"; } ? number :
+    O extends { type: "string" | "color" | "keybind"; } ? string :
+    O extends { type: "select"; options: readonly { value: infer V; }[]; } ? V :
+    O extends { type: "multiSelect"; options: readonly { value: infer V; }[]; } ? V[] :
+    O extends { type: "list"; } ? string[] :
+    O extends { type: "custom"; validate?: (value: infer V) => unknown; } ? V :
+    O extends { type: "custom"; default?: infer V; } ? V :
     unknown;
 
+export interface SettingsSchemaOptions {
+    /** Current schema version; bump it whenever `migrate` has new work to do */
+    readonly version?: number;
+    /** Reshape settings stored by an older version into the current shape */
+    readonly migrate?: (old: Record<string, unknown>, fromVersion: number) => Record<string, unknown>;
+}
+
 export interface ISettingsManager<T extends PluginOptions = PluginOptions> {
     readonly definition: T;
     readonly store: Record<string, unknown>;
+    readonly schema?: SettingsSchemaOptions;
 }
 
+export type SettingUpdateResult = { readonly success: true; } | { readonly success: false; readonly error: string; };
+
 // =============================================================================
 // PLUGIN CONTEXT
 // =============================================================================
 
+/**
+ * Cleanup functions run together when a plugin stops.
+ */
+export interface PluginDisposables {
+    readonly size: number;
+    /**
+     * Register a cleanup function.
+     * @returns The same function, removed from the collection once it has run
+     */
+    add(dispose: () => void): () => void;
+    /** Run every registered cleanup function, most recent first */
+    dispose(): void;
+}
+
+/**
+ * Grokness event bus whose subscriptions are released when the plugin stops.
+ */
+export interface PluginEvents {
+    on<K extends GroknessEventName>(event: K, handler: GroknessEventHandler<K>): () => void;
+    emit<K extends GroknessEventName>(event: K, detail: GroknessEventMap[K]): void;
+}
+
+/** Scheduler options for {@link IPluginContext.observe}; the name is prefixed with the plugin id */
+export type PluginObserveOptions = Omit<MutationSubscriptionOptions, "name"> & { readonly name?: string; };
+
 export interface IPluginContext<TSettings extends PluginOptions = PluginOptions> {
     readonly storageKey: string;
     readonly pluginId: string;
     readonly pluginName: string;
     readonly startTime: number;
     readonly settings: { [K in keyof TSettings]: InferOptionType<TSettings[K]> };
+    /** Logger titled with the plugin name */
+    readonly logger: Logger;
+    /** Persistent storage namespaced to this plugin */
+    readonly storage: StorageAPI;
+    readonly api: typeof grokApi;
+    readonly events: PluginEvents;
+    /** Torn down automatically after the plugin's `stop` */
+    readonly disposables: PluginDisposables;
+
+    /**
+     * Add an event listener that is removed when the plugin stops.
+     * @returns Function that removes the listener early
+     */
+    on<K extends keyof WindowEventMap>(target: Window, event: K, fn: (e: WindowEventMap[K]) => void, options?: AddEventListenerOptions | boolean): () => void;
+    on<K extends keyof DocumentEventMap>(target: Document, event: K, fn: (e: DocumentEventMap[K]) => void, options?: AddEventListenerOptions | boolean): () => void;
+    on<K extends keyof HTMLElementEventMap>(target: HTMLElement, event: K, fn: (e: HTMLElementEventMap[K]) => void, options?: AddEventListenerOptions | boolean): () => void;
+    on(target: EventTarget, event: string, fn: (e: Event) => void, options?: AddEventListenerOptions | boolean): () => void;
+    /** `setInterval` cleared when the plugin stops */
+    interval(fn: () => void, ms: number): () => void;
+    /** `setTimeout` cleared when the plugin stops */
+    timeout(fn: () => void, ms: number): () => void;
+    /** Subscribe to the shared mutation scheduler until the plugin stops */
+    observe(callback: MutationCallback, options?: PluginObserveOptions): () => void;
+    /** Add a command to the palette until the plugin stops */
+    registerCommand(command: PluginCommand): () => void;
+    /** Handle presses of one of the plugin's `keybind` settings until the plugin stops */
+    onKeybind(settingKey: keyof TSettings & string, handler: KeybindHandler): () => void;
 }
 
 // =============================================================================
@@ -85,6 +250,8 @@ export interface IPluginDefinition<TSettings extends PluginOptions = PluginOptio
     readonly tags?: readonly string[];
     readonly styles?: string;
     readonly dependencies?: readonly string[];
+    /** Locators the plugin cannot work without; the plugin is flagged as degraded while any of them is broken */
+    readonly requiredLocators?: readonly LocatorPath[];
 
     readonly visible?: boolean;
     readonly enabledByDefault?: boolean;
@@ -98,13 +265,21 @@ export interface IPluginDefinition<TSettings extends PluginOptions = PluginOptio
 
     readonly patches?: readonly PluginPatch[];
     readonly ui?: PluginUIPatch | readonly PluginUIPatch[];
+    /** Command palette entries, registered while the plugin runs */
+    readonly commands?: readonly PluginCommand[];
 
     start?(context: IPluginContext<TSettings>): void | Promise<void>;
     stop?(context: IPluginContext<TSettings>): void | Promise<void>;
     onLoad?(context: IPluginContext<TSettings>): void | Promise<void>;
     onUnload?(context: IPluginContext<TSettings>): void | Promise<void>;
+    /** Called when starting, stopping, patching or rendering this plugin throws */
     onError?(error: Error, context: IPluginContext<TSettings>): void;
-    onSettingsChange?(key: string, value: unknown, context: IPluginContext<TSettings>): void;
+    /** Called while the plugin is running whenever one of its settings changes */
+    onSettingsChange?<K extends keyof TSettings & string>(
+        key: K,
+        value: InferOptionType<TSettings[K]>,
+        context: IPluginContext<TSettings>
+    ): void;
 }
 
 // =============================================================================
@@ -120,6 +295,8 @@ export interface IPlugin<TSettings extends PluginOptions = PluginOptions> {
     readonly tags: readonly string[];
     readonly styles?: string;
     readonly dependencies: readonly string[];
+    readonly requiredLocators: readonly LocatorPath[];
+    readonly commands: readonly PluginCommand[];
 
     readonly visible: boolean;
     readonly enabledByDefault: boolean;
@@ -164,8 +341,18 @@ export interface IPluginUIPatch extends IPatch {
     readonly observerDebounce?: boolean | number;
     readonly predicate?: (foundElement: HTMLElement) => boolean;
     readonly insertPosition?: "before" | "after" | "prepend" | "append";
+    /** Only mount on matching routes; mounts are removed when navigating elsewhere */
+    readonly routes?: readonly RouteMatcher[];
+    /** Mount inside a shadow root so page CSS and plugin styles cannot leak across; the mount gets Radix Themes, the shared component utilities, grok.com's design tokens and `styles` */
+    readonly isolate?: UIIsolation;
 }
 
+export type UIIsolation = "shadow";
+
+/**
+ * Rewrites a grok.com webpack module before it runs. Extension builds apply these from the page script,
+ * so a `replace` function is sent as source and must not close over anything.
+ */
 export interface IPluginCodePatch extends IPatch {
     readonly find: string | RegExp;
     readonly replacement: {
@@ -181,6 +368,10 @@ export interface IPluginCodePatch extends IPatch {
 
 export type PluginPatch = IPatch | IPluginUIPatch | IPluginCodePatch;
 
+export function isCodePatch(patch: PluginPatch): patch is IPluginCodePatch {
+    return !!patch && "find" in patch && "replacement" in patch;
+}
+
 export type InjectedComponentProps = {
     readonly rootElement?: HTMLElement;
     readonly context?: IPluginContext;
@@ -208,6 +399,8 @@ export type SimpleUIPatch = {
     readonly observerDebounce?: boolean | number;
     readonly once?: boolean;
     readonly replaceExisting?: boolean;
+    readonly routes?: readonly RouteMatcher[];
+    readonly isolate?: UIIsolation;
 };
 
 export type PluginUIPatch = SimpleUIPatch | IPluginUIPatch;
@@ -225,22 +418,104 @@ function toKebabCase(str: string): string {
 }
 
 const settingsStore = new Map<string, Record<string, unknown>>();
-const pluginHelper = new PluginHelper();
+const settingsSchemas = new Map<string, { options: PluginOptions; schema?: SettingsSchemaOptions; }>();
+const settingsLogger = new Logger("Settings", "#e5c890");
+export const pluginHelper = new PluginHelper();
 
 // =============================================================================
 // SETTINGS MANAGEMENT
 // =============================================================================
 
-export function definePluginSettings<T extends PluginOptions>(definition: T): ISettingsManager<T> {
+export function definePluginSettings<T extends PluginOptions>(definition: T, schema?: SettingsSchemaOptions): ISettingsManager<T> {
     return {
         definition,
         store: {} as { [K in keyof T]: InferOptionType<T[K]> },
+        schema,
     };
 }
 
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const HEX_COLOR_ALPHA = /^#[0-9a-f]{6}([0-9a-f]{2})?$/i;
+// Space and the plus key are stored as `Space` and `Plus`, see formatKeybind
+const KEYBIND = /^((Ctrl|Alt|Shift|Meta)\+)*[^+\s]+$/;
+
+/**
+ * Check a value against an option's schema.
+ * @returns An error message, or null when the value is acceptable
+ */
+export function validateSettingValue(option: PluginOption, value: unknown): string | null {
+    const label = option.displayName ?? "Value";
+    const builtIn = ((): string | null => {
+        switch (option.type) {
+            case "boolean":
+                return typeof value === "boolean" ? null : `${label} must be on or off`;
+            case "number":
+            case "slider": {
+                if (typeof value !== "number" || Number.isNaN(value)) {
+                    return `${label} must be a number`;
+                }
+                if (option.type === "number" && option.integer && !Number.isInteger(value)) {
+                    return `${label} must be a whole number`;
+                }
+                if (option.min != null && value < option.min) {
+                    return `${label} must be at least ${option.min}`;
+                }
+                if (option.max != null && value > option.max) {
+                    return `${label} must be at most ${option.max}`;
+                }
+                return null;
+            }
+            case "string":
+                if (typeof value !== "string") {
+                    return `${label} must be text`;
+                }
+                if (option.maxLength != null && value.length > option.maxLength) {
+                    return `${label} must be at most ${option.maxLength} characters`;
+                }
+                if (option.pattern && value !== "" && !option.pattern.test(value)) {
+                    return `${label} has an invalid format`;
+                }
+                return null;
+            case "select":
+                return option.options.some(o => o.value === value) ? null : `${label} must be one of the listed choices`;
+            case "multiSelect":
+                if (!Array.isArray(value) || !value.every(v => option.options.some(o => o.value === v))) {
+                    return `${label} must only contain listed choices`;
+                }
+                if (option.maxSelected != null && value.length > option.maxSelected) {
+                    return `${label} allows at most ${option.maxSelected} choices`;
+                }
+                return null;
+            case "color":
+                return typeof value === "string" && (option.alpha ? HEX_COLOR_ALPHA : HEX_COLOR).test(value)
+                    ? null
+                    : `${label} must be a hex colour`;
+            case "keybind":
+                return typeof value === "string" && (value === "" || KEYBIND.test(value)) ? null : `${label} must be a key combination`;
+            case "list":
+                if (!Array.isArray(value) || !value.every(v => typeof v === "string")) {
+                    return `${label} must be a list of text entries`;
+                }
+                if (option.maxItems != null && value.length > option.maxItems) {
+                    return `${label} allows at most ${option.maxItems} entries`;
+                }
+                if (option.itemPattern && value.some(v => !option.itemPattern!.test(v))) {
+                    return `${label} contains an invalid entry`;
+                }
+                return null;
+            case "custom":
+                return null;
+        }
+    })();
+    if (builtIn) {
+        return builtIn;
+    }
+    return (option.validate as ((v: unknown) => string | null | undefined) | undefined)?.(value) ?? null;
+}
+
 export function getPluginSettings(pluginId: string): Record<string, unknown> {
     if (!settingsStore.has(pluginId)) {
-        const stored = localStorage.getItem(`plugin-settings:${pluginId}`);
+        const stored = persistentStorage.getItem(`plugin-settings:${pluginId}`);
         if (stored) {
             try {
                 const parsed = JSON.parse(stored) as Record<string, unknown>;
@@ -255,16 +530,26 @@ export function getPluginSettings(pluginId: string): Record<string, unknown> {
     return settingsStore.get(pluginId)!;
 }
 
-export function setPluginSetting(pluginId: string, key: string, value: unknown): void {
+/**
+ * Validate and persist a single setting. Invalid values are rejected and leave the stored value untouched.
+ */
+export function setPluginSetting(pluginId: string, key: string, value: unknown): SettingUpdateResult {
+    const option = settingsSchemas.get(pluginId)?.options[key];
+    const error = option ? validateSettingValue(option, value) : null;
+    if (error) {
+        return { success: false, error };
+    }
+
     const settings = getPluginSettings(pluginId);
     settings[key] = value;
-    localStorage.setItem(`plugin-settings:${pluginId}`, JSON.stringify(settings));
+    persistentStorage.setItem(`plugin-settings:${pluginId}`, JSON.stringify(settings));
     settingsStore.set(pluginId, settings);
     window.dispatchEvent(
         new CustomEvent("grok-settings-updated", {
             detail: { pluginId, key, value },
         })
     );
+    return { success: true };
 }
 
 export function getPluginSetting<T extends PluginOptions, K extends keyof T & string>(
@@ -287,36 +572,71 @@ export function getPluginSetting<T extends PluginOptions, K extends keyof T & st
     return defaultValue as InferOptionType<T[K]>;
 }
 
-export function initializePluginSettings(pluginId: string, options: PluginOptions): void {
-    const settings = getPluginSettings(pluginId);
+/**
+ * Register a plugin's settings schema, migrate settings stored by older schema versions
+ * and reset any stored value that no longer validates to its default. When the migration throws,
+ * nothing is reset or persisted; reads fall back to defaults for keys the old shape lacks.
+ */
+export function initializePluginSettings(pluginId: string, options: PluginOptions, schema?: SettingsSchemaOptions): void {
+    settingsSchemas.set(pluginId, { options, schema });
+
+    let settings = getPluginSettings(pluginId);
     let hasChanges = false;
 
+    const versionKey = `plugin-settings-version:${pluginId}`;
+    const targetVersion = schema?.version ?? 0;
+    // Settings saved before the plugin declared a schema version count as version 0
+    const storedVersion = Number(persistentStorage.getItem(versionKey) ?? (Object.keys(settings).length > 0 ? 0 : targetVersion));
+    if (schema?.migrate && storedVersion < targetVersion) {
+        try {
+            settings = { ...schema.migrate({ ...settings }, storedVersion) };
+            hasChanges = true;
+            settingsLogger.info(`Migrated settings of ${pluginId} from v${storedVersion} to v${targetVersion}`);
+        } catch (error) {
+            // Leave the stored values and version untouched so a fixed migration can run on them later
+            settingsLogger.error(`Failed to migrate settings of ${pluginId}, keeping the v${storedVersion} settings:`, error);
+            return;
+        }
+    }
+
     for (const [key, option] of Object.entries(options)) {
         if (settings[key] === undefined) {
             if (option.default !== undefined) {
                 settings[key] = option.default;
                 hasChanges = true;
             }
-        } else {
-            const stored = settings[key];
-            const expectedType = option.type;
-            const ok =
-                (expectedType === "boolean" && typeof stored === "boolean") ||
-                ((expectedType === "number" || expectedType === "slider") && typeof stored === "number") ||
-                (expectedType === "string" && typeof stored === "string") ||
-                (expectedType === "select" && option.options?.some(o => o.value === stored));
-
-            if (!ok) {
-                settings[key] = option.default;
-                hasChanges = true;
-            }
+        } else if (validateSettingValue(option, settings[key])) {
+            settingsLogger.warn(`Resetting invalid setting ${pluginId}.${key} to its default`);
+            settings[key] = option.default;
+            hasChanges = true;
         }
     }
 
     if (hasChanges) {
-        localStorage.setItem(`plugin-settings:${pluginId}`, JSON.stringify(settings));
+        persistentStorage.setItem(`plugin-settings:${pluginId}`, JSON.stringify(settings));
         settingsStore.set(pluginId, settings);
     }
+    if (schema?.version != null && storedVersion !== targetVersion) {
+        persistentStorage.setItem(versionKey, String(targetVersion));
+    }
+}
+
+/**
+ * Schema registered for a plugin's settings, if any.
+ */
+export function getPluginSettingsSchema(pluginId: string): PluginOptions | undefined {
+    return settingsSchemas.get(pluginId)?.options;
+}
+
+/**
+ * Drop cached settings and re-run initialization for every registered schema,
+ * e.g. after persistent storage finished loading from its backend.
+ */
+export function reloadPluginSettings(): void {
+    settingsStore.clear();
+    for (const [pluginId, { options, schema }] of settingsSchemas) {
+        initializePluginSettings(pluginId, options, schema);
+    }
 }
 
 export function useSetting<T extends PluginOptions, K extends keyof T & string>(
@@ -400,6 +720,8 @@ export function ui(def: SimpleUIPatch): IPluginUIPatch {
         },
         predicate: def.predicate,
         observerDebounce: def.observerDebounce,
+        routes: def.routes,
+        isolate: def.isolate,
     };
 }
 
@@ -412,6 +734,8 @@ export class UIPatchBuilder {
         referenceNode?: (parentElement: HTMLElement, foundElement: HTMLElement) => Node | null;
         observerDebounce?: boolean | number;
         predicate?: (foundElement: HTMLElement) => boolean;
+        routes?: readonly RouteMatcher[];
+        isolate?: UIIsolation;
     };
 
     private constructor(target: string | ElementFinderConfig) {
@@ -461,6 +785,16 @@ export class UIPatchBuilder {
         return this;
     }
 
+    routes(...matchers: RouteMatcher[]): UIPatchBuilder {
+        this.spec.routes = matchers;
+        return this;
+    }
+
+    isolate(mode: UIIsolation = "shadow"): UIPatchBuilder {
+        this.spec.isolate = mode;
+        return this;
+    }
+
     build(): IPluginUIPatch {
         return {
             target: this.spec.target!,
@@ -470,6 +804,8 @@ export class UIPatchBuilder {
             referenceNode: this.spec.referenceNode,
             observerDebounce: this.spec.observerDebounce,
             predicate: this.spec.predicate,
+            routes: this.spec.routes,
+            isolate: this.spec.isolate,
         };
     }
 }
@@ -490,22 +826,108 @@ export namespace Patch {
 
 export const plugins: IPlugin[] = [];
 
+/**
+ * Whether a plugin should run, based on its persisted toggle and defaults.
+ */
+export function isPluginEnabled(plugin: IPlugin): boolean {
+    if (plugin.required) {
+        return true;
+    }
+    const stored = persistentStorage.getItem(`plugin-enabled:${plugin.id}`);
+    if (stored === "1") {
+        return true;
+    }
+    if (stored === "0") {
+        return false;
+    }
+    return plugin.enabledByDefault ?? false;
+}
+
+// =============================================================================
+// PLUGIN MANAGER
+// =============================================================================
+
+/**
+ * `quarantined` plugins stay enabled but are not started again after repeated failures until the user retries them.
+ */
+export type PluginLoadState = "pending" | "loading" | "loaded" | "failed" | "quarantined" | "disabled";
+
+export type PluginToggleResult = { readonly success: true; } | { readonly success: false; readonly error: Error; };
+
+export type PluginStateChangedDetail = { pluginId: string; state: PluginLoadState; error?: string; };
+
+export interface CircuitBreakerStatus {
+    readonly state: "closed" | "open" | "half-open";
+    readonly failureCount: number;
+    readonly lastFailureTime: number;
+    readonly threshold: number;
+    readonly timeoutMs: number;
+}
+
+export interface PluginDiagnostics {
+    readonly pluginId: string;
+    readonly state: PluginLoadState;
+    readonly startedAt?: number;
+    readonly loadDurationMs?: number;
+    readonly retryCount: number;
+    readonly lastError?: string;
+    readonly circuitBreaker: CircuitBreakerStatus;
+}
+
+export interface PluginManagerDiagnostics {
+    readonly pluginsLoaded: number;
+    readonly pluginsFailed: number;
+    readonly totalLoadTime: number;
+    readonly memoryUsage: number;
+    readonly plugins: readonly PluginDiagnostics[];
+}
+
+/**
+ * Live control surface of the running plugin manager, for UI that toggles plugins without a reload.
+ */
+export interface IPluginManager {
+    getPluginState(pluginId: string): PluginLoadState;
+    enablePlugin(pluginId: string): Promise<PluginToggleResult>;
+    disablePlugin(pluginId: string): Promise<PluginToggleResult>;
+    retryPlugin(pluginId: string): Promise<PluginToggleResult>;
+    resetCircuitBreaker(pluginId: string): void;
+    getDiagnostics(): PluginManagerDiagnostics;
+}
+
+let pluginManager: IPluginManager | null = null;
+
+export function setPluginManager(manager: IPluginManager | null): void {
+    pluginManager = manager;
+}
+
+export function getPluginManager(): IPluginManager | null {
+    return pluginManager;
+}
+
+export function onPluginStateChanged(handler: (detail: PluginStateChangedDetail) => void): () => void {
+    const listener = (e: CustomEvent<PluginStateChangedDetail>) => handler(e.detail);
+    window.addEventListener("grokness-plugin-state", listener as unknown as EventListener);
+    return () => window.removeEventListener("grokness-plugin-state", listener as unknown as EventListener);
+}
+
 // =============================================================================
 // PLUGIN FACTORY
 // =============================================================================
 
-export function definePlugin<Def extends IPluginDefinition>(def: Def): IPlugin {
+export function definePlugin<TSettings extends PluginOptions = PluginOptions>(def: IPluginDefinition<TSettings>): IPlugin {
     const id = toKebabCase(def.name);
 
     if (def.settings) {
         const options = def.settings.definition;
-        initializePluginSettings(id, options);
+        initializePluginSettings(id, options, def.settings.schema);
         type StoreType = { [K in keyof typeof options]: InferOptionType<(typeof options)[K]> };
         (def.settings as { store: Record<string, unknown>; }).store = new Proxy({}, {
             get(_, key: string) {
                 return getPluginSetting(id, key, options);
             },
         });
+    } else if (def.options) {
+        initializePluginSettings(id, def.options);
     }
 
     const toArray = <T,>(v?: T | T[]): T[] => (v == null ? [] : Array.isArray(v) ? v : [v]);
@@ -525,6 +947,9 @@ export function definePlugin<Def extends IPluginDefinition>(def: Def): IPlugin {
         return p as IPluginCodePatch | IPatch;
     });
     const allPatches: PluginPatch[] = [...normalizedPatches, ...uiPatches];
+    // Code patches rewrite modules as they load, so they cannot be toggled on a live page
+    const hasCodePatches = allPatches.some(isCodePatch);
+    const typed = (ctx: IPluginContext) => ctx as unknown as IPluginContext<TSettings>;
 
     const plugin: IPlugin = {
         id,
@@ -534,17 +959,19 @@ export function definePlugin<Def extends IPluginDefinition>(def: Def): IPlugin {
         category: def.category || PluginCategory.Other,
         tags: def.tags || [],
         dependencies: def.dependencies || [],
+        requiredLocators: def.requiredLocators || [],
+        commands: def.commands || [],
         visible: def.visible !== false,
         enabledByDefault: def.enabledByDefault ?? false,
-        requiresRestart: !!def.requiresRestart,
+        requiresRestart: !!def.requiresRestart || hasCodePatches,
         required: !!def.required,
         hidden: !!def.hidden,
         experimental: !!def.experimental,
         options: def.settings?.definition || def.options || {},
         styles: def.styles,
         patches: allPatches,
-        start: ctx => {
-            def.onLoad?.(ctx);
+        start: async ctx => {
+            await def.onLoad?.(typed(ctx));
             if (def.styles) {
                 pluginHelper.applyStyles(id, def.styles);
             }
@@ -556,13 +983,14 @@ export function definePlugin<Def extends IPluginDefinition>(def: Def): IPlugin {
                     } else {
                         pluginHelper.applySingleUIPatch(id, uiPatch);
                     }
-                } else if (!("find" in patch && "replacement" in patch)) {
+                } else if (!isCodePatch(patch)) {
                     patch.apply?.();
                 }
             });
-            def.start?.(ctx);
+            plugin.commands.forEach(command => ctx.registerCommand(command));
+            await def.start?.(typed(ctx));
         },
-        stop: ctx => {
+        stop: async ctx => {
             if (def.styles) {
                 pluginHelper.removeStyles(id);
             }
@@ -575,13 +1003,20 @@ export function definePlugin<Def extends IPluginDefinition>(def: Def): IPlugin {
                     } else {
                         pluginHelper.removeSingleUIPatch(id);
                     }
-                } else if (!("find" in patch && "replacement" in patch)) {
+                } else if (!isCodePatch(patch)) {
                     patch.remove?.();
                 }
             });
-            def.stop?.(ctx);
-            def.onUnload?.(ctx);
+            try {
+                await def.stop?.(typed(ctx));
+                await def.onUnload?.(typed(ctx));
+            } finally {
+                ctx.disposables.dispose();
+            }
         },
+        onError: def.onError && ((error, ctx) => def.onError?.(error, typed(ctx))),
+        onSettingsChange: def.onSettingsChange && ((key, value, ctx) =>
+            def.onSettingsChange?.(key as keyof TSettings & string, value as InferOptionType<TSettings[keyof TSettings & string]>, typed(ctx))),
     };
 
     plugins.push(plugin);
@@ -592,15 +1027,19 @@ export default definePlugin;
 
 export type SettingsUpdatedDetail = { pluginId: string; key: string; value: unknown; };
 
+export function onAnyPluginSettingsUpdated(handler: (detail: SettingsUpdatedDetail) => void): () => void {
+    const listener = (e: CustomEvent<SettingsUpdatedDetail>) => handler(e.detail);
+    window.addEventListener("grok-settings-updated", listener as unknown as EventListener);
+    return () => window.removeEventListener("grok-settings-updated", listener as unknown as EventListener);
+}
+
 export function onPluginSettingsUpdated(
     pluginId: string,
     handler: (detail: SettingsUpdatedDetail) => void
 ): () => void {
-    const listener = (e: CustomEvent<SettingsUpdatedDetail>) => {
-        if (e.detail.pluginId === pluginId) {
-            handler(e.detail);
+    return onAnyPluginSettingsUpdated(detail => {
+        if (detail.pluginId === pluginId) {
+            handler(detail);
         }
-    };
-    window.addEventListener("grok-settings-updated", listener as unknown as EventListener);
-    return () => window.removeEventListener("grok-settings-updated", listener as unknown as EventListener);
+    });
 }
@@ -0,0 +1,80 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { postToPageScript } from "@utils/pageBridge";
+import { getCodePatchReport, installPageCodePatches, installWebpackHook, registerCodePatches } from "@webpack/patcher";
+import { describe, expect, test } from "bun:test";
+
+type Factory = (module: unknown, exports: Record<string, unknown>) => void;
+
+const waitFor = async (check: () => boolean, timeoutMs = 1000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!check()) {
+        if (Date.now() > deadline) {
+            throw new Error("Timed out waiting for condition");
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+};
+
+/**
+ * Push a one-module chunk the way grok.com's bundler does and run the (possibly patched) factory.
+ */
+function loadModule(id: string, factory: Factory): Record<string, unknown> {
+    const w = window as unknown as { webpackChunk_N_E?: Array<[unknown, Record<string, Factory>]>; };
+    w.webpackChunk_N_E ??= [];
+    const modules: Record<string, Factory> = { [id]: factory };
+    w.webpackChunk_N_E.push([[id], modules]);
+    const exports: Record<string, unknown> = {};
+    modules[id]?.({}, exports);
+    return exports;
+}
+
+describe("code patches", () => {
+    test("rewrite matching modules once the hook is installed", () => {
+        registerCodePatches("patch-direct", [{ find: "greeting-direct", replacement: { match: /"hello"/, replace: "\"patched\"" }, timeout: 0 }]);
+        installWebpackHook();
+
+        const exports = loadModule("1001", function (_module, exports) {
+            exports.id = "greeting-direct";
+            exports.value = "hello";
+        });
+
+        expect(exports.value).toBe("patched");
+        expect(getCodePatchReport("patch-direct")).toEqual([{ pluginId: "patch-direct", find: "greeting-direct", status: "applied", moduleIds: ["1001"], error: undefined }]);
+    });
+
+    test("apply patches forwarded to the page script and report the outcome", async () => {
+        const reports: unknown[] = [];
+        // happy-dom does not set `source` on posted messages, which onPageMessage checks, so read them directly
+        const listener = (e: MessageEvent) => {
+            if (e.data?.type === "code-patch") {
+                reports.push(e.data.payload);
+            }
+        };
+        window.addEventListener("message", listener);
+        installPageCodePatches();
+
+        postToPageScript("code-patches", {
+            patches: [{
+                key: 9001,
+                pluginId: "patch-forwarded",
+                find: { source: "greeting-(forwarded)", flags: "" },
+                match: { source: "\"hello\"", flags: "g" },
+                replace: { fn: String((match: string) => match.toUpperCase()) },
+            }],
+        });
+        const exports = loadModule("1002", function (_module, exports) {
+            exports.id = "greeting-forwarded";
+            exports.value = "hello";
+        });
+
+        expect(exports.value).toBe("HELLO");
+        await waitFor(() => reports.length > 0);
+        expect(reports).toEqual([{ key: 9001, status: "applied", moduleId: "1002" }]);
+        window.removeEventListener("message", listener);
+    });
+});
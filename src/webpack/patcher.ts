@@ -0,0 +1,512 @@
+/*
+ * Grokness, a grok.com browser extension mod
+ * Copyright (c) 2025 Prism and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { getPageWindow } from "@utils/dom";
+import { Logger } from "@utils/logger";
+import { announcePageScript, onContentScriptMessage, onPageMessage, onPageScriptReady, postToContentScript, postToPageScript, USES_PAGE_SCRIPT } from "@utils/pageBridge";
+import { reportPluginError } from "@utils/pluginErrors";
+import type { IPluginCodePatch } from "@utils/types";
+
+const logger = new Logger("Patcher", "#c4a7e7");
+
+/**
+ * Chunk globals used by grok.com's bundler. Next.js always names it `webpackChunk_N_E`,
+ * any other `webpackChunk*` global already present at install time is hooked as well.
+ */
+const KNOWN_CHUNK_GLOBALS = ["webpackChunk_N_E"] as const;
+const CHUNK_GLOBAL_PATTERN = /^webpackChunk/;
+const DEFAULT_PATCH_TIMEOUT_MS = 15000;
+const HOOK_FLAG = "__groknessWebpackHooked";
+
+type WebpackModuleFactory = (module: unknown, exports: unknown, require: unknown) => void;
+type WebpackModules = Record<string | number, WebpackModuleFactory>;
+type WebpackChunk = [chunkIds: unknown, modules: WebpackModules, runtime?: unknown];
+type WebpackChunkGlobal = WebpackChunk[];
+
+export type CodePatchStatus = "pending" | "applied" | "failed" | "skipped";
+
+type SerializedPattern = { readonly source: string; readonly flags: string; };
+
+/**
+ * A code patch as the loader forwards it to the page script. Replacement functions travel as source and are
+ * re-evaluated in the page realm, so they cannot close over anything.
+ */
+export interface SerializedCodePatch {
+    readonly key: number;
+    readonly pluginId: string;
+    readonly find: string | SerializedPattern;
+    readonly match: SerializedPattern;
+    readonly replace: string | { readonly fn: string; };
+    readonly all?: boolean;
+    readonly group?: boolean;
+    readonly noWarn?: boolean;
+}
+
+/**
+ * Outcome of a forwarded code patch, reported back by the page script.
+ */
+export interface CodePatchStatusMessage {
+    readonly key: number;
+    readonly status: "applied" | "failed";
+    readonly moduleId?: string;
+    readonly error?: string;
+}
+
+/**
+ * Snapshot of a single code patch, suitable for logging and diagnostics.
+ */
+export interface CodePatchReport {
+    readonly pluginId: string;
+    readonly find: string;
+    readonly status: CodePatchStatus;
+    readonly moduleIds: readonly string[];
+    readonly error?: string;
+}
+
+interface CodePatchRecord {
+    /** Identifies the record on both sides of the page bridge */
+    readonly key: number;
+    readonly pluginId: string;
+    readonly patch: IPluginCodePatch;
+    status: CodePatchStatus;
+    active: boolean;
+    readonly moduleIds: string[];
+    error?: string;
+    timer?: number;
+}
+
+const records: CodePatchRecord[] = [];
+let nextKey = 0;
+let bridged = false;
+/** Set in the page script, where outcomes are reported to the loader instead of handled locally */
+let reportToLoader: ((message: CodePatchStatusMessage) => void) | null = null;
+
+function describeFind(find: string | RegExp): string {
+    return typeof find === "string" ? find : String(find);
+}
+
+function matchesFind(code: string, find: string | RegExp): boolean {
+    if (typeof find === "string") {
+        return code.includes(find);
+    }
+    find.lastIndex = 0;
+    return find.test(code);
+}
+
+function applyReplacement(code: string, patch: IPluginCodePatch): string {
+    const { match, replace } = patch.replacement;
+    match.lastIndex = 0;
+    return typeof replace === "string"
+        ? code.replace(match, replace)
+        : code.replace(match, replace as (substring: string, ...args: unknown[]) => string);
+}
+
+function warn(record: CodePatchRecord, message: string): void {
+    if (!record.patch.noWarn) {
+        logger.warn(`[${record.pluginId}] ${message}`, describeFind(record.patch.find));
+    }
+}
+
+function markFailed(record: CodePatchRecord, error: string): void {
+    if (record.status === "applied") {
+        warn(record, `Code patch partially failed (${error}):`);
+        return;
+    }
+    record.status = "failed";
+    record.error = error;
+    if (reportToLoader) {
+        reportToLoader({ key: record.key, status: "failed", error });
+        return;
+    }
+    warn(record, `Code patch failed (${error}):`);
+    reportPluginError(record.pluginId, new Error(`Code patch ${describeFind(record.patch.find)} failed: ${error}`), "patch");
+}
+
+function markApplied(record: CodePatchRecord, moduleId: string): void {
+    record.status = "applied";
+    record.error = undefined;
+    record.moduleIds.push(moduleId);
+    if (record.timer != null) {
+        clearTimeout(record.timer);
+        record.timer = undefined;
+    }
+    reportToLoader?.({ key: record.key, status: "applied", moduleId });
+}
+
+/**
+ * Turn a module factory's source into an evaluable function expression.
+ * Webpack emits factories as `function(e,t,n){}`, arrows, or method shorthand `123(e,t,n){}`.
+ */
+function toFunctionSource(code: string): string {
+    if (/^(async\s+)?function\b/.test(code) || /^(async\s*)?(\(|[\w$]+\s*=>)/.test(code)) {
+        return code;
+    }
+    return `function ${code.replace(/^[\w$]+/, "")}`;
+}
+
+/**
+ * Evaluate a function expression in the page's realm rather than the userscript sandbox,
+ * so patched code sees grok.com's globals.
+ */
+function evaluateInPage<T>(source: string, sourceURL: string): T {
+    return (getPageWindow() as Window & typeof globalThis).eval(`0,${toFunctionSource(source)}\n//# sourceURL=${sourceURL}`) as T;
+}
+
+function evaluateFactory(id: string, code: string): WebpackModuleFactory {
+    return evaluateInPage<WebpackModuleFactory>(code, `GroknessPatchedModule${id}`);
+}
+
+const toPattern = (re: RegExp): SerializedPattern => ({ source: re.source, flags: re.flags });
+
+function serializePatch(record: CodePatchRecord): SerializedCodePatch {
+    const { find, replacement, all, group, noWarn } = record.patch;
+    return {
+        key: record.key,
+        pluginId: record.pluginId,
+        find: typeof find === "string" ? find : toPattern(find),
+        match: toPattern(replacement.match),
+        replace: typeof replacement.replace === "string" ? replacement.replace : { fn: String(replacement.replace) },
+        all,
+        group,
+        noWarn,
+    };
+}
+
+function deserializePatch(patch: SerializedCodePatch): IPluginCodePatch {
+    return {
+        find: typeof patch.find === "string" ? patch.find : new RegExp(patch.find.source, patch.find.flags),
+        replacement: {
+            match: new RegExp(patch.match.source, patch.match.flags),
+            replace: typeof patch.replace === "string"
+                ? patch.replace
+                : evaluateInPage<(substring: string, ...args: unknown[]) => string>(patch.replace.fn, `GroknessPatchReplacement${patch.key}`),
+        },
+        all: patch.all,
+        group: patch.group,
+        noWarn: patch.noWarn,
+    };
+}
+
+function patchFactory(id: string, factory: WebpackModuleFactory): WebpackModuleFactory {
+    const candidates = records.filter(r => r.active && (r.patch.all || r.status !== "applied"));
+    if (candidates.length === 0) {
+        return factory;
+    }
+
+    const original = String(factory);
+    const matching = candidates.filter(r => matchesFind(original, r.patch.find));
+    if (matching.length === 0) {
+        return factory;
+    }
+
+    let code = original;
+    const applied: CodePatchRecord[] = [];
+
+    const byPlugin = new Map<string, CodePatchRecord[]>();
+    for (const record of matching) {
+        const list = byPlugin.get(record.pluginId) ?? [];
+        list.push(record);
+        byPlugin.set(record.pluginId, list);
+    }
+
+    for (const [pluginId, list] of byPlugin) {
+        const grouped = list.filter(r => r.patch.group);
+        const single = list.filter(r => !r.patch.group);
+
+        for (const record of single) {
+            try {
+                const next = applyReplacement(code, record.patch);
+                if (next === code) {
+                    markFailed(record, `replacement ${String(record.patch.replacement.match)} had no effect in module ${id}`);
+                    continue;
+                }
+                code = next;
+                applied.push(record);
+            } catch (error) {
+                markFailed(record, (error as Error).message);
+            }
+        }
+
+        if (grouped.length > 0) {
+            const snapshot = code;
+            let groupCode = code;
+            let groupOk = true;
+            for (const record of grouped) {
+                try {
+                    const next = applyReplacement(groupCode, record.patch);
+                    if (next === groupCode) {
+                        groupOk = false;
+                        break;
+                    }
+                    groupCode = next;
+                } catch {
+                    groupOk = false;
+                    break;
+                }
+            }
+            if (groupOk) {
+                code = groupCode;
+                applied.push(...grouped);
+            } else {
+                code = snapshot;
+                for (const record of grouped) {
+                    markFailed(record, `patch group of ${pluginId} did not fully apply in module ${id}`);
+                }
+            }
+        }
+    }
+
+    if (code === original || applied.length === 0) {
+        return factory;
+    }
+
+    try {
+        const patched = evaluateFactory(id, code);
+        for (const record of applied) {
+            markApplied(record, id);
+        }
+        logger.debug(`Patched module ${id} with ${applied.length} patch(es)`);
+        return patched;
+    } catch (error) {
+        for (const record of applied) {
+            markFailed(record, `patched module ${id} failed to evaluate: ${(error as Error).message}`);
+        }
+        return factory;
+    }
+}
+
+function patchChunk(chunk: WebpackChunk): void {
+    const modules = Array.isArray(chunk) ? chunk[1] : undefined;
+    if (!modules || typeof modules !== "object") {
+        return;
+    }
+    for (const id of Object.keys(modules)) {
+        const factory = modules[id];
+        if (typeof factory !== "function") {
+            continue;
+        }
+        try {
+            modules[id] = patchFactory(id, factory);
+        } catch (error) {
+            logger.error(`Failed to patch module ${id}:`, error);
+        }
+    }
+}
+
+/**
+ * Webpack's runtime replaces `push` on the chunk array once it boots, so the hook
+ * lives on the property itself and wraps whichever implementation gets assigned.
+ */
+function hookChunkGlobal(chunks: WebpackChunkGlobal): void {
+    if ((chunks as unknown as Record<string, unknown>)[HOOK_FLAG]) {
+        return;
+    }
+    Object.defineProperty(chunks, HOOK_FLAG, { value: true });
+
+    chunks.forEach(patchChunk);
+
+    let push: (...items: WebpackChunk[]) => number = Array.prototype.push.bind(chunks);
+    const hookedPush = (...items: WebpackChunk[]): number => {
+        items.forEach(patchChunk);
+        return push(...items);
+    };
+    Object.defineProperty(chunks, "push", {
+        configurable: true,
+        get: () => hookedPush,
+        set: (next: (...items: WebpackChunk[]) => number) => {
+            push = next;
+        },
+    });
+}
+
+function hookGlobal(name: string): void {
+    const w = getPageWindow() as unknown as Record<string, unknown>;
+    const existing = w[name];
+    if (Array.isArray(existing)) {
+        hookChunkGlobal(existing as WebpackChunkGlobal);
+        return;
+    }
+
+    let value: unknown = existing;
+    try {
+        Object.defineProperty(w, name, {
+            configurable: true,
+            get: () => value,
+            set: (next: unknown) => {
+                value = next;
+                if (Array.isArray(next)) {
+                    hookChunkGlobal(next as WebpackChunkGlobal);
+                }
+            },
+        });
+    } catch (error) {
+        logger.error(`Failed to hook chunk global ${name}:`, error);
+    }
+}
+
+/**
+ * Send active code patches to the page script, which ignores ones it already has.
+ */
+function forwardToPage(list: readonly CodePatchRecord[]): void {
+    const patches = list.filter(r => r.active).map(serializePatch);
+    if (patches.length > 0) {
+        postToPageScript("code-patches", { patches });
+    }
+}
+
+function applyPageStatus({ key, status, moduleId, error }: CodePatchStatusMessage): void {
+    const record = records.find(r => r.key === key);
+    if (!record) {
+        return;
+    }
+    if (status === "applied") {
+        markApplied(record, moduleId ?? "unknown");
+    } else {
+        markFailed(record, error ?? "failed in the page script");
+    }
+}
+
+/**
+ * Register a plugin's code patches. Patches only take effect for modules loaded after
+ * registration, so this must run at document_start before grok.com's chunks execute.
+ * @param pluginId - Owning plugin id
+ * @param patches - Code patches declared by the plugin
+ */
+export function registerCodePatches(pluginId: string, patches: readonly IPluginCodePatch[]): void {
+    for (const patch of patches) {
+        const record: CodePatchRecord = { key: nextKey++, pluginId, patch, status: "pending", active: true, moduleIds: [] };
+        records.push(record);
+
+        if (patch.predicate) {
+            try {
+                const allowed = patch.predicate();
+                if (allowed instanceof Promise) {
+                    record.active = false;
+                    allowed
+                        .then(ok => {
+                            record.active = ok;
+                            if (!ok) {
+                                record.status = "skipped";
+                            } else if (bridged) {
+                                forwardToPage([record]);
+                            }
+                        })
+                        .catch(error => markFailed(record, `predicate threw: ${(error as Error)?.message ?? error}`));
+                } else if (!allowed) {
+                    record.active = false;
+                    record.status = "skipped";
+                    continue;
+                }
+            } catch (error) {
+                record.active = false;
+                markFailed(record, `predicate threw: ${(error as Error).message}`);
+                continue;
+            }
+        }
+
+        const timeoutMs = patch.timeout ?? DEFAULT_PATCH_TIMEOUT_MS;
+        if (timeoutMs > 0) {
+            record.timer = window.setTimeout(() => {
+                record.timer = undefined;
+                if (record.status === "pending") {
+                    markFailed(record, `no module matched within ${timeoutMs}ms`);
+                }
+            }, timeoutMs);
+        }
+    }
+}
+
+function hookChunkLoading(): void {
+    const w = getPageWindow() as unknown as Record<string, unknown>;
+    if (w[HOOK_FLAG]) {
+        return;
+    }
+    w[HOOK_FLAG] = true;
+
+    const names = new Set<string>(KNOWN_CHUNK_GLOBALS);
+    for (const key of Object.keys(w)) {
+        if (CHUNK_GLOBAL_PATTERN.test(key)) {
+            names.add(key);
+        }
+    }
+    names.forEach(hookGlobal);
+    logger.debug(`Hooked chunk loading for ${records.length} code patch(es)`);
+}
+
+/**
+ * Install the chunk loading hook. Safe to call more than once. Extension builds hook chunk loading from
+ * the MAIN-world page script instead, so there this forwards the registered patches to it.
+ */
+export function installWebpackHook(): void {
+    if (!USES_PAGE_SCRIPT) {
+        hookChunkLoading();
+        return;
+    }
+    if (bridged) {
+        return;
+    }
+    bridged = true;
+    onPageMessage("code-patch", applyPageStatus);
+    onPageScriptReady(() => forwardToPage(records));
+    forwardToPage(records);
+}
+
+/**
+ * Page-script side of {@link installWebpackHook} in extension builds: hook chunk loading in the page realm,
+ * apply the patches the loader forwards and report each outcome back to it.
+ */
+export function installPageCodePatches(): void {
+    reportToLoader = message => postToContentScript("code-patch", message);
+    onContentScriptMessage("code-patches", ({ patches }) => {
+        for (const patch of patches) {
+            if (records.some(r => r.key === patch.key)) {
+                continue;
+            }
+            try {
+                records.push({ key: patch.key, pluginId: patch.pluginId, patch: deserializePatch(patch), status: "pending", active: true, moduleIds: [] });
+            } catch (error) {
+                reportToLoader?.({ key: patch.key, status: "failed", error: `could not be recreated in the page: ${(error as Error).message}` });
+            }
+        }
+    });
+    hookChunkLoading();
+    announcePageScript();
+}
+
+/**
+ * Report the state of every registered code patch, optionally for a single plugin.
+ */
+export function getCodePatchReport(pluginId?: string): CodePatchReport[] {
+    return records
+        .filter(r => !pluginId || r.pluginId === pluginId)
+        .map(r => ({
+            pluginId: r.pluginId,
+            find: describeFind(r.patch.find),
+            status: r.status,
+            moduleIds: [...r.moduleIds],
+            error: r.error,
+        }));
+}
+
+/**
+ * Log a per-plugin summary of matched and failed code patches.
+ */
+export function logCodePatchSummary(): void {
+    const byPlugin = new Map<string, CodePatchReport[]>();
+    for (const report of getCodePatchReport()) {
+        const list = byPlugin.get(report.pluginId) ?? [];
+        list.push(report);
+        byPlugin.set(report.pluginId, list);
+    }
+    for (const [pluginId, reports] of byPlugin) {
+        const applied = reports.filter(r => r.status === "applied").length;
+        const failed = reports.filter(r => r.status === "failed");
+        logger.info(`${pluginId}: ${applied}/${reports.length} code patches applied`);
+        for (const report of failed) {
+            logger.debug(`${pluginId}: ${report.find} -> ${report.error ?? "failed"}`);
+        }
+    }
+}
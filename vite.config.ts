@@ -16,7 +16,12 @@ const userscriptHeader = `// ==UserScript==
 // @author       ${pkg.author?.name ?? 'Prism'}
 // @license      ${pkg.license ?? 'GPL-3.0'}
 // @match        https://grok.com/*
-// @grant        none
+// @run-at       document-start
+// @grant        GM_getValue
+// @grant        GM_setValue
+// @grant        GM_deleteValue
+// @grant        GM_listValues
+// @grant        unsafeWindow
 // ==/UserScript==
 `;
 
@@ -150,13 +155,14 @@ export default defineConfig(({ mode }) => {
         },
         define: {
             'process.env.BROWSER': JSON.stringify(process.env.BROWSER),
+            'process.env.BUILD_TARGET': JSON.stringify('extension'),
             'process.env.NODE_ENV': JSON.stringify(mode)
         },
         plugins: [
             webExtension({
                 browser: targetBrowser,
                 manifest: manifestFile,
-                additionalInputs: ['loader.ts']
+                additionalInputs: ['loader.ts', 'page.ts']
             })
         ]
     };